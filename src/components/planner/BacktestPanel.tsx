@@ -0,0 +1,126 @@
+/**
+ * Backtest Panel
+ * Replays the plan through every historical start year and highlights the ones that fell short
+ */
+
+import React, { useState } from 'react'
+import { useSimulationWorker } from '../../hooks/useSimulationWorker'
+import type { BacktestSummary } from '../../types/planner'
+
+interface BacktestPanelProps {
+  plannerState: any
+  className?: string
+}
+
+const formatCurrency = (value: number) => {
+  if (Math.abs(value) >= 1000000) {
+    return `$${(value / 1000000).toFixed(1)}M`
+  }
+  return `$${Math.round(value / 1000)}k`
+}
+
+export const BacktestPanel: React.FC<BacktestPanelProps> = ({
+  plannerState,
+  className = ''
+}) => {
+  const { runBacktest, isRunning, workerStatus } = useSimulationWorker()
+  const [summary, setSummary] = useState<BacktestSummary | null>(null)
+  const [runError, setRunError] = useState<string | null>(null)
+  const [progress, setProgress] = useState(0)
+
+  const handleRun = async () => {
+    try {
+      setRunError(null)
+      setProgress(0)
+      const result = await runBacktest(plannerState, undefined, { onProgress: setProgress })
+      setSummary(result.backtest || null)
+    } catch (error) {
+      console.error('[BacktestPanel] Backtest failed:', error)
+      setRunError(error instanceof Error ? error.message : 'Backtest failed')
+    }
+  }
+
+  const failed = summary ? summary.windows.filter(w => !w.success) : []
+  const maxLiquid = summary ? Math.max(...summary.windows.map(w => w.liquidAtRetire), 1) : 1
+  const worst = summary?.worstWindow
+
+  return (
+    <div className={`bg-gray-50 border-2 border-gray-200 rounded-xl p-6 ${className}`}>
+      <div className="flex items-start gap-4 mb-4">
+        <div className="text-2xl">📜</div>
+        <div className="flex-1">
+          <h3 className="font-semibold text-gray-800 mb-1">How would your plan have done in the past?</h3>
+          <p className="text-sm text-gray-700">
+            We replay your plan through real Australian share, global share, property and inflation history,
+            starting once from every year in our data. Amounts are in today's dollars.
+          </p>
+        </div>
+        <button
+          onClick={handleRun}
+          disabled={isRunning || workerStatus !== 'ready'}
+          className="bg-gray-700 text-white px-4 py-2 rounded-lg text-sm font-medium hover:bg-gray-800 transition-colors disabled:opacity-50"
+        >
+          {isRunning ? `Running... ${Math.round(progress)}%` : summary ? 'Run again' : 'Run backtest'}
+        </button>
+      </div>
+
+      {runError && (
+        <p className="text-sm text-red-600 mb-4">{runError}</p>
+      )}
+
+      {summary && (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+            <div className={`p-4 rounded-lg text-center ${summary.successRate >= 0.8 ? 'bg-green-100' : summary.successRate >= 0.5 ? 'bg-yellow-100' : 'bg-red-100'}`}>
+              <div className="text-2xl font-bold text-gray-800">{Math.round(summary.successRate * 100)}%</div>
+              <div className="text-xs text-gray-600 mt-1">
+                of {summary.windows.length} historical start years lasted to age {summary.successAge}
+              </div>
+            </div>
+            <div className="bg-white p-4 rounded-lg text-center">
+              <div className="text-2xl font-bold text-gray-700">
+                {worst!.moneyRunsOutAge !== undefined ? `Age ${Math.floor(worst!.moneyRunsOutAge)}` : formatCurrency(worst!.liquidAtRetire)}
+              </div>
+              <div className="text-xs text-gray-600 mt-1">
+                Worst case: retiring into {worst!.retireYear}
+                {worst!.moneyRunsOutAge !== undefined ? ' - money runs out' : ' - smallest nest egg'}
+              </div>
+            </div>
+            <div className="bg-white p-4 rounded-lg text-center">
+              <div className="text-2xl font-bold text-gray-700">{failed.length}</div>
+              <div className="text-xs text-gray-600 mt-1">Start years where money ran out</div>
+            </div>
+          </div>
+
+          {/* Nest egg at retirement per start year; red bars ran out of money later */}
+          <div className="relative h-32 bg-white rounded-lg border flex items-end gap-px px-1">
+            {summary.windows.map(w => (
+              <div
+                key={w.startYear}
+                title={`Start ${w.startYear} → retire into ${w.retireYear}: ${formatCurrency(w.liquidAtRetire)}${w.moneyRunsOutAge !== undefined ? `, runs out at ${Math.floor(w.moneyRunsOutAge)}` : ''}${w.wrapped ? ' (data reused from the start)' : ''}`}
+                className={`flex-1 rounded-t ${w.success ? 'bg-green-500' : 'bg-red-500'} ${w.wrapped ? 'opacity-60' : ''}`}
+                style={{ height: `${Math.max(0, w.liquidAtRetire / maxLiquid) * 100}%` }}
+              />
+            ))}
+          </div>
+          <div className="flex justify-between text-sm text-gray-600 mt-2">
+            <span>Start {summary.dataRange.from}</span>
+            <span>Start {summary.dataRange.to}</span>
+          </div>
+
+          {failed.length > 0 ? (
+            <p className="text-sm text-gray-700 mt-4">
+              Money ran out when retiring into: {failed.map(w => w.retireYear).join(', ')}
+            </p>
+          ) : (
+            <p className="text-sm text-green-700 mt-4">Your money lasted in every historical start year.</p>
+          )}
+          <p className="text-xs text-gray-500 mt-2">
+            Data covers {summary.dataRange.from}–{summary.dataRange.to}; later years continue from {summary.dataRange.from}.
+            Faded bars retired into reused data. Past performance is not a reliable indicator of future returns.
+          </p>
+        </>
+      )}
+    </div>
+  )
+}
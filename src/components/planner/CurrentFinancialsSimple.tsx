@@ -4,7 +4,11 @@
  */
 
 import React, { useState } from 'react'
-import { calculateNetIncome, getTaxBracket, calculateSuperGuarantee } from '../../utils/taxCalculations'
+import { calculateNetIncome, getTaxBracket, calculateSuperGuarantee, calculateHelpRepayment } from '../../utils/taxCalculations'
+import { getTaxParameters } from '../../simulation/data/taxParameters'
+import { compareInvestVsRepay, projectHelpDebt } from '../../simulation/modules/help'
+import { getCarryForwardSummary, getNonConcessionalYears } from '../../simulation/modules/super'
+import { createDefaultSettings } from '../../schemas/planner'
 
 interface CurrentFinancialsProps {
   incomeExpense: any
@@ -12,12 +16,14 @@ interface CurrentFinancialsProps {
   property: any
   portfolio: any
   buffers: any
+  partner?: any
   settings: any
   onChangeIncomeExpense: (data: any) => void
   onChangeSuper: (data: any) => void
   onChangeProperty: (data: any) => void
   onChangePortfolio: (data: any) => void
   onChangeBuffers: (data: any) => void
+  onChangePartner?: (data: any) => void
   onComplete: () => void
   onPrevious?: () => void
 }
@@ -28,12 +34,14 @@ export const CurrentFinancials: React.FC<CurrentFinancialsProps> = ({
   property,
   portfolio,
   buffers,
+  partner,
   settings,
   onChangeIncomeExpense,
   onChangeSuper,
   onChangeProperty,
   onChangePortfolio,
   onChangeBuffers,
+  onChangePartner,
   onComplete,
   onPrevious
 }) => {
@@ -47,15 +55,31 @@ export const CurrentFinancials: React.FC<CurrentFinancialsProps> = ({
   const [showMoreDetails, setShowMoreDetails] = useState(false)
   const [salarySacrifice, setSalarySacrifice] = useState(superState?.salaryPackaging ?? 0)
   const [superOption, setSuperOption] = useState(superState?.option || 'HighGrowth')
+  const [concessionalHistory, setConcessionalHistory] = useState(superState?.concessionalHistory || [])
+  const [nonConcessionalMonthly, setNonConcessionalMonthly] = useState(superState?.nonConcessionalMonthly ?? 0)
+  const [nonConcessionalLumpSums, setNonConcessionalLumpSums] = useState(superState?.nonConcessionalLumpSums || [])
   const [etfStrategy, setEtfStrategy] = useState(portfolio?.allocationPreset || 'OneETF')
   const [emergencyMonths, setEmergencyMonths] = useState(buffers?.emergencyMonths || 6)
   
   // Enhanced features state
-  const [hasHECS, setHasHECS] = useState(false)
+  const [hasHECS, setHasHECS] = useState(!!incomeExpense?.helpDebt)
+  const [helpDebt, setHelpDebt] = useState(incomeExpense?.helpDebt || 0)
+  const [helpVoluntaryMonthly, setHelpVoluntaryMonthly] = useState(incomeExpense?.helpVoluntaryMonthly || 0)
   const [isRenting, setIsRenting] = useState(false)
+  const [hasHospitalCover, setHasHospitalCover] = useState(incomeExpense?.privateHospitalCover ?? false)
+  const [healthPremiumYearly, setHealthPremiumYearly] = useState(incomeExpense?.privateHealthPremiumYearly || 0)
   const [monthlyRent, setMonthlyRent] = useState(0)
   const [householdType, setHouseholdType] = useState('single')
   const [useHEM, setUseHEM] = useState(incomeExpense?.monthlyExpenses ? false : true)
+
+  // Partner (couple households): their own pay, super and retirement age; spending stays shared
+  const [hasPartner, setHasPartner] = useState(!!partner)
+  const [partnerAge, setPartnerAge] = useState(partner?.currentAge || 30)
+  const [partnerRetirementAge, setPartnerRetirementAge] = useState(partner?.retirementAge || 65)
+  const [partnerSalary, setPartnerSalary] = useState(partner?.salary ?? 60000)
+  const [partnerSuperBalance, setPartnerSuperBalance] = useState(partner?.currentBalance ?? 30000)
+  const [partnerSalarySacrifice, setPartnerSalarySacrifice] = useState(partner?.salaryPackaging ?? 0)
+  const [spouseContributionYearly, setSpouseContributionYearly] = useState(superState?.spouseContributionYearly ?? 0)
   
   // HEM estimates (Australian Bureau of Statistics)
   const hemEstimates = {
@@ -64,61 +88,81 @@ export const CurrentFinancials: React.FC<CurrentFinancialsProps> = ({
     family: 5400
   }
   
-  // HECS/HELP repayment calculation (2024-25 rates)
-  const calculateHECSRepayment = (annualIncome) => {
-    if (annualIncome < 54435) return 0
-    if (annualIncome < 62850) return annualIncome * 0.01
-    if (annualIncome < 66600) return annualIncome * 0.02
-    if (annualIncome < 70618) return annualIncome * 0.025
-    if (annualIncome < 74855) return annualIncome * 0.03
-    if (annualIncome < 79346) return annualIncome * 0.035
-    if (annualIncome < 84107) return annualIncome * 0.04
-    if (annualIncome < 89154) return annualIncome * 0.045
-    if (annualIncome < 94504) return annualIncome * 0.05
-    if (annualIncome < 100174) return annualIncome * 0.055
-    if (annualIncome < 106184) return annualIncome * 0.06
-    if (annualIncome < 112556) return annualIncome * 0.065
-    if (annualIncome < 119311) return annualIncome * 0.07
-    if (annualIncome < 126476) return annualIncome * 0.075
-    if (annualIncome < 134056) return annualIncome * 0.08
-    if (annualIncome < 142097) return annualIncome * 0.085
-    if (annualIncome < 150626) return annualIncome * 0.09
-    return annualIncome * 0.10
-  }
-
   // Calculate accurate tax breakdown with HECS
-  const hecsAnnualRepayment = hasHECS ? calculateHECSRepayment(salary) : 0
+  const hecsAnnualRepayment = hasHECS ? calculateHelpRepayment(salary) : 0
   const hecsMonthlyRepayment = hecsAnnualRepayment / 12
+
+  // When the debt is paid off, and whether extra money is better repaying it or invested
+  const baseAssumptions = createDefaultSettings().assumptionPresets.Base
+  const helpProjectionOptions = { salary, wageGrowth: baseAssumptions.wageGrowth, inflation: baseAssumptions.inflation }
+  const helpDebtInput = { balance: helpDebt, voluntaryRepaymentMonthly: helpVoluntaryMonthly }
+  const helpProjection = hasHECS && helpDebt > 0 ? projectHelpDebt(helpDebtInput, helpProjectionOptions) : null
+  const investVsRepay = helpProjection && helpVoluntaryMonthly > 0
+    ? compareInvestVsRepay({ balance: helpDebt }, helpVoluntaryMonthly, baseAssumptions.etfReturns, helpProjectionOptions)
+    : null
   const superContributions = (salarySacrifice * 12) + calculateSuperGuarantee(salary)
-  const taxBreakdown = calculateNetIncome(salary, salarySacrifice * 12)
+  // Without hospital cover the Medicare levy surcharge applies, tiered on family income for couples and parents
+  const medicareCover = {
+    hasPrivateCover: hasHospitalCover,
+    family: hasPartner || householdType !== 'single',
+    familyIncome: salary + (hasPartner ? partnerSalary : 0)
+  }
+  const taxBreakdown = calculateNetIncome(salary, salarySacrifice * 12, undefined, undefined, medicareCover)
   const taxBracket = getTaxBracket(salary)
+  // Each partner is taxed on their own income
+  const partnerTaxBreakdown = calculateNetIncome(partnerSalary, partnerSalarySacrifice * 12, undefined, undefined, medicareCover)
+  const partnerTakehome = hasPartner ? partnerTaxBreakdown.monthlyNet - partnerSalarySacrifice : 0
   
   // Calculate available funds for investing
   const takehomeBeforeHECS = taxBreakdown.monthlyNet
-  const takehomeAfterHECS = takehomeBeforeHECS - hecsMonthlyRepayment
+  const takehomeAfterHECS = takehomeBeforeHECS - hecsMonthlyRepayment - (hasHECS ? helpVoluntaryMonthly : 0)
   const currentSpending = useHEM ? hemEstimates[householdType] : monthlySpending
   const rentAmount = isRenting ? monthlyRent : 0
-  const totalExpenses = currentSpending + rentAmount
-  const availableForInvesting = takehomeAfterHECS - totalExpenses - salarySacrifice
+  const healthPremiumMonthly = hasHospitalCover ? Math.round(healthPremiumYearly / 12) : 0
+  const totalExpenses = currentSpending + rentAmount + healthPremiumMonthly
+  const spouseContributionMonthly = hasPartner ? Math.round(spouseContributionYearly / 12) : 0
+  const availableForInvesting = takehomeAfterHECS + partnerTakehome - totalExpenses - salarySacrifice - nonConcessionalMonthly - spouseContributionMonthly
   const investmentExceedsAvailable = monthlyInvesting > Math.max(0, availableForInvesting)
   
   // Calculate helpful indicators
   const savingsRate = ((monthlyInvesting + salarySacrifice) * 12 / salary * 100).toFixed(0)
-  const superCapUsage = ((salarySacrifice * 12) / 27500 * 100).toFixed(0)
+  const carryForwardSummary = getCarryForwardSummary(concessionalHistory, superBalance)
+  const superCapUsage = ((salarySacrifice * 12) / carryForwardSummary.availableCap * 100).toFixed(0)
+
+  // After-tax contributions: the yearly cap, and how much can go in at once with bring-forward
+  // (age isn't asked on this step; the projection applies the age limit)
+  const { superannuation: superParams, spouseContributionOffset: spouseOffset } = getTaxParameters()
+  const nonConcessionalYears = getNonConcessionalYears(superBalance, 0, getTaxParameters())
+  const updateLumpSum = (index: number, field: 'age' | 'amount', amount: number) =>
+    setNonConcessionalLumpSums(nonConcessionalLumpSums.map((lumpSum, i) => (i === index ? { ...lumpSum, [field]: amount } : lumpSum)))
+
+  // Record one past year's contributions; the carry-forward table is rebuilt from the history
+  const updateConcessionalYear = (financialYear: string, contributions: number) => {
+    const otherYears = concessionalHistory.filter(year => year.financialYear !== financialYear)
+    setConcessionalHistory([...otherYears, { financialYear, contributions }])
+  }
 
   const handleComplete = () => {
     onChangeIncomeExpense({ 
       ...incomeExpense, 
       salary, 
       monthlyExpenses: monthlySpending,
-      wageGrowthPct: 0.03 
+      wageGrowthPct: 0.03,
+      helpDebt: hasHECS ? helpDebt : undefined,
+      helpVoluntaryMonthly: hasHECS ? helpVoluntaryMonthly : undefined,
+      privateHospitalCover: hasHospitalCover,
+      privateHealthPremiumYearly: hasHospitalCover ? healthPremiumYearly : undefined
     })
     onChangeSuper({ 
       ...superState, 
       currentBalance: superBalance, 
       salaryPackaging: salarySacrifice,
       option: superOption,
-      SGRate: 0.12
+      concessionalHistory: concessionalHistory.length ? concessionalHistory : undefined,
+      nonConcessionalMonthly,
+      nonConcessionalLumpSums: nonConcessionalLumpSums.length ? nonConcessionalLumpSums : undefined,
+      spouseContributionYearly: hasPartner ? spouseContributionYearly : 0,
+      SGRate: getTaxParameters().superannuation.guaranteeRate
     })
     onChangePortfolio({ 
       ...portfolio, 
@@ -131,6 +175,17 @@ export const CurrentFinancials: React.FC<CurrentFinancialsProps> = ({
       ...buffers,
       emergencyMonths
     })
+    onChangePartner?.(hasPartner
+      ? {
+          ...partner,
+          currentAge: partnerAge,
+          retirementAge: partnerRetirementAge,
+          salary: partnerSalary,
+          currentBalance: partnerSuperBalance,
+          salaryPackaging: partnerSalarySacrifice
+        }
+      : null
+    )
     onComplete()
   }
 
@@ -184,6 +239,111 @@ export const CurrentFinancials: React.FC<CurrentFinancialsProps> = ({
                     )}
                   </div>
                 </label>
+
+                {hasHECS && (
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-4">
+                    <div>
+                      <label className="form-label">Current HECS/HELP debt balance (optional)</label>
+                      <div className="relative">
+                        <span className="form-currency-symbol">$</span>
+                        <input
+                          type="number"
+                          value={helpDebt || ''}
+                          onChange={(e) => setHelpDebt(parseInt(e.target.value) || 0)}
+                          className="form-input-currency-large"
+                          placeholder="35,000"
+                          aria-label="Enter your current HECS/HELP debt balance in dollars"
+                        />
+                      </div>
+                      <div className="text-xs text-gray-500 mt-1">Check your myGov account for your exact balance</div>
+                    </div>
+                    <div>
+                      <label className="form-label">Voluntary repayments (optional)</label>
+                      <div className="relative">
+                        <span className="form-currency-symbol">$</span>
+                        <input
+                          type="number"
+                          value={helpVoluntaryMonthly || ''}
+                          onChange={(e) => setHelpVoluntaryMonthly(parseInt(e.target.value) || 0)}
+                          className="form-input-currency-large"
+                          placeholder="0"
+                        />
+                      </div>
+                      <div className="text-xs text-gray-500 mt-1">Per month, on top of what's taken from your pay</div>
+                    </div>
+                  </div>
+                )}
+
+                {helpProjection && (
+                  <div className="mt-4 text-sm text-blue-900">
+                    {helpProjection.payoffDate ? (
+                      <p>
+                        🎓 Paid off by <strong>{helpProjection.payoffDate.toLocaleDateString('en-AU', { month: 'long', year: 'numeric' })}</strong>,
+                        after ${Math.round(helpProjection.totalRepaid).toLocaleString()} in repayments
+                      </p>
+                    ) : (
+                      <p>🎓 At this salary the debt keeps growing with indexation and isn't paid off</p>
+                    )}
+                    <div className="grid grid-cols-3 md:grid-cols-6 gap-2 mt-2 max-h-32 overflow-y-auto">
+                      {helpProjection.years.map(year => (
+                        <div key={year.financialYear} className="bg-white rounded p-2 text-center">
+                          <div className="text-xs text-gray-500">30 June {year.financialYear + 1}</div>
+                          <div className="text-xs font-semibold">${Math.round(year.closingBalance).toLocaleString()}</div>
+                        </div>
+                      ))}
+                    </div>
+                    {investVsRepay && (
+                      <p className="text-xs text-gray-700 mt-2">
+                        Your extra ${helpVoluntaryMonthly.toLocaleString()}/month clears the debt {investVsRepay.monthsSaved} months sooner.
+                        {investVsRepay.advantage >= 0
+                          ? ` Repaying first leaves you about $${Math.round(investVsRepay.advantage).toLocaleString()} ahead of investing it instead.`
+                          : ` Investing it instead would leave you about $${Math.round(-investVsRepay.advantage).toLocaleString()} ahead, since HELP only grows with indexation.`}
+                      </p>
+                    )}
+                  </div>
+                )}
+              </div>
+
+              {/* Private hospital cover */}
+              <div className="form-feature-card-health mt-3">
+                <label className="form-checkbox-label">
+                  <input
+                    type="checkbox"
+                    checked={hasHospitalCover}
+                    onChange={(e) => setHasHospitalCover(e.target.checked)}
+                    className="h-4 w-4 rounded border-2 border-gray-300 bg-white text-blue-600 focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 focus:border-blue-500 hover:border-gray-400 transition-colors duration-200 mt-1"
+                    style={{
+                      backgroundColor: '#ffffff',
+                      borderColor: '#d1d5db',
+                      color: hasHospitalCover ? '#2563eb' : 'transparent'
+                    }}
+                  />
+                  <div className="form-checkbox-content">
+                    <div className="form-checkbox-title text-teal-900">I have private hospital cover</div>
+                    <div className="form-checkbox-description text-teal-700">Hospital cover avoids the Medicare levy surcharge on higher incomes</div>
+                    {!hasHospitalCover && taxBreakdown.medicareLevySurcharge > 0 && (
+                      <div className="text-sm font-medium text-orange-600 mt-1">
+                        🏥 Medicare levy surcharge: ${Math.round(taxBreakdown.medicareLevySurcharge).toLocaleString()}/year
+                      </div>
+                    )}
+                  </div>
+                </label>
+
+                {hasHospitalCover && (
+                  <div className="mt-3">
+                    <label className="form-label text-teal-900 mb-1">Yearly premium (after rebate)</label>
+                    <div className="relative">
+                      <span className="form-currency-symbol">$</span>
+                      <input
+                        type="number"
+                        value={healthPremiumYearly || ''}
+                        onChange={(e) => setHealthPremiumYearly(parseInt(e.target.value) || 0)}
+                        className="form-input-currency-large"
+                        placeholder="2,000"
+                      />
+                    </div>
+                  </div>
+                )}
               </div>
             </div>
 
@@ -308,8 +468,14 @@ export const CurrentFinancials: React.FC<CurrentFinancialsProps> = ({
                 <div className="grid grid-cols-2 md:grid-cols-4 gap-2 text-xs text-blue-700">
                   <div>Income tax: <strong>${taxBreakdown.incomeTax.toLocaleString()}</strong></div>
                   <div>Medicare levy: <strong>${taxBreakdown.medicareLevy.toLocaleString()}</strong></div>
+                  {taxBreakdown.medicareLevySurcharge > 0 && (
+                    <div>Levy surcharge: <strong>${Math.round(taxBreakdown.medicareLevySurcharge).toLocaleString()}</strong></div>
+                  )}
                   <div>Tax offsets: <strong>-${taxBreakdown.lito.toLocaleString()}</strong></div>
                   <div>Total tax: <strong>${taxBreakdown.totalTax.toLocaleString()}</strong></div>
+                  {taxBreakdown.division293Tax > 0 && (
+                    <div>Division 293 (from super): <strong>${Math.round(taxBreakdown.division293Tax).toLocaleString()}</strong></div>
+                  )}
                 </div>
               </div>
             )}
@@ -357,16 +523,132 @@ export const CurrentFinancials: React.FC<CurrentFinancialsProps> = ({
             </div>
           </div>
 
+          {taxBreakdown.division293Tax > 0 && (
+            <div className="mt-4 p-3 rounded-lg bg-amber-50 border border-amber-200">
+              <p className="text-sm text-amber-800">
+                ⚠️ Your income plus before-tax contributions is over ${getTaxParameters().superannuation.division293Threshold.toLocaleString()}, so
+                Division 293 taxes your contributions at 30% instead of 15%. That's about{' '}
+                <strong>${Math.round(taxBreakdown.division293Tax).toLocaleString()}</strong> extra a year, usually paid from your super.
+              </p>
+            </div>
+          )}
+
           {salarySacrifice > 0 && (
             <div className={`mt-4 p-3 rounded-lg ${parseInt(superCapUsage) > 85 ? 'bg-yellow-100' : 'bg-green-100'}`}>
               <p className={`text-sm ${parseInt(superCapUsage) > 85 ? 'text-yellow-800' : 'text-green-800'}`}>
-                {parseInt(superCapUsage) > 85 ? '⚠️' : '✅'} Using <strong>{superCapUsage}%</strong> of your before-tax super cap.
+                {parseInt(superCapUsage) > 85 ? '⚠️' : '✅'} Using <strong>{superCapUsage}%</strong> of your before-tax super cap
+                {carryForwardSummary.carryForward > 0 && ` (including $${Math.round(carryForwardSummary.carryForward).toLocaleString()} carried forward)`}.
                 {parseInt(superCapUsage) > 85 ? ' Consider reducing to stay under the limit.' : ' Great—plenty of room left!'}
               </p>
             </div>
           )}
         </div>
 
+        {/* Partner Section */}
+        <div className="bg-pink-50 rounded-xl p-6">
+          <label className="form-checkbox-label">
+            <input
+              type="checkbox"
+              checked={hasPartner}
+              onChange={(e) => setHasPartner(e.target.checked)}
+              className="h-4 w-4 rounded border-2 border-gray-300 bg-white text-pink-600 focus:ring-2 focus:ring-pink-500 focus:ring-offset-2 mt-1"
+            />
+            <div className="form-checkbox-content">
+              <div className="form-checkbox-title text-pink-900">👫 I'm planning as a couple</div>
+              <div className="form-checkbox-description text-pink-700">
+                We'll project your partner's pay, tax and super separately and share your spending and investments
+              </div>
+            </div>
+          </label>
+
+          {hasPartner && (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mt-4">
+              <div>
+                <label className="form-label">Partner's age</label>
+                <input
+                  type="number"
+                  value={partnerAge}
+                  onChange={(e) => setPartnerAge(parseInt(e.target.value) || 0)}
+                  className="form-input"
+                  placeholder="30"
+                />
+              </div>
+              <div>
+                <label className="form-label">Partner's retirement age</label>
+                <input
+                  type="number"
+                  value={partnerRetirementAge}
+                  onChange={(e) => setPartnerRetirementAge(parseInt(e.target.value) || 0)}
+                  className="form-input"
+                  placeholder="65"
+                />
+                {partnerRetirementAge <= partnerAge && (
+                  <div className="text-xs text-gray-500 mt-1">Already retired—no further pay or super contributions</div>
+                )}
+              </div>
+              <div>
+                <label className="form-label">Partner's annual income (before tax)</label>
+                <div className="relative">
+                  <span className="form-currency-symbol">$</span>
+                  <input
+                    type="number"
+                    value={partnerSalary}
+                    onChange={(e) => setPartnerSalary(parseInt(e.target.value) || 0)}
+                    className="form-input-currency"
+                    placeholder="60,000"
+                  />
+                </div>
+                <div className="text-xs text-gray-500 mt-1">
+                  Take-home: ${partnerTaxBreakdown.monthlyNet.toLocaleString()}/month
+                </div>
+              </div>
+              <div>
+                <label className="form-label">Partner's super balance</label>
+                <div className="relative">
+                  <span className="form-currency-symbol">$</span>
+                  <input
+                    type="number"
+                    value={partnerSuperBalance}
+                    onChange={(e) => setPartnerSuperBalance(parseInt(e.target.value) || 0)}
+                    className="form-input-currency"
+                    placeholder="30,000"
+                  />
+                </div>
+              </div>
+              <div>
+                <label className="form-label">Partner's extra super per month (optional)</label>
+                <div className="relative">
+                  <span className="form-currency-symbol">$</span>
+                  <input
+                    type="number"
+                    value={partnerSalarySacrifice}
+                    onChange={(e) => setPartnerSalarySacrifice(parseInt(e.target.value) || 0)}
+                    className="form-input-currency"
+                    placeholder="0"
+                  />
+                </div>
+              </div>
+              <div>
+                <label className="form-label">Your contributions to your partner's super (yearly, optional)</label>
+                <div className="relative">
+                  <span className="form-currency-symbol">$</span>
+                  <input
+                    type="number"
+                    value={spouseContributionYearly || ''}
+                    onChange={(e) => setSpouseContributionYearly(parseInt(e.target.value) || 0)}
+                    className="form-input-currency"
+                    placeholder="0"
+                  />
+                </div>
+                <div className="text-xs text-gray-500 mt-1">
+                  If your partner earns under ${spouseOffset.incomeLimit.toLocaleString()}, you get a tax offset of up to{' '}
+                  ${(spouseOffset.maxContribution * spouseOffset.rate).toLocaleString()} on the first ${spouseOffset.maxContribution.toLocaleString()} you contribute
+                </div>
+              </div>
+            </div>
+          )}
+        </div>
+
         {/* Investment Section */}
         <div className="bg-purple-50 rounded-xl p-6">
           <h3 className="font-semibold text-purple-900 mb-4">📈 Regular investing (outside super)</h3>
@@ -457,6 +739,127 @@ export const CurrentFinancials: React.FC<CurrentFinancialsProps> = ({
               </div>
             </div>
 
+            {/* Carry-forward of unused cap */}
+            <div className="bg-gray-50 rounded-xl p-6">
+              <h4 className="font-semibold text-gray-900 mb-2">Unused super cap from earlier years</h4>
+              <p className="text-sm text-gray-600 mb-4">
+                Cap you didn't use in the last {carryForwardSummary.years.length} financial years can be added to this year's,
+                as long as your super balance was under ${carryForwardSummary.balanceLimit.toLocaleString()} on 30 June.
+                Enter what went in before tax each year (employer plus salary packaging)—your fund's statements show it.
+              </p>
+              <table className="w-full text-sm mb-3">
+                <thead>
+                  <tr className="text-left text-gray-500">
+                    <th className="font-medium pb-2">Financial year</th>
+                    <th className="font-medium pb-2">Cap</th>
+                    <th className="font-medium pb-2">Contributed</th>
+                    <th className="font-medium pb-2 text-right">Still unused</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {carryForwardSummary.years.map(year => (
+                    <tr key={year.financialYear} className="border-t border-gray-200">
+                      <td className="py-2 text-gray-700">{year.financialYear}</td>
+                      <td className="py-2 text-gray-600">${year.cap.toLocaleString()}</td>
+                      <td className="py-2 pr-3">
+                        <div className="relative">
+                          <span className="form-currency-symbol">$</span>
+                          <input
+                            type="number"
+                            value={year.contributions ?? ''}
+                            onChange={(e) => updateConcessionalYear(year.financialYear, parseInt(e.target.value) || 0)}
+                            className="form-input-currency"
+                            placeholder="Not recorded"
+                          />
+                        </div>
+                      </td>
+                      <td className="py-2 text-right text-gray-700">${Math.round(year.unused).toLocaleString()}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {carryForwardSummary.eligible ? (
+                <p className="text-sm text-gray-700">
+                  Available this year: <strong>${Math.round(carryForwardSummary.availableCap).toLocaleString()}</strong>
+                  {' '}(${carryForwardSummary.concessionalCap.toLocaleString()} cap plus ${Math.round(carryForwardSummary.carryForward).toLocaleString()} carried forward)
+                </p>
+              ) : (
+                <p className="text-sm text-amber-800">
+                  Your super balance is over ${carryForwardSummary.balanceLimit.toLocaleString()}, so unused cap can't be
+                  carried forward this year.
+                </p>
+              )}
+            </div>
+
+            {/* After-tax super contributions */}
+            <div className="bg-gray-50 rounded-xl p-6">
+              <h4 className="font-semibold text-gray-900 mb-4">After-tax super contributions</h4>
+              <div>
+                <label className="form-label">Each month (optional)</label>
+                <div className="relative">
+                  <span className="form-currency-symbol">$</span>
+                  <input
+                    type="number"
+                    value={nonConcessionalMonthly || ''}
+                    onChange={(e) => setNonConcessionalMonthly(parseInt(e.target.value) || 0)}
+                    className="form-input-currency"
+                    placeholder="0"
+                  />
+                </div>
+                <div className="text-xs text-gray-500 mt-1">
+                  {nonConcessionalYears === 0
+                    ? `Your balance is over the $${superParams.transferBalanceCap.toLocaleString()} transfer balance cap, so after-tax contributions aren't accepted`
+                    : `Up to $${superParams.nonConcessionalCap.toLocaleString()} a year${nonConcessionalYears > 1
+                      ? `, or $${(superParams.nonConcessionalCap * nonConcessionalYears).toLocaleString()} at once by bringing forward ${nonConcessionalYears} years' caps`
+                      : ''}`}
+                </div>
+              </div>
+
+              <div className="mt-4 space-y-2">
+                <label className="form-label">Lump sums</label>
+                {nonConcessionalLumpSums.map((lumpSum, index) => (
+                  <div key={index} className="flex items-center gap-3">
+                    <span className="text-sm text-gray-600">At age</span>
+                    <input
+                      type="number"
+                      min="18"
+                      max={superParams.nonConcessionalAgeLimit - 1}
+                      value={lumpSum.age}
+                      onChange={(e) => updateLumpSum(index, 'age', parseInt(e.target.value) || 0)}
+                      className="form-input w-20"
+                    />
+                    <div className="relative flex-1">
+                      <span className="form-currency-symbol">$</span>
+                      <input
+                        type="number"
+                        value={lumpSum.amount || ''}
+                        onChange={(e) => updateLumpSum(index, 'amount', parseInt(e.target.value) || 0)}
+                        className="form-input-currency"
+                        placeholder="0"
+                      />
+                    </div>
+                    <button
+                      type="button"
+                      onClick={() => setNonConcessionalLumpSums(nonConcessionalLumpSums.filter((_, i) => i !== index))}
+                      className="text-sm text-red-600 hover:text-red-700"
+                    >
+                      Remove
+                    </button>
+                  </div>
+                ))}
+                <button
+                  type="button"
+                  onClick={() => setNonConcessionalLumpSums([...nonConcessionalLumpSums, { age: 50, amount: 0 }])}
+                  className="text-sm text-blue-600 hover:text-blue-700 underline"
+                >
+                  Add a lump sum
+                </button>
+                <p className="text-xs text-gray-500">
+                  E.g. an inheritance or the proceeds of a sale. Amounts over the cap are left out of the projection.
+                </p>
+              </div>
+            </div>
+
             {/* ETF Strategy */}
             <div className="bg-gray-50 rounded-xl p-6">
               <h4 className="font-semibold text-gray-900 mb-4">Investment approach</h4>
@@ -0,0 +1,159 @@
+/**
+ * Monte Carlo Panel
+ * Runs the plan over thousands of random market paths and shows the range of outcomes
+ */
+
+import React, { useState } from 'react'
+import { useSimulationWorker } from '../../hooks/useSimulationWorker'
+import { DEFAULT_PATHS, MAX_PATHS } from '../../simulation/monteCarlo'
+import type { MonteCarloSummary } from '../../types/planner'
+
+interface MonteCarloPanelProps {
+  plannerState: any
+  netWorthAtRetire?: number              // deterministic projection, for comparison
+  className?: string
+}
+
+const formatCurrency = (value: number) => {
+  if (Math.abs(value) >= 1000000) {
+    return `$${(value / 1000000).toFixed(1)}M`
+  }
+  return `$${Math.round(value / 1000)}k`
+}
+
+// P10-P90 band with a P50 line, sampled yearly
+const FanChart = ({ summary }: { summary: MonteCarloSummary }) => {
+  const width = 600
+  const height = 200
+  const indexes = summary.month.map((_, i) => i).filter(i => i % 12 === 0 || i === summary.month.length - 1)
+  const maxValue = Math.max(...indexes.map(i => summary.netWorth.p90[i]), 1)
+  const minValue = Math.min(0, ...indexes.map(i => summary.netWorth.p10[i]))
+
+  const x = (n: number) => (n / Math.max(1, indexes.length - 1)) * width
+  const y = (value: number) => height - ((value - minValue) / (maxValue - minValue)) * height
+  const line = (values: number[]) => indexes.map((i, n) => `${x(n)},${y(values[i])}`).join(' ')
+  const band = `${line(summary.netWorth.p90)} ${indexes.map((i, n) => `${x(n)},${y(summary.netWorth.p10[i])}`).reverse().join(' ')}`
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-48 bg-white rounded-lg border" preserveAspectRatio="none">
+        <polygon points={band} fill="#8B5CF633" stroke="none" />
+        <polyline points={line(summary.netWorth.p90)} fill="none" stroke="#8B5CF6" strokeWidth="1" strokeDasharray="4 3" />
+        <polyline points={line(summary.netWorth.p10)} fill="none" stroke="#8B5CF6" strokeWidth="1" strokeDasharray="4 3" />
+        <polyline points={line(summary.netWorth.p50)} fill="none" stroke="#6D28D9" strokeWidth="2" />
+      </svg>
+      <div className="flex justify-between text-sm text-gray-600 mt-2">
+        <span>Age {Math.floor(summary.age[0])}</span>
+        <span>Age {Math.round(summary.age[summary.age.length - 1])}</span>
+      </div>
+    </div>
+  )
+}
+
+export const MonteCarloPanel: React.FC<MonteCarloPanelProps> = ({
+  plannerState,
+  netWorthAtRetire,
+  className = ''
+}) => {
+  const { runMonteCarlo, isRunning, workerStatus } = useSimulationWorker()
+  const [paths, setPaths] = useState(DEFAULT_PATHS)
+  const [seed, setSeed] = useState(1)
+  const [summary, setSummary] = useState<MonteCarloSummary | null>(null)
+  const [runError, setRunError] = useState<string | null>(null)
+  const [progress, setProgress] = useState(0)
+
+  const handleRun = async () => {
+    try {
+      setRunError(null)
+      setProgress(0)
+      const result = await runMonteCarlo(plannerState, { paths, seed, onProgress: setProgress })
+      setSummary(result.monteCarlo || null)
+    } catch (error) {
+      console.error('[MonteCarloPanel] Simulation failed:', error)
+      setRunError(error instanceof Error ? error.message : 'Simulation failed')
+    }
+  }
+
+  const successPct = summary ? Math.round(summary.probabilityOfSuccess * 100) : 0
+
+  return (
+    <div className={`bg-purple-50 border-2 border-purple-200 rounded-xl p-6 ${className}`}>
+      <div className="flex items-start gap-4 mb-4">
+        <div className="text-2xl">🎲</div>
+        <div className="flex-1">
+          <h3 className="font-semibold text-purple-900 mb-1">How could markets change the outcome?</h3>
+          <p className="text-sm text-purple-800">
+            We replay your plan over thousands of random but realistic market paths for super, ETFs and property.
+            Amounts are in future dollars.
+          </p>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-4 mb-6">
+        <label className="text-sm text-gray-700">
+          Market paths
+          <input
+            type="number"
+            min={100}
+            max={MAX_PATHS}
+            step={100}
+            value={paths}
+            onChange={(e) => setPaths(Math.max(100, Math.min(MAX_PATHS, Number(e.target.value) || 100)))}
+            className="block w-28 mt-1 px-3 py-2 border border-gray-300 rounded-lg"
+          />
+        </label>
+        <label className="text-sm text-gray-700">
+          Random seed
+          <input
+            type="number"
+            value={seed}
+            onChange={(e) => setSeed(Math.round(Number(e.target.value) || 0))}
+            className="block w-28 mt-1 px-3 py-2 border border-gray-300 rounded-lg"
+          />
+        </label>
+        <button
+          onClick={handleRun}
+          disabled={isRunning || workerStatus !== 'ready'}
+          className="bg-purple-600 text-white px-4 py-2 rounded-lg text-sm font-medium hover:bg-purple-700 transition-colors disabled:opacity-50"
+        >
+          {isRunning ? `Running... ${Math.round(progress)}%` : summary ? 'Run again' : 'Run Monte Carlo'}
+        </button>
+      </div>
+
+      {runError && (
+        <p className="text-sm text-red-600 mb-4">{runError}</p>
+      )}
+
+      {summary && (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-6">
+            <div className={`p-4 rounded-lg text-center ${successPct >= 80 ? 'bg-green-100' : successPct >= 50 ? 'bg-yellow-100' : 'bg-red-100'}`}>
+              <div className="text-2xl font-bold text-gray-800">{successPct}%</div>
+              <div className="text-xs text-gray-600 mt-1">Chance your money lasts to {summary.successAge}</div>
+            </div>
+            <div className="bg-white p-4 rounded-lg text-center">
+              <div className="text-2xl font-bold text-gray-700">{formatCurrency(summary.netWorthAtRetire.p10)}</div>
+              <div className="text-xs text-gray-600 mt-1">At retirement, poor markets (P10)</div>
+            </div>
+            <div className="bg-white p-4 rounded-lg text-center">
+              <div className="text-2xl font-bold text-purple-700">{formatCurrency(summary.netWorthAtRetire.p50)}</div>
+              <div className="text-xs text-gray-600 mt-1">Typical (P50)</div>
+            </div>
+            <div className="bg-white p-4 rounded-lg text-center">
+              <div className="text-2xl font-bold text-gray-700">{formatCurrency(summary.netWorthAtRetire.p90)}</div>
+              <div className="text-xs text-gray-600 mt-1">Strong markets (P90)</div>
+            </div>
+          </div>
+
+          <FanChart summary={summary} />
+
+          <p className="text-xs text-gray-600 mt-4">
+            Success means your retirement spending is fully funded every year until age {summary.successAge}.
+            {netWorthAtRetire !== undefined && ` The steady-returns projection is ${formatCurrency(netWorthAtRetire)}.`}
+            {` ${summary.paths.toLocaleString()} paths, seed ${summary.seed}.`}
+          </p>
+        </>
+      )}
+    </div>
+  )
+}
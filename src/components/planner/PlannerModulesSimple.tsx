@@ -4,6 +4,7 @@
  */
 
 import React from 'react'
+import { getTaxParameters } from '../../simulation/data/taxParameters'
 
 interface PlannerModulesProps {
   plannerState: any
@@ -26,6 +27,8 @@ export const PlannerModules: React.FC<PlannerModulesProps> = ({
   simulationProgress,
   onPrevious
 }) => {
+  const { superannuation } = getTaxParameters()
+
   // Extract property data for personalized analysis
   const propertyData = plannerState?.property || {}
   const hasAnyProperty = propertyData?.hasProperty || false
@@ -57,10 +60,10 @@ export const PlannerModules: React.FC<PlannerModulesProps> = ({
             <h3 className="font-semibold text-blue-900 mb-2">🏦 Superannuation Strategy</h3>
             <p className="text-blue-800 text-sm">
               High Growth option selected (8% expected return) with salary packaging optimization.
-              Your super will benefit from before-tax contributions up to the annual cap of $27,500.
+              Your super will benefit from before-tax contributions up to the annual cap of ${superannuation.concessionalCap.toLocaleString()}.
             </p>
             <div className="mt-3 text-sm text-blue-700">
-              <strong>Annual Contribution:</strong> ${Math.round((plannerState?.incomeExpense?.salary || 75000) * 0.11 + 6000).toLocaleString()} (SG + salary packaging)
+              <strong>Annual Contribution:</strong> ${Math.round((plannerState?.incomeExpense?.salary || 75000) * superannuation.guaranteeRate + 6000).toLocaleString()} (SG + salary packaging)
             </div>
           </div>
 
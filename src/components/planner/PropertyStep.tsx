@@ -5,12 +5,24 @@
 
 import React, { useState, useEffect } from 'react'
 import { createAutoSaver } from '../../utils/scenarioManager'
+import { calculateRentalTaxEffect } from '../../simulation/modules/propertyTax'
+import { getTaxParameters } from '../../simulation/data/taxParameters'
+import { projectFhssDeposit } from '../../simulation/modules/fhss'
+import { getDistributionTaxDrag } from '../../simulation/modules/distributionTax'
+import { calculatePurchaseCosts, DEFAULT_STATE } from '../../simulation/modules/stampDuty'
+import { calculateLandTax, DEFAULT_LAND_VALUE_SHARE } from '../../simulation/modules/landTax'
+import { AustralianStateEnum, createDefaultSettings } from '../../schemas/planner'
+import type { AppSettings, AustralianState } from '../../types/planner'
 
 interface Property {
   id: string
   name: string
   propertyType: 'owner-occupied' | 'investment'
   propertyIntent: 'existing' | 'looking-to-buy'
+  state?: AustralianState
+  firstHomeBuyer?: boolean
+  newHome?: boolean
+  foreignPurchaser?: boolean
   value: number
   loanBalance: number
   interestRate: number
@@ -19,9 +31,15 @@ interface Property {
   monthlyRepayment: number
   purchaseDate?: string
   purchasePrice?: number
+  saleAge?: number
+  downsizeToValue?: number
+  downsizerContribution?: number
+  fhssContributionYearly?: number
+  fhssContributionType?: 'concessional' | 'non-concessional'
   weeklyRent?: number
   managementFee?: number
   councilRates?: number
+  landValuePercent?: number
   insurance?: number
   maintenance?: number
   vacancy?: number
@@ -83,6 +101,7 @@ export const PropertyStep: React.FC<PropertyStepProps> = ({
   const [properties, setProperties] = useState<Property[]>(initializeProperties())
   const [activePropertyId, setActivePropertyId] = useState<string>(properties.length > 0 ? properties[0].id : '')
   const hasAnyProperty = properties.length > 0
+  const { downsizer, fhss } = getTaxParameters()
 
   // Auto-save functionality
   const [autoSaver] = useState(() => createAutoSaver(plannerState, () => {}))
@@ -158,6 +177,21 @@ export const PropertyStep: React.FC<PropertyStepProps> = ({
   // Get active property
   const activeProperty = properties.find(p => p.id === activePropertyId)
 
+  // Salary after packaging; rental income or losses are taxed on top of it
+  const taxableSalary = Math.max(0,
+    (plannerState?.incomeExpense?.salary || 0) - (plannerState?.super?.salaryPackaging || 0) * 12)
+
+  // Land tax on the combined land value of the investment properties in each state
+  const landTaxByProperty = calculateLandTax(
+    properties.map(p => ({
+      usage: p.propertyType,
+      state: p.state,
+      landValuePct: p.landValuePercent !== undefined ? p.landValuePercent / 100 : undefined,
+      value: p.value
+    })),
+    { defaultState: plannerState?.goal?.state }
+  )
+
   // Calculate property metrics for active property
   const calculatePropertyMetrics = (property: Property) => {
     if (!property) return {}
@@ -172,7 +206,8 @@ export const PropertyStep: React.FC<PropertyStepProps> = ({
       // Annual expenses
       const annualManagementFee = annualRent * ((property.managementFee || 0) / 100)
       const annualVacancyLoss = annualRent * ((property.vacancy || 0) / 52)
-      const totalAnnualExpenses = annualManagementFee + (property.councilRates || 0) + (property.insurance || 0) + (property.maintenance || 0) + annualVacancyLoss
+      const annualLandTax = landTaxByProperty[properties.findIndex(p => p.id === property.id)] || 0
+      const totalAnnualExpenses = annualManagementFee + (property.councilRates || 0) + annualLandTax + (property.insurance || 0) + (property.maintenance || 0) + annualVacancyLoss
       const netAnnualIncome = annualRent - totalAnnualExpenses
       const netYield = property.value > 0 ? (netAnnualIncome / property.value * 100) : 0
 
@@ -181,6 +216,10 @@ export const PropertyStep: React.FC<PropertyStepProps> = ({
       const annualCashFlow = netAnnualIncome - annualInterest
       const monthlyCashFlow = annualCashFlow / 12
 
+      // Interest and costs are deductible, so a loss is refunded at the owner's marginal rate
+      const rentalTaxEffect = calculateRentalTaxEffect(annualCashFlow, taxableSalary)
+      const weeklyAfterTaxCashFlow = (annualCashFlow - rentalTaxEffect) / 52
+
       return {
         currentEquity,
         loanToValue,
@@ -188,8 +227,11 @@ export const PropertyStep: React.FC<PropertyStepProps> = ({
         grossYield,
         netYield,
         monthlyCashFlow,
+        rentalTaxEffect,
+        weeklyAfterTaxCashFlow,
         annualManagementFee,
         annualVacancyLoss,
+        annualLandTax,
         totalAnnualExpenses
       }
     }
@@ -269,8 +311,12 @@ export const PropertyStep: React.FC<PropertyStepProps> = ({
     // Banks typically assess rental income at 80% (vacancy/management allowance)
     const assessableRentalIncome = monthlyRentalIncome * 0.80
     
-    // Net monthly income (including rental income)
-    const monthlyNetIncome = monthlyGrossIncome - monthlyTax - monthlyHECS + assessableRentalIncome
+    // Rental losses are deductible against salary (and profits taxed), so lenders add back the tax effect
+    const netRentalIncome = properties.reduce((sum, property) => sum + (calculatePropertyMetrics(property).monthlyCashFlow || 0) * 12, 0)
+    const monthlyRentalTaxEffect = calculateRentalTaxEffect(netRentalIncome, taxableSalary) / 12
+
+    // Net monthly income (including rental income and its tax effect)
+    const monthlyNetIncome = monthlyGrossIncome - monthlyTax - monthlyHECS + assessableRentalIncome - monthlyRentalTaxEffect
     
     // Total monthly expenses (including existing property commitments)
     let totalMonthlyExpenses = monthlyExpenses + monthlyRent
@@ -313,6 +359,7 @@ export const PropertyStep: React.FC<PropertyStepProps> = ({
       monthlyNetIncome,
       monthlyRentalIncome,
       assessableRentalIncome,
+      monthlyRentalTaxEffect,
       monthlySurplus,
       maxMonthlyRepayment,
       borrowingCapacity: finalBorrowingCapacity,
@@ -420,6 +467,47 @@ export const PropertyStep: React.FC<PropertyStepProps> = ({
     }
   }
 
+  // Stamp duty and other costs of a planned purchase, which the deposit has to cover as well
+  const calculateUpfrontCosts = (property: Property) =>
+    calculatePurchaseCosts(property.value, {
+      state: property.state || plannerState?.goal?.state || DEFAULT_STATE,
+      buyer: property.propertyType === 'investment'
+        ? 'investor'
+        : property.firstHomeBuyer ? 'first-home-buyer' : 'owner-occupier',
+      foreignPurchaser: !!property.foreignPurchaser,
+      newHome: !!property.newHome
+    })
+
+  // Deposit for a planned purchase: the price less the planned loan, plus upfront costs
+  const calculateDepositNeeded = (property: Property) =>
+    Math.max(0, property.value - property.loanBalance) + calculateUpfrontCosts(property).total
+
+  // Saving the deposit for a first home through super, against ETFs or a savings account, on
+  // the base assumptions. The deposit rises with property prices.
+  const calculateFhssProjection = (property: Property) => {
+    const depositTarget = calculateDepositNeeded(property)
+    if (!property.fhssContributionYearly || depositTarget <= 0 || taxableSalary <= 0) return null
+
+    const settings = createDefaultSettings() as AppSettings
+    const assumptions = settings.assumptionPresets.Base
+    const etfTaxDrag = getDistributionTaxDrag(plannerState?.portfolio || {}, depositTarget, taxableSalary, settings)
+
+    return projectFhssDeposit(
+      {
+        contributionYearly: property.fhssContributionYearly,
+        contributionType: property.fhssContributionType || 'concessional'
+      },
+      {
+        salary: taxableSalary,
+        depositTarget,
+        depositGrowth: property.annualGrowthRate || assumptions.propertyGrowth,
+        etfReturn: assumptions.etfReturns - etfTaxDrag,
+        wageGrowth: assumptions.wageGrowth,
+        inflation: assumptions.inflation
+      }
+    )
+  }
+
   // Borrowing Capacity Insights Panel Component
   const BorrowingCapacityPanel = () => {
     if (!borrowingCapacity) {
@@ -435,6 +523,7 @@ export const PropertyStep: React.FC<PropertyStepProps> = ({
       monthlyNetIncome,
       monthlyRentalIncome,
       assessableRentalIncome,
+      monthlyRentalTaxEffect,
       monthlySurplus,
       maxMonthlyRepayment,
       borrowingCapacity: capacity,
@@ -481,6 +570,9 @@ export const PropertyStep: React.FC<PropertyStepProps> = ({
           {monthlyRentalIncome > 0 && (
             <div>• Rental income: ${Math.round(monthlyRentalIncome).toLocaleString()}/month (${Math.round(assessableRentalIncome).toLocaleString()} assessable at 80%)</div>
           )}
+          {monthlyRentalTaxEffect !== 0 && (
+            <div>• {monthlyRentalTaxEffect < 0 ? 'Negative gearing tax refund' : 'Tax on rental profit'}: ${Math.round(Math.abs(monthlyRentalTaxEffect)).toLocaleString()}/month</div>
+          )}
           <div>• Monthly surplus: ${Math.round(monthlySurplus).toLocaleString()}</div>
           <div>• Debt-to-income ratio: {(debtToIncomeRatio * 100).toFixed(1)}%</div>
           <div>• Serviceability test: {(currentInterestRate * 100).toFixed(1)}% current + {(bufferRate * 100).toFixed(1)}% buffer = {(serviceabilityTestRate * 100).toFixed(1)}%</div>
@@ -732,7 +824,7 @@ export const PropertyStep: React.FC<PropertyStepProps> = ({
               </p>
               
               {/* Current Property Value */}
-              <div className="grid grid-cols-1 md:grid-cols-1 gap-6 mb-6">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
                 <div>
                   <label className="form-label">
                     {activeProperty.propertyIntent === 'existing' ? 'Current property value' : 'Target property value'}
@@ -748,8 +840,90 @@ export const PropertyStep: React.FC<PropertyStepProps> = ({
                     />
                   </div>
                 </div>
+
+                <div>
+                  <label className="form-label">
+                    State or territory
+                  </label>
+                  <select
+                    value={activeProperty.state || plannerState?.goal?.state || DEFAULT_STATE}
+                    onChange={(e) => updateProperty(activeProperty.id, { state: e.target.value as AustralianState })}
+                    className="form-input"
+                  >
+                    {AustralianStateEnum.options.map(state => (
+                      <option key={state} value={state}>{state}</option>
+                    ))}
+                  </select>
+                  <p className="text-xs text-gray-500 mt-1">
+                    Sets stamp duty on a purchase
+                  </p>
+                </div>
               </div>
 
+              {/* Upfront costs of a planned purchase */}
+              {activeProperty.propertyIntent === 'looking-to-buy' && activeProperty.value > 0 && (() => {
+                const costs = calculateUpfrontCosts(activeProperty)
+                return (
+                  <div className="mb-6 p-4 bg-white rounded-lg border border-purple-200">
+                    <div className="flex flex-wrap gap-x-6 gap-y-2 mb-3">
+                      {activeProperty.propertyType === 'owner-occupied' && (
+                        <>
+                          <label className="flex items-center gap-2 text-sm text-purple-900">
+                            <input
+                              type="checkbox"
+                              checked={!!activeProperty.firstHomeBuyer}
+                              onChange={(e) => updateProperty(activeProperty.id, { firstHomeBuyer: e.target.checked })}
+                            />
+                            This will be my first home
+                          </label>
+                          <label className="flex items-center gap-2 text-sm text-purple-900">
+                            <input
+                              type="checkbox"
+                              checked={!!activeProperty.newHome}
+                              onChange={(e) => updateProperty(activeProperty.id, { newHome: e.target.checked })}
+                            />
+                            Newly built, or off the plan
+                          </label>
+                        </>
+                      )}
+                      <label className="flex items-center gap-2 text-sm text-purple-900">
+                        <input
+                          type="checkbox"
+                          checked={!!activeProperty.foreignPurchaser}
+                          onChange={(e) => updateProperty(activeProperty.id, { foreignPurchaser: e.target.checked })}
+                        />
+                        Buying as a foreign purchaser
+                      </label>
+                    </div>
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+                      <div>
+                        <div className="text-gray-600">Stamp duty</div>
+                        <div className="font-bold text-purple-900">${Math.round(costs.stampDuty).toLocaleString()}</div>
+                        {costs.concession > 0 && (
+                          <div className="text-xs text-green-600">after ${Math.round(costs.concession).toLocaleString()} first home concession</div>
+                        )}
+                        {costs.foreignSurcharge > 0 && (
+                          <div className="text-xs text-red-600">incl. ${Math.round(costs.foreignSurcharge).toLocaleString()} foreign purchaser surcharge</div>
+                        )}
+                      </div>
+                      <div>
+                        <div className="text-gray-600">Legal & other costs</div>
+                        <div className="font-bold text-purple-900">${costs.otherCosts.toLocaleString()}</div>
+                      </div>
+                      <div>
+                        <div className="text-gray-600">Upfront costs</div>
+                        <div className="font-bold text-purple-900">${Math.round(costs.total).toLocaleString()}</div>
+                      </div>
+                      <div>
+                        <div className="text-gray-600">Deposit needed</div>
+                        <div className="font-bold text-purple-900">${Math.round(calculateDepositNeeded(activeProperty)).toLocaleString()}</div>
+                        <div className="text-xs text-gray-500">price less the planned loan, plus costs</div>
+                      </div>
+                    </div>
+                  </div>
+                )
+              })()}
+
               {/* Purchase History */}
               <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                 <div>
@@ -780,6 +954,71 @@ export const PropertyStep: React.FC<PropertyStepProps> = ({
                     />
                   </div>
                 </div>
+
+                <div>
+                  <label className="form-label">
+                    Sell at age (optional)
+                  </label>
+                  <input
+                    type="number"
+                    value={activeProperty.saleAge || ''}
+                    onChange={(e) => updateProperty(activeProperty.id, { saleAge: parseInt(e.target.value) || undefined })}
+                    className="form-input"
+                    placeholder="Keep it"
+                    min={18}
+                    max={100}
+                  />
+                  <p className="text-xs text-gray-500 mt-1">
+                    {activeProperty.propertyType === 'owner-occupied'
+                      ? 'Your home is exempt from capital gains tax'
+                      : 'Capital gains tax on the sale uses the purchase price as the cost base'}
+                  </p>
+                </div>
+
+                {activeProperty.propertyType === 'owner-occupied' && activeProperty.saleAge && (
+                  <>
+                    <div>
+                      <label className="form-label">
+                        Buy a home costing (today's prices)
+                      </label>
+                      <div className="relative">
+                        <span className="form-currency-symbol">$</span>
+                        <input
+                          type="number"
+                          value={activeProperty.downsizeToValue || ''}
+                          onChange={(e) => updateProperty(activeProperty.id, { downsizeToValue: parseInt(e.target.value) || undefined })}
+                          className="form-input-currency-large"
+                          placeholder="Don't buy another"
+                        />
+                      </div>
+                      <p className="text-xs text-gray-500 mt-1">
+                        Bought outright from the proceeds, plus stamp duty
+                      </p>
+                    </div>
+
+                    <div>
+                      <label className="form-label">
+                        Downsizer contribution to super (each)
+                      </label>
+                      <div className="relative">
+                        <span className="form-currency-symbol">$</span>
+                        <input
+                          type="number"
+                          value={activeProperty.downsizerContribution || ''}
+                          onChange={(e) => updateProperty(activeProperty.id, { downsizerContribution: parseInt(e.target.value) || undefined })}
+                          className="form-input-currency-large"
+                          placeholder="0"
+                          min={0}
+                          max={downsizer.maxContribution}
+                        />
+                      </div>
+                      <p className="text-xs text-gray-500 mt-1">
+                        Up to ${downsizer.maxContribution.toLocaleString()} each from age {downsizer.minAge}, outside the contribution caps,
+                        if you've owned the home {downsizer.minOwnershipYears} years or more
+                      </p>
+                    </div>
+                  </>
+                )}
               </div>
 
               {/* Equity Growth Insights */}
@@ -958,6 +1197,109 @@ export const PropertyStep: React.FC<PropertyStepProps> = ({
               </div>
             </div>
 
+            {/* First Home Super Saver */}
+            {activeProperty.propertyType === 'owner-occupied' && activeProperty.propertyIntent === 'looking-to-buy' && (
+              <div className="bg-amber-50 rounded-xl p-6">
+                <h3 className="font-semibold text-amber-900 mb-2">🔑 Save your deposit in super (FHSS)</h3>
+                <p className="text-amber-800 text-sm mb-4">
+                  First home buyers can release up to ${fhss.totalLimit.toLocaleString()} of voluntary super contributions
+                  (${fhss.annualLimit.toLocaleString()} a year) plus deemed earnings for a deposit, taxed at your marginal
+                  rate less {Math.round(fhss.releaseOffsetRate * 100)}%.
+                </p>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-4">
+                  <div>
+                    <label className="form-label">
+                      FHSS contributions (yearly)
+                    </label>
+                    <div className="relative">
+                      <span className="form-currency-symbol">$</span>
+                      <input
+                        type="number"
+                        value={activeProperty.fhssContributionYearly || ''}
+                        onChange={(e) => updateProperty(activeProperty.id, {
+                          fhssContributionYearly: Math.min(fhss.annualLimit, parseInt(e.target.value) || 0) || undefined
+                        })}
+                        className="form-input-currency-large"
+                        placeholder="0"
+                        min={0}
+                        max={fhss.annualLimit}
+                      />
+                    </div>
+                  </div>
+
+                  <div>
+                    <label className="form-label">
+                      Contributed as
+                    </label>
+                    <select
+                      value={activeProperty.fhssContributionType || 'concessional'}
+                      onChange={(e) => updateProperty(activeProperty.id, {
+                        fhssContributionType: e.target.value as Property['fhssContributionType']
+                      })}
+                      className="form-input"
+                    >
+                      <option value="concessional">Salary sacrifice (before tax)</option>
+                      <option value="non-concessional">Personal contributions (after tax)</option>
+                    </select>
+                    <p className="text-xs text-gray-500 mt-1">
+                      Salary sacrifice counts towards your concessional cap; {Math.round(fhss.concessionalShare * 100)}% of it
+                      can be released after contributions tax
+                    </p>
+                  </div>
+                </div>
+
+                {(() => {
+                  const projection = calculateFhssProjection(activeProperty)
+                  if (!projection) {
+                    return (
+                      <p className="text-sm text-amber-800">
+                        Enter the target value, planned loan and a yearly contribution to see when you'd have your deposit.
+                      </p>
+                    )
+                  }
+
+                  const formatDate = (date: Date | null) =>
+                    date ? date.toLocaleDateString('en-AU', { month: 'short', year: 'numeric' }) : 'Not within 30 years'
+                  const paths = [
+                    { label: 'FHSS scheme', path: projection.fhss },
+                    { label: 'ETF portfolio', path: projection.etf },
+                    { label: 'Savings account', path: projection.cash }
+                  ]
+
+                  return (
+                    <div className="bg-white rounded-lg p-4 border border-amber-200">
+                      <p className="text-sm text-gray-700 mb-3">
+                        Each option sets aside the same ${Math.round(projection.monthlyCost).toLocaleString()} a month of
+                        take-home pay towards a ${Math.round(calculateDepositNeeded(activeProperty)).toLocaleString()} deposit
+                        including stamp duty (today's prices, rising with property prices).
+                      </p>
+                      <div className="grid grid-cols-3 gap-2 text-sm">
+                        {paths.map(({ label, path }) => (
+                          <div key={label}>
+                            <div className="text-xs text-gray-500">{label}</div>
+                            <div className={`font-semibold ${path === projection.fhss ? 'text-amber-900' : 'text-gray-800'}`}>
+                              {formatDate(path.depositDate)}
+                            </div>
+                            <div className="text-xs text-gray-500">
+                              {path === projection.cash
+                                ? 'Interest taxed as it\'s earned'
+                                : `$${Math.round(path.tax).toLocaleString()} tax on ${path === projection.fhss ? 'release' : 'sale'}`}
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                      {projection.fhss.limitReached && (
+                        <p className="text-xs text-amber-700 mt-3">
+                          Contributions reach the ${fhss.totalLimit.toLocaleString()} limit before the deposit; savings after that go to a savings account.
+                        </p>
+                      )}
+                    </div>
+                  )
+                })()}
+              </div>
+            )}
+
             {/* Investment Property Income & Expenses */}
             {activeProperty.propertyType === 'investment' && (
               <div className="bg-green-50 rounded-xl p-6">
@@ -1074,6 +1416,41 @@ export const PropertyStep: React.FC<PropertyStepProps> = ({
                   </div>
                 </div>
 
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-4">
+                  <div>
+                    <label className="form-label">
+                      Land value
+                    </label>
+                    <div className="relative">
+                      <input
+                        type="number"
+                        value={activeProperty.landValuePercent ?? DEFAULT_LAND_VALUE_SHARE * 100}
+                        onChange={(e) => updateProperty(activeProperty.id, { landValuePercent: Math.min(100, Math.max(0, parseFloat(e.target.value) || 0)) })}
+                        className="form-input-currency"
+                        placeholder="50"
+                        min="0"
+                        max="100"
+                      />
+                      <span className="absolute right-3 top-1/2 transform -translate-y-1/2 text-gray-500">%</span>
+                    </div>
+                    <p className="text-xs text-gray-500 mt-1">
+                      Share of the property's value that's land; your latest land valuation notice has it
+                    </p>
+                  </div>
+
+                  <div>
+                    <div className="form-label">Land tax</div>
+                    <div className="text-lg font-bold text-gray-900 mt-2">
+                      ${Math.round(activeMetrics.annualLandTax || 0).toLocaleString()}/year
+                    </div>
+                    <p className="text-xs text-gray-500 mt-1">
+                      {(activeProperty.state || plannerState?.goal?.state) === 'ACT'
+                        ? 'Charged on this property\'s land value, growing with its value'
+                        : 'Your share of the tax on all your investment land in this state, growing with its value'}
+                    </p>
+                  </div>
+                </div>
+
                 {/* Property Summary */}
                 <div className="mt-6 p-4 bg-white rounded-lg border-2 border-green-200">
                   <h4 className="font-medium text-green-900 mb-3">Property investment summary</h4>
@@ -1108,6 +1485,25 @@ export const PropertyStep: React.FC<PropertyStepProps> = ({
                         This property requires ${Math.abs(activeMetrics.monthlyCashFlow || 0).toFixed(0)}/month contribution
                       </p>
                     )}
+                    {activeMetrics.weeklyAfterTaxCashFlow !== undefined && (
+                      <>
+                        <div className="flex justify-between items-center mt-2">
+                          <span className="text-gray-600">
+                            {activeMetrics.weeklyAfterTaxCashFlow < 0 ? 'After-tax holding cost:' : 'After-tax income:'}
+                          </span>
+                          <span className={`font-bold ${activeMetrics.weeklyAfterTaxCashFlow >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                            ${Math.abs(activeMetrics.weeklyAfterTaxCashFlow).toFixed(0)}/week
+                          </span>
+                        </div>
+                        {activeMetrics.rentalTaxEffect !== 0 && (
+                          <p className="text-xs text-gray-500 mt-1">
+                            {activeMetrics.rentalTaxEffect < 0
+                              ? `Includes a tax refund of about $${Math.round(-activeMetrics.rentalTaxEffect).toLocaleString()} a year on the rental loss`
+                              : `After about $${Math.round(activeMetrics.rentalTaxEffect).toLocaleString()} a year of tax on the rental profit`}
+                          </p>
+                        )}
+                      </>
+                    )}
                   </div>
                 </div>
               </div>
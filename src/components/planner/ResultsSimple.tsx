@@ -3,8 +3,19 @@
  * Beginner-friendly with accumulation charts and plain-English explanations
  */
 
-import React, { useState } from 'react'
+import React, { useEffect, useState } from 'react'
 import { ScenarioManager } from './ScenarioManager'
+import { MonteCarloPanel } from './MonteCarloPanel'
+import { BacktestPanel } from './BacktestPanel'
+import { SensitivityPanel } from './SensitivityPanel'
+import { isCancelledError, useSimulationWorker } from '../../hooks/useSimulationWorker'
+import type { AppSettings, CapitalGainsYear, GoalSolution, HomeSaleEvent } from '../../types/planner'
+import { formatFinancialYear, getTaxParameters } from '../../simulation/data/taxParameters'
+import { getCarryForwardSummary } from '../../simulation/modules/super'
+import { getDistributionTaxDrag } from '../../simulation/modules/distributionTax'
+import { getSuperIncentiveOpportunities } from '../../simulation/modules/superIncentives'
+import { createDefaultSettings } from '../../schemas/planner'
+import { getFinancialYear } from '../../simulation/utils'
 
 interface ResultsProps {
   kpis: any
@@ -12,6 +23,8 @@ interface ResultsProps {
   plannerState: any
   onExportCSV: () => void
   quickWin?: any
+  capitalGains?: CapitalGainsYear[]
+  homeSales?: HomeSaleEvent[]
   onPrevious?: () => void
   onLoadScenario?: (plannerState: any) => void
 }
@@ -22,11 +35,29 @@ export const Results: React.FC<ResultsProps> = ({
   plannerState,
   onExportCSV,
   quickWin,
+  capitalGains = [],
+  homeSales = [],
   onPrevious,
   onLoadScenario
 }) => {
   // Toggle between today's dollars and future dollars
   const [showTodaysDollars, setShowTodaysDollars] = useState(true)
+
+  // Goal solver answers come from the engine in the worker; nothing is suggested until they arrive
+  const { solveGoals, workerStatus } = useSimulationWorker()
+  const [goalSolution, setGoalSolution] = useState<GoalSolution | null>(null)
+  useEffect(() => {
+    if (workerStatus !== 'ready' || !plannerState) return
+    // Edits supersede a solve still in flight
+    const controller = new AbortController()
+    solveGoals(plannerState, undefined, { signal: controller.signal })
+      .then(result => setGoalSolution(result.goalSolution || null))
+      .catch(error => {
+        if (!isCancelledError(error)) console.error('[Results] Goal solver failed:', error)
+      })
+    return () => controller.abort()
+  }, [plannerState, workerStatus, solveGoals])
+
   // Calculate results from planner state
   const currentAge = plannerState?.goal?.currentAge || 30
   const retirementAge = plannerState?.goal?.retirementAge || 65
@@ -48,7 +79,7 @@ export const Results: React.FC<ResultsProps> = ({
   const propertyLoan = plannerState?.property?.loanBalance || 0
   
   // Realistic super projection calculation (aligned with MoneySmart methodology)
-  const sgRate = 0.12 // Current 12% SG rate
+  const sgRate = getTaxParameters().superannuation.guaranteeRate
   const annualSGContribution = salary * sgRate
   const annualSalarySacrifice = salarySacrifice * 12
   const totalAnnualSuperContributions = annualSGContribution + annualSalarySacrifice
@@ -129,14 +160,21 @@ export const Results: React.FC<ResultsProps> = ({
   const etfGrossReturn = returnAssumptions.etf + 0.015 // Add back fees that will be deducted
   const etfManagementFee = 0.0018 // Weighted average: VDHG 0.27%, VAS 0.07%, VGS 0.18% ≈ 0.18%
   const etfPlatformFee = 0.0005 // Typical brokerage platform fees annualized
-  const etfTaxDrag = 0.005 // ~0.5% tax drag from distributions and capital gains in accumulation phase
-  
-  // Net ETF return after all costs (uses dynamic return based on user selection)
-  const etfNetReturn = returnAssumptions.etf
   
   // Calculate ETF projection with more realistic returns
   // Handle zero monthly investment case properly
   const currentETFBalance = plannerState?.portfolio?.currentBalance || 0
+
+  // Tax on distributions at your marginal rate, less franking credits
+  const etfTaxDrag = getDistributionTaxDrag(
+    plannerState?.portfolio || {},
+    Math.max(currentETFBalance, monthlyInvestment * 12),
+    salary - salarySacrifice * 12,
+    createDefaultSettings() as AppSettings
+  )
+
+  // Net ETF return after all costs and tax on distributions (uses dynamic return based on user selection)
+  const etfNetReturn = returnAssumptions.etf - etfTaxDrag
   
   // Future value of current balance (compound growth)
   const currentBalanceGrowth = currentETFBalance > 0 
@@ -191,8 +229,7 @@ export const Results: React.FC<ResultsProps> = ({
   }
 
   // Smart suggestions
-  const monthlyGap = gap / 12
-  const extraMonthlyNeeded = monthlyGap > 0 ? Math.round(monthlyGap / 0.04 / 12) : 0
+  const extraMonthlyNeeded = goalSolution?.extraMonthlyInvestment
 
   // Super access and bridge years
   const superAccessAge = 60
@@ -233,35 +270,130 @@ export const Results: React.FC<ResultsProps> = ({
     }
   }
 
+  // Unused cap from the last five years, from the recorded history or, failing that, estimated
+  // from today's salary and packaging
+  const getCatchUpContribution = () => {
+    const recorded = plannerState?.super?.concessionalHistory
+    const currentYear = getFinancialYear(new Date())
+    const estimated = !recorded?.length
+    const history = estimated
+      ? Array.from({ length: 5 }, (_, i) => {
+          const startYear = currentYear - 5 + i
+          return {
+            financialYear: formatFinancialYear(startYear),
+            contributions: salary * getTaxParameters(startYear).superannuation.guaranteeRate + annualSalarySacrifice
+          }
+        })
+      : recorded
+    const { carryForward, availableCap } = getCarryForwardSummary(history, superBalance, currentYear)
+    const room = Math.floor(Math.max(0, availableCap - annualSGContribution - annualSalarySacrifice))
+    return { carryForward: Math.round(carryForward), room, estimated }
+  }
+
+  // Government money for lower incomes: the co-contribution and LISTO for either partner, and the
+  // offset for contributing to a lower-earning partner's super
+  const getSuperIncentive = () => {
+    const taxYear = getTaxParameters()
+    const partner = plannerState?.partner
+    const people = [
+      {
+        who: 'you',
+        salary,
+        sacrifice: annualSalarySacrifice,
+        age: currentAge,
+        balance: superBalance,
+        personal: (plannerState?.super?.nonConcessionalMonthly || 0) * 12,
+        toSpouse: plannerState?.super?.spouseContributionYearly || 0
+      },
+      ...(partner ? [{
+        who: 'your partner',
+        salary: partner.salary || 0,
+        sacrifice: (partner.salaryPackaging || 0) * 12,
+        age: partner.currentAge || currentAge,
+        balance: partner.currentBalance || 0,
+        personal: 0,
+        toSpouse: 0
+      }] : [])
+    ]
+
+    for (const [i, person] of people.entries()) {
+      const spouse = people[1 - i]
+      const opportunities = getSuperIncentiveOpportunities({
+        salary: person.salary,
+        concessionalContributions: person.salary * taxYear.superannuation.guaranteeRate + person.sacrifice,
+        personalContributions: person.personal,
+        age: person.age,
+        superBalance: person.balance,
+        spouse: spouse && { income: spouse.salary, age: spouse.age, superBalance: spouse.balance, contributionsMade: person.toSpouse }
+      }, taxYear)
+
+      for (const opportunity of opportunities) {
+        const amount = Math.round(opportunity.amount).toLocaleString()
+        const contribution = Math.ceil(opportunity.contribution || 0).toLocaleString()
+        if (opportunity.type === 'co-contribution') {
+          return {
+            message: person.who === 'you'
+              ? `Put $${contribution} of after-tax money into your super this year and the government adds up to $${amount} as a co-contribution`
+              : `If your partner puts $${contribution} of after-tax money into their super this year, the government adds up to $${amount} as a co-contribution`,
+            action: 'Plan an after-tax contribution',
+            type: 'co-contribution'
+          }
+        }
+        if (opportunity.type === 'spouse-offset') {
+          return {
+            message: `Contributing $${contribution} to ${spouse.who === 'you' ? 'your' : "your partner's"} super this year earns ${person.who === 'you' ? 'you' : 'your partner'} a $${amount} tax offset`,
+            action: 'Plan a spouse contribution',
+            type: 'spouse-offset'
+          }
+        }
+        return {
+          message: `${person.who === 'you' ? "You're" : 'Your partner is'} eligible for up to $${amount} a year of Low Income Super Tax Offset, paid into super. Make sure the fund has a tax file number`,
+          action: 'Check your super fund details',
+          type: 'listo'
+        }
+      }
+    }
+    return null
+  }
+
   const getQuickWin = () => {
-    if (canRetire) return null
-    
-    if (extraMonthlyNeeded < 300) {
+    if (!goalSolution) return null
+
+    const incentive = getSuperIncentive()
+    if (incentive) return incentive
+
+    const catchUp = getCatchUpContribution()
+    if (catchUp.carryForward >= 1000 && catchUp.room > 0) {
       return {
-        message: `Add $${extraMonthlyNeeded}/month to regular investing to close the gap`,
-        action: 'Apply this suggestion',
-        type: 'investing'
+        message: `You have ${catchUp.estimated ? 'an estimated ' : ''}$${catchUp.carryForward.toLocaleString()} of unused super cap from earlier years. A catch-up contribution of up to $${catchUp.room.toLocaleString()} this financial year is taxed at 15% instead of your marginal rate`,
+        action: 'Plan a catch-up contribution',
+        type: 'catch-up'
       }
     }
+
+    if (goalSolution.goalMet) return null
     
-    if (plannerState?.super?.salaryPackaging < 1000) {
-      const extraSuper = Math.min(500, extraMonthlyNeeded)
+    if (extraMonthlyNeeded !== undefined) {
       return {
-        message: `Add $${extraSuper}/month to salary packaging for tax-effective savings`,
-        action: 'Boost super contributions',
-        type: 'super'
+        message: `Invest an extra $${extraMonthlyNeeded.toLocaleString()}/month in ETFs to reach your goal`,
+        action: 'Apply this suggestion',
+        type: 'investing'
       }
     }
     
-    if (retirementAge > 60) {
+    if (goalSolution.earliestRetireAge !== undefined) {
       return {
-        message: `Consider retiring at ${retirementAge - 2} with a smaller gap to close`,
+        message: `Retiring at ${goalSolution.earliestRetireAge} reaches your goal with your current savings`,
         action: 'Adjust retirement age',
         type: 'timing'
       }
     }
     
-    return null
+    return {
+      message: `Your plan can fund about $${goalSolution.maxSustainableSpendYearly.toLocaleString()} a year in retirement`,
+      action: 'Adjust your goal',
+      type: 'spending'
+    }
   }
 
   const quickWinSuggestion = getQuickWin()
@@ -650,6 +782,24 @@ export const Results: React.FC<ResultsProps> = ({
     )
   }
 
+  // Age Pension received in each projection year (future dollars), from the engine series
+  const agePensionByYear: { age: number; amount: number }[] = []
+  for (let i = 1; i < (series?.agePension?.length || 0); i += 12) {
+    const amount = series.agePension.slice(i, i + 12).reduce((sum: number, value: number) => sum + value, 0)
+    if (amount > 0) agePensionByYear.push({ age: Math.floor(series.age[i - 1]), amount })
+  }
+
+  // Property sales are listed by year; ETF units sold to fund retirement are summed
+  const propertySales = capitalGains.filter(year => year.assetsSold.some(asset => asset !== 'ETFs'))
+  const etfSales = capitalGains
+    .filter(year => !propertySales.includes(year))
+    .reduce((sum, year) => ({
+      proceeds: sum.proceeds + year.proceeds,
+      tax: sum.tax + year.tax,
+      netProceeds: sum.netProceeds + year.netProceeds,
+      years: sum.years + 1
+    }), { proceeds: 0, tax: 0, netProceeds: 0, years: 0 })
+
   const formatCurrency = (value: number) => {
     if (value >= 1000000) {
       return `$${(value / 1000000).toFixed(1)}M`
@@ -879,17 +1029,109 @@ export const Results: React.FC<ResultsProps> = ({
           </div>
         </div>
 
+        {/* Money Lasts Until */}
+        {kpis && (
+          <div className={`rounded-xl p-4 mb-8 text-center ${kpis.moneyRunsOutAge !== undefined ? 'bg-red-50 border-2 border-red-200' : 'bg-green-50 border-2 border-green-200'}`}>
+            {kpis.moneyRunsOutAge !== undefined ? (
+              <p className="text-red-800">
+                <span className="font-semibold">Your money runs out at age {Math.floor(kpis.moneyRunsOutAge)}.</span>
+                {' '}After that your pension and investments can't fully fund your retirement spending.
+              </p>
+            ) : (
+              <p className="text-green-800">
+                <span className="font-semibold">Your money lasts past age 100.</span>
+                {' '}Your super moves to an account-based pension at retirement, paying at least the legislated minimum each year.
+              </p>
+            )}
+          </div>
+        )}
+
+        {/* Household Breakdown (couples) */}
+        {kpis?.members && (
+          <div className="bg-pink-50 border-2 border-pink-200 rounded-xl p-6 mb-8">
+            <h3 className="font-semibold text-pink-900 mb-1">👫 Your household</h3>
+            <p className="text-sm text-pink-800 mb-4">
+              Each of you is taxed on your own pay and has your own super. Spending and investments are shared.
+            </p>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {kpis.members.map((member: any) => (
+                <div key={member.name} className="bg-white p-4 rounded-lg">
+                  <div className="font-medium text-gray-800 mb-2">{member.name} · retires at {member.retireAge}</div>
+                  <div className="grid grid-cols-2 gap-2 text-sm text-gray-700">
+                    <div>Super at retirement</div>
+                    <div className="text-right font-semibold">{formatCurrency(member.superAtRetire)}</div>
+                    <div>Take-home pay this year</div>
+                    <div className="text-right font-semibold">{formatCurrency(member.takeHomePayYearly)}</div>
+                    <div>Before-tax super cap used</div>
+                    <div className="text-right font-semibold">{Math.round(member.capUsagePct * 100)}%</div>
+                    {member.propertyEquityAtRetire !== undefined && (
+                      <>
+                        <div>Property equity share at {retirementAge}</div>
+                        <div className="text-right font-semibold">{formatCurrency(member.propertyEquityAtRetire)}</div>
+                      </>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+            <p className="text-xs text-gray-500 mt-3">Super and property amounts are in future dollars.</p>
+          </div>
+        )}
+
+        {/* Range of Outcomes */}
+        <MonteCarloPanel
+          plannerState={plannerState}
+          netWorthAtRetire={kpis?.netWorthAtRetire}
+          className="mb-8"
+        />
+
+        {/* Historical Backtest */}
+        <BacktestPanel plannerState={plannerState} className="mb-8" />
+
+        {/* Sensitivity (tornado chart) */}
+        <SensitivityPanel plannerState={plannerState} className="mb-8" />
+
         {/* Quick Win Suggestion */}
-        {quickWinSuggestion && (
+        {goalSolution && (
           <div className="bg-blue-50 border-2 border-blue-200 rounded-xl p-6 mb-8">
             <div className="flex items-start gap-4">
               <div className="text-2xl">💡</div>
               <div className="flex-1">
-                <h3 className="font-semibold text-blue-900 mb-2">Quick win suggestion</h3>
-                <p className="text-blue-800 mb-3">{quickWinSuggestion.message}</p>
-                <button className="bg-blue-600 text-white px-4 py-2 rounded-lg text-sm font-medium hover:bg-blue-700 transition-colors">
-                  {quickWinSuggestion.action}
-                </button>
+                <h3 className="font-semibold text-blue-900 mb-2">
+                  {quickWinSuggestion ? 'Quick win suggestion' : "You're on track"}
+                </h3>
+                {quickWinSuggestion && (
+                  <>
+                    <p className="text-blue-800 mb-3">{quickWinSuggestion.message}</p>
+                    <button className="bg-blue-600 text-white px-4 py-2 rounded-lg text-sm font-medium hover:bg-blue-700 transition-colors">
+                      {quickWinSuggestion.action}
+                    </button>
+                  </>
+                )}
+
+                {/* Solved by re-running the projection; each answer keeps the rest of the plan as entered */}
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mt-4">
+                  <div className="bg-white p-4 rounded-lg text-center">
+                    <div className="text-2xl font-bold text-blue-700">
+                      {goalSolution.extraMonthlyInvestment === undefined
+                        ? 'Out of reach'
+                        : `$${goalSolution.extraMonthlyInvestment.toLocaleString()}`}
+                    </div>
+                    <div className="text-xs text-gray-600 mt-1">Extra ETF investing needed each month</div>
+                  </div>
+                  <div className="bg-white p-4 rounded-lg text-center">
+                    <div className="text-2xl font-bold text-blue-700">
+                      {goalSolution.earliestRetireAge === undefined ? 'After 80' : `Age ${goalSolution.earliestRetireAge}`}
+                    </div>
+                    <div className="text-xs text-gray-600 mt-1">Earliest retirement that meets your goal</div>
+                  </div>
+                  <div className="bg-white p-4 rounded-lg text-center">
+                    <div className="text-2xl font-bold text-blue-700">
+                      {formatCurrency(goalSolution.maxSustainableSpendYearly)}
+                    </div>
+                    <div className="text-xs text-gray-600 mt-1">Yearly spending that lasts to 100 (today's dollars)</div>
+                  </div>
+                </div>
               </div>
             </div>
           </div>
@@ -1035,6 +1277,124 @@ export const Results: React.FC<ResultsProps> = ({
           </div>
         </div>
 
+        {/* Age Pension */}
+        <div className="bg-teal-50 rounded-xl p-6 mb-8">
+          <h3 className="text-lg font-semibold text-gray-800 mb-2">Age Pension</h3>
+          {agePensionByYear.length > 0 ? (
+            <>
+              <p className="text-sm text-gray-700 mb-4">
+                Based on the assets and income tests, you could receive a
+                {kpis?.agePensionAtPensionAge ? ` ${formatCurrency(kpis.agePensionAtPensionAge)} a year (today's dollars) from pension age,` : ' part pension later in retirement,'}
+                {' '}which reduces what you need to draw from super and investments. Yearly amounts below are in future dollars.
+              </p>
+              <div className="grid grid-cols-3 md:grid-cols-6 gap-2 max-h-48 overflow-y-auto">
+                {agePensionByYear.map(({ age, amount }) => (
+                  <div key={age} className="bg-white rounded-lg p-2 text-center">
+                    <div className="text-xs text-gray-500">Age {age}</div>
+                    <div className="text-sm font-semibold text-teal-700">{formatCurrency(amount)}</div>
+                  </div>
+                ))}
+              </div>
+            </>
+          ) : (
+            <p className="text-sm text-gray-700">
+              Your projected assets and income are above the Centrelink limits, so no Age Pension is expected.
+            </p>
+          )}
+        </div>
+
+        {/* Selling the home */}
+        {homeSales.map(sale => (
+          <div key={sale.propertyName} className="bg-teal-50 rounded-xl p-6 mb-8">
+            <h3 className="text-lg font-semibold text-gray-800 mb-2">
+              {sale.replacementCost > 0 ? 'Downsizing' : 'Selling'} {sale.propertyName} at {Math.floor(sale.age)}
+            </h3>
+            <p className="text-sm text-gray-700 mb-4">
+              {sale.replacementCost > 0
+                ? 'The next home and its stamp duty are paid for first. '
+                : 'Without a home, the Age Pension assets test uses the higher non-homeowner limit. '}
+              Amounts are in future dollars; what's released goes to cash and funds your retirement spending.
+            </p>
+            <div className="bg-white rounded-lg p-3 grid grid-cols-2 md:grid-cols-4 gap-2 text-sm mb-3">
+              <div>
+                <div className="text-xs text-gray-500">Sale price</div>
+                <div className="font-semibold">{formatCurrency(sale.proceeds)}</div>
+              </div>
+              <div>
+                <div className="text-xs text-gray-500">Next home</div>
+                <div className="font-semibold">{sale.replacementCost > 0 ? formatCurrency(sale.replacementCost) : '—'}</div>
+              </div>
+              <div>
+                <div className="text-xs text-gray-500">Downsizer contributions</div>
+                <div className="font-semibold text-blue-700">{formatCurrency(sale.downsizerContributions)}</div>
+              </div>
+              <div>
+                <div className="text-xs text-gray-500">Cash released</div>
+                <div className="font-semibold text-green-700">{formatCurrency(sale.cashReleased)}</div>
+              </div>
+            </div>
+            <p className="text-sm text-gray-700">
+              Age Pension on the day of the sale, if you were of pension age:{' '}
+              <strong>${Math.round(sale.agePensionBefore).toLocaleString()}/yr</strong> before and{' '}
+              <strong>${Math.round(sale.agePensionAfter).toLocaleString()}/yr</strong> after (today's dollars).
+              {sale.agePensionAfter < sale.agePensionBefore && ' Money from the home is assessed once it moves into super or the bank.'}
+            </p>
+          </div>
+        ))}
+
+        {/* Capital gains tax */}
+        {capitalGains.length > 0 && (
+          <div className="bg-indigo-50 rounded-xl p-6 mb-8">
+            <h3 className="text-lg font-semibold text-gray-800 mb-2">Capital gains tax on sales</h3>
+            <p className="text-sm text-gray-700 mb-4">
+              Gains on assets held over 12 months are discounted by half, and the rest is taxed at your marginal
+              rate in the year you sell. Amounts are in future dollars, after any loan is repaid.
+            </p>
+            <div className="space-y-2">
+              {propertySales.map(year => (
+                <div key={year.financialYear} className="bg-white rounded-lg p-3 grid grid-cols-2 md:grid-cols-4 gap-2 text-sm">
+                  <div>
+                    <div className="font-medium text-gray-800">{year.assetsSold.join(', ')}</div>
+                    <div className="text-xs text-gray-500">{year.financialYear} · age {year.age}</div>
+                  </div>
+                  <div>
+                    <div className="text-xs text-gray-500">Sale price</div>
+                    <div className="font-semibold">{formatCurrency(year.proceeds)}</div>
+                  </div>
+                  <div>
+                    <div className="text-xs text-gray-500">Tax due</div>
+                    <div className="font-semibold text-red-600">{formatCurrency(year.tax)}</div>
+                  </div>
+                  <div>
+                    <div className="text-xs text-gray-500">Net proceeds</div>
+                    <div className="font-semibold text-green-700">{formatCurrency(year.netProceeds)}</div>
+                  </div>
+                </div>
+              ))}
+              {etfSales.years > 0 && (
+                <div className="bg-white rounded-lg p-3 grid grid-cols-2 md:grid-cols-4 gap-2 text-sm">
+                  <div>
+                    <div className="font-medium text-gray-800">ETF units sold</div>
+                    <div className="text-xs text-gray-500">over {etfSales.years} {etfSales.years === 1 ? 'year' : 'years'} of drawdowns</div>
+                  </div>
+                  <div>
+                    <div className="text-xs text-gray-500">Sold</div>
+                    <div className="font-semibold">{formatCurrency(etfSales.proceeds)}</div>
+                  </div>
+                  <div>
+                    <div className="text-xs text-gray-500">Tax due</div>
+                    <div className="font-semibold text-red-600">{formatCurrency(etfSales.tax)}</div>
+                  </div>
+                  <div>
+                    <div className="text-xs text-gray-500">Net proceeds</div>
+                    <div className="font-semibold text-green-700">{formatCurrency(etfSales.netProceeds)}</div>
+                  </div>
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+
         {/* Guardrails & Important Notes */}
         <div className="space-y-4 mb-8">
           {bridgeYears > 0 && (
@@ -1083,7 +1443,9 @@ export const Results: React.FC<ResultsProps> = ({
                 <div>
                   <div className="font-medium text-gray-800">Boost your savings</div>
                   <div className="text-sm text-gray-600">
-                    Try adding ${extraMonthlyNeeded < 300 ? extraMonthlyNeeded : '200-500'}/month to close most of the gap.
+                    {extraMonthlyNeeded
+                      ? `Try adding $${extraMonthlyNeeded.toLocaleString()}/month to your investing to close the gap.`
+                      : 'Try adding $200-500/month to close most of the gap.'}
                   </div>
                 </div>
               </div>
@@ -1096,7 +1458,7 @@ export const Results: React.FC<ResultsProps> = ({
               <div>
                 <div className="font-medium text-gray-800">Max out your super tax benefits</div>
                 <div className="text-sm text-gray-600">
-                  Use salary packaging up to the $27,500 yearly cap—it's like getting a tax discount on investing.
+                  Use salary packaging up to the ${getTaxParameters().superannuation.concessionalCap.toLocaleString()} yearly cap—it's like getting a tax discount on investing.
                 </div>
               </div>
             </div>
@@ -4,6 +4,7 @@
  */
 
 import React, { useState, useEffect } from 'react'
+import { useScenarioBatch, type ScenarioRunState } from '../../hooks/useScenarioBatch'
 import {
   getSavedScenarios,
   saveScenario,
@@ -17,6 +18,38 @@ import {
   type PropertyScenario
 } from '../../utils/scenarioManager'
 
+// Scenarios shown in the compact list; they are simulated first
+const RECENT_COUNT = 5
+const NO_SCENARIOS: PropertyScenario[] = []
+
+const formatCurrency = (value: number) => {
+  if (Math.abs(value) >= 1000000) {
+    return `$${(value / 1000000).toFixed(1)}M`
+  }
+  return `$${Math.round(value / 1000)}k`
+}
+
+// Live projection results for a saved plan, filled in as the worker pool gets to it
+const ScenarioKpiLine: React.FC<{ run?: ScenarioRunState }> = ({ run }) => {
+  if (!run || run.status === 'queued' || run.status === 'running') {
+    return <div className="text-xs text-indigo-500 mt-1">{run?.status === 'running' ? 'Simulating...' : 'Waiting to simulate...'}</div>
+  }
+  if (run.status === 'error' || !run.kpis) {
+    return <div className="text-xs text-red-600 mt-1">Couldn't simulate this plan</div>
+  }
+
+  const { kpis } = run
+  return (
+    <div className="text-xs text-gray-700 mt-1">
+      Net worth at retirement: <span className="font-medium">{formatCurrency(kpis.netWorthAtRetire)}</span> •
+      Super: {formatCurrency(kpis.superAtRetire)} •{' '}
+      {kpis.moneyRunsOutAge === undefined
+        ? <span className="text-green-700">Money lasts</span>
+        : <span className="text-red-700">Runs out at {Math.floor(kpis.moneyRunsOutAge)}</span>}
+    </div>
+  )
+}
+
 interface ScenarioManagerProps {
   plannerState: any
   onLoadScenario: (plannerState: any) => void
@@ -40,6 +73,11 @@ export const ScenarioManager: React.FC<ScenarioManagerProps> = ({
   const [importData, setImportData] = useState('')
   const [isExpanded, setIsExpanded] = useState(false)
 
+  // Simulate saved plans only while the manager is open
+  const scenarioRuns = useScenarioBatch(isExpanded ? scenarios : NO_SCENARIOS, {
+    highPriorityIds: scenarios.slice(0, RECENT_COUNT).map(scenario => scenario.id)
+  })
+
   // Load scenarios on component mount
   useEffect(() => {
     refreshScenarios()
@@ -240,7 +278,7 @@ Manage Plans
         <div>
           <h4 className="font-medium text-indigo-900 mb-3">Saved Plans ({scenarios.length})</h4>
           <div className="space-y-2 max-h-60 overflow-y-auto">
-            {scenarios.slice(0, 5).map((scenario) => {
+            {scenarios.slice(0, RECENT_COUNT).map((scenario) => {
               const summary = getScenarioSummary(scenario)
               return (
                 <div key={scenario.id} className="bg-white border border-indigo-200 rounded-lg p-3">
@@ -284,6 +322,7 @@ Manage Plans
                       )}
                     </div>
                   )}
+                  <ScenarioKpiLine run={scenarioRuns[scenario.id]} />
                 </div>
               )
             })}
@@ -368,6 +407,7 @@ Manage Plans
                       <div className="text-xs text-gray-600">
                         {summary.propertyCount} properties • Equity: ${(summary.totalEquity / 1000).toFixed(0)}k • Loans: ${(summary.totalLoanBalance / 1000).toFixed(0)}k
                       </div>
+                      <ScenarioKpiLine run={scenarioRuns[scenario.id]} />
                     </div>
                   )
                 })}
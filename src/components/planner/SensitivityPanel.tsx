@@ -0,0 +1,173 @@
+/**
+ * Sensitivity Panel
+ * Tornado chart of how much each assumption moves the outcome when nudged either way
+ */
+
+import React, { useState } from 'react'
+import { useSimulationWorker } from '../../hooks/useSimulationWorker'
+import { DEFAULT_SENSITIVITY_DELTAS } from '../../simulation/sensitivity'
+import type { SensitivityItem, SensitivitySummary, SensitivityVariable } from '../../types/planner'
+
+interface SensitivityPanelProps {
+  plannerState: any
+  className?: string
+}
+
+type Metric = 'netWorth' | 'bridgeCoverage'
+
+// Multipliers on the default deltas
+const CHANGE_SIZES = [
+  { label: 'Small', scale: 0.5 },
+  { label: 'Standard', scale: 1 },
+  { label: 'Large', scale: 2 }
+]
+
+const formatCurrency = (value: number) => {
+  if (Math.abs(value) >= 1000000) {
+    return `$${(value / 1000000).toFixed(1)}M`
+  }
+  return `$${Math.round(value / 1000)}k`
+}
+
+const formatDelta = (item: SensitivityItem) =>
+  item.variable === 'salarySacrifice'
+    ? `±$${Math.round(item.delta)}/mo`
+    : `±${(item.delta * 100).toFixed(item.delta < 0.01 ? 2 : 1)}%`
+
+const scaleDeltas = (scale: number) =>
+  Object.fromEntries(
+    Object.entries(DEFAULT_SENSITIVITY_DELTAS).map(([key, delta]) => [key, delta * scale])
+  ) as Record<SensitivityVariable, number>
+
+export const SensitivityPanel: React.FC<SensitivityPanelProps> = ({
+  plannerState,
+  className = ''
+}) => {
+  const { runSensitivity, isRunning, workerStatus } = useSimulationWorker()
+  const [scale, setScale] = useState(1)
+  const [metric, setMetric] = useState<Metric>('netWorth')
+  const [summary, setSummary] = useState<SensitivitySummary | null>(null)
+  const [runError, setRunError] = useState<string | null>(null)
+  const [progress, setProgress] = useState(0)
+
+  const handleRun = async () => {
+    try {
+      setRunError(null)
+      setProgress(0)
+      const result = await runSensitivity(plannerState, { deltas: scaleDeltas(scale), onProgress: setProgress })
+      setSummary(result.sensitivity || null)
+    } catch (error) {
+      console.error('[SensitivityPanel] Sensitivity run failed:', error)
+      setRunError(error instanceof Error ? error.message : 'Sensitivity run failed')
+    }
+  }
+
+  const valueOf = (outcome: SensitivitySummary['base']) =>
+    metric === 'netWorth' ? outcome.netWorthAtRetire : outcome.bridgeYearsCovered
+  const formatValue = (value: number) =>
+    metric === 'netWorth' ? formatCurrency(value) : `${value.toFixed(1)} yrs`
+
+  const items = summary
+    ? metric === 'netWorth'
+      ? summary.items
+      : summary.bridgeCoverageRanking.map(variable => summary.items.find(item => item.variable === variable)!)
+    : []
+  const baseValue = summary ? valueOf(summary.base) : 0
+  const maxDeviation = Math.max(
+    ...items.flatMap(item => [Math.abs(valueOf(item.low) - baseValue), Math.abs(valueOf(item.high) - baseValue)]),
+    1e-9
+  )
+
+  // Bars grow left or right from the centre line, which marks the plan as entered
+  const barStyle = (value: number) => {
+    const deviation = value - baseValue
+    const width = (Math.abs(deviation) / maxDeviation) * 50
+    return { left: `${deviation < 0 ? 50 - width : 50}%`, width: `${width}%` }
+  }
+
+  return (
+    <div className={`bg-indigo-50 border-2 border-indigo-200 rounded-xl p-6 ${className}`}>
+      <div className="flex items-start gap-4 mb-4">
+        <div className="text-2xl">🌪️</div>
+        <div className="flex-1">
+          <h3 className="font-semibold text-indigo-900 mb-1">Which assumptions matter most?</h3>
+          <p className="text-sm text-indigo-800">
+            We nudge each assumption down and up, one at a time, and rank how far it moves your result.
+            Net worth is in today's dollars.
+          </p>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-4 mb-6">
+        <label className="text-sm text-gray-700">
+          Size of change
+          <select
+            value={scale}
+            onChange={(e) => setScale(Number(e.target.value))}
+            className="block w-32 mt-1 px-3 py-2 border border-gray-300 rounded-lg bg-white"
+          >
+            {CHANGE_SIZES.map(size => (
+              <option key={size.label} value={size.scale}>{size.label}</option>
+            ))}
+          </select>
+        </label>
+        <div className="bg-white rounded-lg p-1 flex border border-gray-200">
+          {([['netWorth', 'Net worth at retirement'], ['bridgeCoverage', 'Bridge years covered']] as const).map(([value, label]) => (
+            <button
+              key={value}
+              onClick={() => setMetric(value)}
+              className={`px-3 py-1.5 rounded-md text-sm font-medium transition-colors ${
+                metric === value ? 'bg-indigo-600 text-white' : 'text-gray-700 hover:text-gray-900'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+        <button
+          onClick={handleRun}
+          disabled={isRunning || workerStatus !== 'ready'}
+          className="bg-indigo-600 text-white px-4 py-2 rounded-lg text-sm font-medium hover:bg-indigo-700 transition-colors disabled:opacity-50"
+        >
+          {isRunning ? `Running... ${Math.round(progress)}%` : summary ? 'Run again' : 'Run sensitivity'}
+        </button>
+      </div>
+
+      {runError && (
+        <p className="text-sm text-red-600 mb-4">{runError}</p>
+      )}
+
+      {summary && (
+        <>
+          <div className="space-y-2">
+            {items.map(item => (
+              <div key={item.variable} className="flex items-center gap-3">
+                <div className="w-40 text-sm text-gray-700">
+                  {item.label} <span className="text-xs text-gray-500">{formatDelta(item)}</span>
+                </div>
+                <div className="relative flex-1 h-6 bg-white rounded">
+                  <div
+                    className="absolute top-0 h-1/2 bg-orange-400 rounded-t"
+                    style={barStyle(valueOf(item.low))}
+                    title={`Lower: ${formatValue(valueOf(item.low))}`}
+                  />
+                  <div
+                    className="absolute bottom-0 h-1/2 bg-indigo-500 rounded-b"
+                    style={barStyle(valueOf(item.high))}
+                    title={`Higher: ${formatValue(valueOf(item.high))}`}
+                  />
+                  <div className="absolute top-0 h-full w-px bg-gray-700" style={{ left: '50%' }} />
+                </div>
+              </div>
+            ))}
+          </div>
+          <div className="flex flex-wrap justify-between gap-2 text-xs text-gray-600 mt-3">
+            <span><span className="inline-block w-3 h-3 bg-orange-400 rounded mr-1" />Assumption lower</span>
+            <span>Your plan: {formatValue(baseValue)}</span>
+            <span><span className="inline-block w-3 h-3 bg-indigo-500 rounded mr-1" />Assumption higher</span>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
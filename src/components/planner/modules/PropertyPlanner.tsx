@@ -8,6 +8,7 @@ import { CurrencyInput } from '../../ui/CurrencyInput'
 import { ProgressiveDisclosure } from '../../ui/ProgressiveDisclosure'
 import { ErrorMessage } from '../../ui/ErrorMessage'
 import type { PlannerState } from '../../../types/planner'
+import { calculatePurchaseCosts } from '../../../simulation/modules/stampDuty'
 
 interface PropertyPlannerProps {
   data: PlannerState
@@ -137,7 +138,12 @@ export const PropertyPlanner: React.FC<PropertyPlannerProps> = ({
     
     const maxLoanAmount = maxMonthlyRepayment * ((1 - Math.pow(1 + interestRate, -loanTerm)) / interestRate)
     const maxPropertyPrice = maxLoanAmount / 0.8 // Assuming 20% deposit
-    const requiredDeposit = maxPropertyPrice * 0.2
+    // Stamp duty and other purchase costs come out of savings too
+    const upfrontCosts = calculatePurchaseCosts(maxPropertyPrice, {
+      state: data.goal?.state,
+      buyer: selectedStrategy === 'owner-occupier' ? 'owner-occupier' : 'investor'
+    })
+    const requiredDeposit = maxPropertyPrice * 0.2 + upfrontCosts.total
     
     const currentEquity = data.property.currentValue - data.property.outstandingMortgage
     const totalAvailableDeposit = currentEquity + data.portfolio.currentValue + data.buffers.currentAmount
@@ -147,11 +153,12 @@ export const PropertyPlanner: React.FC<PropertyPlannerProps> = ({
       requiredDeposit,
       maxLoanAmount,
       maxMonthlyRepayment,
+      upfrontCosts,
       currentEquity,
       totalAvailableDeposit,
       affordabilityGap: Math.max(0, requiredDeposit - totalAvailableDeposit)
     }
-  }, [data.income.salary, data.income.monthlyExpenses, data.property.currentValue, data.property.outstandingMortgage, data.portfolio.currentValue, data.buffers.currentAmount])
+  }, [data.income.salary, data.income.monthlyExpenses, data.property.currentValue, data.property.outstandingMortgage, data.portfolio.currentValue, data.buffers.currentAmount, data.goal?.state, selectedStrategy])
 
   // Calculate investment returns
   const propertyProjection = useMemo(() => {
@@ -365,6 +372,10 @@ export const PropertyPlanner: React.FC<PropertyPlannerProps> = ({
                 <div className="text-lg font-bold text-blue-900">
                   ${affordabilityAnalysis.requiredDeposit.toLocaleString()}
                 </div>
+                <div className="text-xs text-blue-600">
+                  Incl. ${Math.round(affordabilityAnalysis.upfrontCosts.stampDuty).toLocaleString()} stamp duty
+                  {data.goal?.state ? ` (${data.goal.state})` : ''} and other costs
+                </div>
               </div>
               <div>
                 <div className="text-blue-700">Available Deposit:</div>
@@ -9,6 +9,9 @@ import { BasicCapIndicator } from '../../ui/BasicCapIndicator'
 import { ProgressiveDisclosure } from '../../ui/ProgressiveDisclosure'
 import { ErrorMessage } from '../../ui/ErrorMessage'
 import type { PlannerState, SuperOption } from '../../../types/planner'
+import { calculateDivision293Tax, calculateSuperGuarantee } from '../../../utils/taxCalculations'
+import { getTaxParameters } from '../../../simulation/data/taxParameters'
+import { getCarryForwardSummary } from '../../../simulation/modules/super'
 
 interface SuperPlannerProps {
   data: PlannerState
@@ -88,27 +91,46 @@ export const SuperPlanner: React.FC<SuperPlannerProps> = ({
     })
   }
 
+  const superBalance = data.super.currentBalance
+  const concessionalHistory = data.super.concessionalHistory
+
+  // Record one past year's contributions; the carry-forward table is rebuilt from the history
+  const updateConcessionalYear = (financialYear: string, contributions: number) => {
+    const otherYears = (concessionalHistory || []).filter(year => year.financialYear !== financialYear)
+    updateSuperField('concessionalHistory', [...otherYears, { financialYear, contributions }])
+  }
+
   // Calculate contribution cap usage
   const capCalculations = useMemo(() => {
+    const { superannuation } = getTaxParameters()
+    const carryForward = getCarryForwardSummary(concessionalHistory, superBalance)
     const annualSalaryPackaging = data.super.salaryPackaging * 12
-    const annualEmployerContrib = data.income.salary * 0.11 // SG rate
+    const salary = data.income.salary
+    const annualEmployerContrib = calculateSuperGuarantee(salary)
     const totalAnnualContrib = annualSalaryPackaging + annualEmployerContrib
-    const usagePct = totalAnnualContrib / 27500 // Default cap
+    const usagePct = totalAnnualContrib / carryForward.availableCap
+
+    // Packaging lowers taxable income but counts towards the Division 293 threshold all the same
+    const division293Tax = calculateDivision293Tax(salary - annualSalaryPackaging, totalAnnualContrib)
     
     return {
       totalAnnualContrib,
       usagePct,
-      remainingCapacity: Math.max(0, 27500 - totalAnnualContrib),
-      suggestedMonthly: Math.max(0, (27500 - annualEmployerContrib) / 12)
+      remainingCapacity: Math.max(0, carryForward.availableCap - totalAnnualContrib),
+      suggestedMonthly: Math.max(0, (carryForward.availableCap - annualEmployerContrib) / 12),
+      division293Tax,
+      division293Threshold: superannuation.division293Threshold,
+      concessionalCap: superannuation.concessionalCap,
+      carryForward
     }
-  }, [data.super.salaryPackaging, data.income.salary])
+  }, [data.super.salaryPackaging, data.income.salary, concessionalHistory, superBalance])
 
   const selectedOption = SUPER_OPTIONS.find(opt => opt.id === data.super.investmentOption)
 
   // Calculate projected balance
   const projectedBalance = useMemo(() => {
     const yearsToRetirement = data.goalSetter.retirementAge - (data.goalSetter.currentAge || 30)
-    const currentBalance = data.super.currentBalance
+    const currentBalance = superBalance
     const annualContrib = capCalculations.totalAnnualContrib
     const returnRate = selectedOption?.expectedReturn || 0.08
     
@@ -121,7 +143,7 @@ export const SuperPlanner: React.FC<SuperPlannerProps> = ({
     const contributionFV = annualContrib * ((Math.pow(1 + returnRate, yearsToRetirement) - 1) / returnRate)
     
     return futureValue + contributionFV
-  }, [data.super.currentBalance, capCalculations.totalAnnualContrib, data.goalSetter.retirementAge, data.goalSetter.currentAge, selectedOption])
+  }, [superBalance, capCalculations.totalAnnualContrib, data.goalSetter.retirementAge, data.goalSetter.currentAge, selectedOption])
 
   return (
     <div className="space-y-6">
@@ -131,8 +153,68 @@ export const SuperPlanner: React.FC<SuperPlannerProps> = ({
         capLabel="Before-tax Super Cap"
         currentMonthly={data.super.salaryPackaging}
         suggestedMonthly={Math.round(capCalculations.suggestedMonthly)}
+        carryForward={capCalculations.carryForward.carryForward}
       />
 
+      {capCalculations.division293Tax > 0 && (
+        <div className="bg-amber-50 border border-amber-200 rounded-lg p-4">
+          <h5 className="font-medium text-amber-900 mb-1">Division 293 tax applies</h5>
+          <p className="text-sm text-amber-800">
+            Your income plus before-tax contributions is over ${capCalculations.division293Threshold.toLocaleString()}, so
+            contributions are taxed at 30% instead of 15%. That's about{' '}
+            <strong>${Math.round(capCalculations.division293Tax).toLocaleString()}</strong> extra a year, usually paid from your super.
+          </p>
+        </div>
+      )}
+
+      {/* Carry-forward of unused cap */}
+      <div className="border border-gray-200 rounded-lg p-4">
+        <h5 className="font-medium text-gray-700 mb-1">Unused cap from earlier years</h5>
+        <p className="text-sm text-gray-600 mb-3">
+          Cap you didn't use in the last {capCalculations.carryForward.years.length} financial years can be added to this
+          year's, as long as your super balance was under ${capCalculations.carryForward.balanceLimit.toLocaleString()} on 30 June.
+          Enter what went in before tax each year (employer plus salary packaging) - your fund's statements show it.
+        </p>
+        <table className="w-full text-sm mb-3">
+          <thead>
+            <tr className="text-left text-gray-500">
+              <th className="font-medium pb-2">Financial year</th>
+              <th className="font-medium pb-2">Cap</th>
+              <th className="font-medium pb-2">Contributed</th>
+              <th className="font-medium pb-2 text-right">Still unused</th>
+            </tr>
+          </thead>
+          <tbody>
+            {capCalculations.carryForward.years.map(year => (
+              <tr key={year.financialYear} className="border-t border-gray-100">
+                <td className="py-2 text-gray-700">{year.financialYear}</td>
+                <td className="py-2 text-gray-600">${year.cap.toLocaleString()}</td>
+                <td className="py-2 pr-3">
+                  <CurrencyInput
+                    value={year.contributions ?? 0}
+                    onChange={(value) => updateConcessionalYear(year.financialYear, value)}
+                    placeholder="Not recorded"
+                    className="w-full"
+                  />
+                </td>
+                <td className="py-2 text-right text-gray-700">${Math.round(year.unused).toLocaleString()}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {capCalculations.carryForward.eligible ? (
+          <p className="text-sm text-gray-700">
+            Available this year: <strong>${Math.round(capCalculations.carryForward.availableCap).toLocaleString()}</strong>
+            {' '}(${capCalculations.concessionalCap.toLocaleString()} cap plus ${Math.round(capCalculations.carryForward.carryForward).toLocaleString()} carried forward)
+          </p>
+        ) : (
+          <p className="text-sm text-amber-800">
+            Your super balance is over ${capCalculations.carryForward.balanceLimit.toLocaleString()}, so unused cap can't be
+            carried forward this year.
+          </p>
+        )}
+      </div>
+
       {/* Salary Packaging Optimization */}
       <div className="space-y-4">
         <div>
@@ -427,7 +509,7 @@ export const SuperPlanner: React.FC<SuperPlannerProps> = ({
           <li>• <strong>High Growth:</strong> Best option for investors under 50</li>
           <li>• <strong>Tax advantage:</strong> 15% tax vs up to 47% personal tax</li>
           <li>• <strong>Compound growth:</strong> Small increases have big long-term impact</li>
-          <li>• <strong>Annual cap:</strong> Make sure you don't exceed $27,500 per year</li>
+          <li>• <strong>Annual cap:</strong> Make sure you don't exceed ${capCalculations.concessionalCap.toLocaleString()} per year</li>
           <li>• <strong>Low fees:</strong> Choose funds with total fees under 1% per year</li>
         </ul>
       </div>
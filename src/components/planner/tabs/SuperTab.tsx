@@ -9,6 +9,8 @@ import { CurrencyInput } from '../../ui/CurrencyInput'
 import { ProgressiveDisclosure } from '../../ui/ProgressiveDisclosure'
 import { BasicCapIndicator } from '../../ui/BasicCapIndicator'
 import { ErrorMessage } from '../../ui/ErrorMessage'
+import { getCarryForwardSummary, getNonConcessionalYears } from '../../../simulation/modules/super'
+import { getTaxParameters } from '../../../simulation/data/taxParameters'
 
 interface SuperTabProps {
   value: SuperState
@@ -55,7 +57,18 @@ export const SuperTab: React.FC<SuperTabProps> = ({ value, settings, onChange })
   const annualSG = value.balance * value.SGRate // Rough estimate based on current balance
   const annualSalarySacrifice = value.salarySacrificeMonthly * 12
   const totalAnnualContributions = annualSG + annualSalarySacrifice
-  const capUsagePct = totalAnnualContributions / value.concessionalCapYearly
+  const { carryForward } = getCarryForwardSummary(value.concessionalHistory, value.balance)
+  const availableCap = value.concessionalCapYearly + carryForward
+  const capUsagePct = totalAnnualContributions / availableCap
+
+  // After-tax contributions: the yearly cap, and how much can go in at once with bring-forward
+  // (age isn't known on this tab; the projection applies the age limit)
+  const taxYear = getTaxParameters()
+  const { superannuation, spouseContributionOffset: spouseOffset } = taxYear
+  const nonConcessionalYears = getNonConcessionalYears(value.balance, 0, taxYear)
+  const lumpSums = value.nonConcessionalLumpSums || []
+  const updateLumpSum = (index: number, field: 'age' | 'amount', amount: number) =>
+    updateField('nonConcessionalLumpSums', lumpSums.map((lumpSum, i) => (i === index ? { ...lumpSum, [field]: amount } : lumpSum)))
 
   // Estimate super balance growth
   const estimatedGrowthRate = useMemo(() => {
@@ -186,7 +199,8 @@ export const SuperTab: React.FC<SuperTabProps> = ({ value, settings, onChange })
           usagePct={capUsagePct}
           capLabel={settings.concessionalCapLabel}
           currentMonthly={value.salarySacrificeMonthly}
-          suggestedMonthly={Math.floor((settings.concessionalCapYearly * 0.9 - annualSG) / 12)}
+          suggestedMonthly={Math.floor(((settings.concessionalCapYearly + carryForward) * 0.9 - annualSG) / 12)}
+          carryForward={carryForward}
         />
 
         <div className="bg-blue-50 rounded-lg p-4 border border-blue-200">
@@ -268,6 +282,82 @@ export const SuperTab: React.FC<SuperTabProps> = ({ value, settings, onChange })
             </p>
           </div>
 
+          <div className="space-y-2">
+            <label className="block text-lg font-semibold text-gray-700">
+              After-tax contributions (monthly)
+            </label>
+            <CurrencyInput
+              value={value.nonConcessionalMonthly || 0}
+              onChange={(amount) => updateField('nonConcessionalMonthly', amount)}
+              placeholder="0"
+              className="w-full px-4 py-3 border-2 border-gray-200 rounded-lg text-lg focus:border-blue-500 focus:outline-none transition-colors"
+            />
+            <p className="text-sm text-gray-500">
+              {nonConcessionalYears === 0
+                ? `Your balance is over the $${superannuation.transferBalanceCap.toLocaleString()} transfer balance cap, so after-tax contributions aren't accepted`
+                : `Up to $${superannuation.nonConcessionalCap.toLocaleString()} a year${nonConcessionalYears > 1
+                  ? `, or $${(superannuation.nonConcessionalCap * nonConcessionalYears).toLocaleString()} at once by bringing forward ${nonConcessionalYears} years' caps`
+                  : ''}`}
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <label className="block text-lg font-semibold text-gray-700">
+              After-tax lump sums
+            </label>
+            {lumpSums.map((lumpSum, index) => (
+              <div key={index} className="flex items-center gap-3">
+                <span className="text-sm text-gray-600">At age</span>
+                <input
+                  type="number"
+                  min="18"
+                  max={superannuation.nonConcessionalAgeLimit - 1}
+                  value={lumpSum.age}
+                  onChange={(e) => updateLumpSum(index, 'age', parseInt(e.target.value) || 0)}
+                  className="w-20 px-3 py-2 border-2 border-gray-200 rounded-lg focus:border-blue-500 focus:outline-none"
+                />
+                <CurrencyInput
+                  value={lumpSum.amount}
+                  onChange={(amount) => updateLumpSum(index, 'amount', amount)}
+                  className="flex-1 px-3 py-2 border-2 border-gray-200 rounded-lg focus:border-blue-500 focus:outline-none"
+                />
+                <button
+                  type="button"
+                  onClick={() => updateField('nonConcessionalLumpSums', lumpSums.filter((_, i) => i !== index))}
+                  className="text-sm text-red-600 hover:text-red-700"
+                >
+                  Remove
+                </button>
+              </div>
+            ))}
+            <button
+              type="button"
+              onClick={() => updateField('nonConcessionalLumpSums', [...lumpSums, { age: 50, amount: 0 }])}
+              className="text-sm text-blue-600 hover:text-blue-700 underline"
+            >
+              Add a lump sum
+            </button>
+            <p className="text-sm text-gray-500">
+              E.g. an inheritance or the proceeds of a sale. Amounts over the cap are left out of the projection.
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <label className="block text-lg font-semibold text-gray-700">
+              Contributions to your partner's super (yearly)
+            </label>
+            <CurrencyInput
+              value={value.spouseContributionYearly || 0}
+              onChange={(amount) => updateField('spouseContributionYearly', amount)}
+              placeholder="0"
+              className="w-full px-4 py-3 border-2 border-gray-200 rounded-lg text-lg focus:border-blue-500 focus:outline-none transition-colors"
+            />
+            <p className="text-sm text-gray-500">
+              If your partner earns under ${spouseOffset.incomeLimit.toLocaleString()}, you get a tax offset of up to{' '}
+              ${(spouseOffset.maxContribution * spouseOffset.rate).toLocaleString()} on the first ${spouseOffset.maxContribution.toLocaleString()} you contribute
+            </p>
+          </div>
+
           {/* Fee Impact Calculator */}
           <div className="bg-gray-50 rounded-lg p-4">
             <h5 className="font-semibold text-gray-700 mb-3">Fee Impact Over Time</h5>
@@ -9,13 +9,15 @@ import type { CapBarProps } from '../../types/planner'
 interface BasicCapIndicatorProps extends Omit<CapBarProps, 'suggestedMonthly'> {
   currentMonthly: number
   suggestedMonthly: number
+  carryForward?: number                  // unused cap from earlier years included in usagePct
 }
 
 export const BasicCapIndicator: React.FC<BasicCapIndicatorProps> = ({
   usagePct,
   capLabel,
   currentMonthly,
-  suggestedMonthly
+  suggestedMonthly,
+  carryForward = 0
 }) => {
   // Determine status based on usage
   const getStatus = () => {
@@ -90,6 +92,12 @@ export const BasicCapIndicator: React.FC<BasicCapIndicatorProps> = ({
         </div>
       </div>
 
+      {carryForward > 0 && (
+        <p className="text-sm text-gray-600 mb-3">
+          Includes ${Math.round(carryForward).toLocaleString()} of unused cap carried forward from earlier years
+        </p>
+      )}
+
       {/* Status Message */}
       <div className={`flex items-center space-x-2 ${config.textColor}`}>
         <span className="text-sm">{config.icon}</span>
@@ -9,6 +9,7 @@ import { useAuth } from './AuthContext' // Assuming existing auth context
 import { db } from '../firebase/config' // Assuming existing Firebase config
 import type { AppSettings } from '../types/planner'
 import { createDefaultSettings, appSettingsSchema } from '../schemas/planner'
+import { getTaxParameters } from '../simulation/data/taxParameters'
 
 interface SettingsContextValue {
   settings: AppSettings
@@ -191,8 +192,8 @@ export const useAssumptionPresets = () => {
 // Default settings for new installations
 export const DEFAULT_SETTINGS: AppSettings = {
   // Editable defaults
-  concessionalCapYearly: 27500,
-  concessionalCapLabel: 'Concessional cap (FY 2025–26)',
+  concessionalCapYearly: getTaxParameters().superannuation.concessionalCap,
+  concessionalCapLabel: `Concessional cap (FY ${getTaxParameters().financialYear})`,
   defaultSuperOption: 'HighGrowth',
   twoETFDefaultWeights: { aus: 0.4, global: 0.6 },
   
@@ -3,6 +3,7 @@
  */
 
 import React, { createContext, useContext, useState } from 'react'
+import { getTaxParameters } from '../simulation/data/taxParameters'
 
 interface AppSettings {
   concessionalCap: number
@@ -31,11 +32,11 @@ interface SettingsProviderProps {
 }
 
 export const SettingsProvider: React.FC<SettingsProviderProps> = ({ children }) => {
-  const [settings] = useState<AppSettings>({
-    concessionalCap: 27500,
+  const [settings] = useState<AppSettings>(() => ({
+    concessionalCap: getTaxParameters().superannuation.concessionalCap,
     preservationAge: 60,
-    sgRate: 0.11
-  })
+    sgRate: getTaxParameters().superannuation.guaranteeRate
+  }))
   const [loading] = useState(false)
 
   const updateSettings = async (updates: Partial<AppSettings>) => {
@@ -30,6 +30,7 @@ const initialPlannerState = {
   buffers: {
     emergencyFund: 10000
   },
+  partner: null,  // set when planning as a couple
   scenarioName: 'My Retirement Plan'
 }
 
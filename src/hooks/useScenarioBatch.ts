@@ -0,0 +1,92 @@
+/**
+ * Custom hook for simulating a list of saved scenarios in parallel
+ * Feeds live KPIs to the scenario list from a shared worker pool
+ */
+
+import { useEffect, useState } from 'react'
+import type { AppSettings, ScenarioKPIs } from '../types/planner'
+import { createWorkerPool, type JobPriority, type WorkerPool } from '../simulation/workerPool'
+import { isCancelledError } from '../simulation/workerProtocol'
+import { getScenarioPlannerState, type PropertyScenario } from '../utils/scenarioManager'
+
+export interface ScenarioRunState {
+  status: 'queued' | 'running' | 'done' | 'error'
+  kpis?: ScenarioKPIs
+  error?: string
+}
+
+interface ScenarioBatchOptions {
+  settings?: Partial<AppSettings>
+  highPriorityIds?: string[]             // e.g. the scenarios currently on screen
+}
+
+// One pool for the whole app, so every list shares its workers and cache
+let sharedPool: WorkerPool | null = null
+
+const getSharedPool = (): WorkerPool | null => {
+  if (typeof Worker === 'undefined') return null
+  if (!sharedPool) sharedPool = createWorkerPool()
+  return sharedPool
+}
+
+// Saving a scenario updates lastModified, which retires its cached result
+const getCacheKey = (scenario: PropertyScenario, settings?: Partial<AppSettings>) =>
+  `${scenario.id}:${scenario.lastModified}${settings ? `:${JSON.stringify(settings)}` : ''}`
+
+export const useScenarioBatch = (
+  scenarios: PropertyScenario[],
+  { settings, highPriorityIds = [] }: ScenarioBatchOptions = {}
+): Record<string, ScenarioRunState> => {
+  const [runs, setRuns] = useState<Record<string, ScenarioRunState>>({})
+  const priorityKey = highPriorityIds.join(',')
+
+  useEffect(() => {
+    const pool = getSharedPool()
+    if (!pool || scenarios.length === 0) {
+      setRuns({})
+      return
+    }
+
+    const controller = new AbortController()
+    const update = (id: string, next: ScenarioRunState) =>
+      setRuns(current => ({ ...current, [id]: next }))
+
+    setRuns(Object.fromEntries(scenarios.map(scenario => [scenario.id, { status: 'queued' } as ScenarioRunState])))
+
+    scenarios.forEach(scenario => {
+      let plannerState
+      try {
+        plannerState = getScenarioPlannerState(scenario)
+      } catch (err) {
+        update(scenario.id, { status: 'error', error: err instanceof Error ? err.message : String(err) })
+        return
+      }
+
+      const priority: JobPriority = highPriorityIds.includes(scenario.id) ? 'high' : 'low'
+      let started = false
+
+      pool.run('SIMULATE_SCENARIO', { plannerState, settings }, {
+        priority,
+        cacheKey: getCacheKey(scenario, settings),
+        signal: controller.signal,
+        onProgress: () => {
+          if (started) return
+          started = true
+          update(scenario.id, { status: 'running' })
+        }
+      })
+        .then(result => update(scenario.id, { status: 'done', kpis: result.kpis }))
+        .catch(error => {
+          if (isCancelledError(error)) return
+          console.error('[ScenarioBatch] Scenario simulation failed:', scenario.name, error)
+          update(scenario.id, { status: 'error', error: error instanceof Error ? error.message : 'Simulation failed' })
+        })
+    })
+
+    // A new list (or unmount) drops whatever is still queued for the old one; the priority
+    // list is compared by value so a re-rendered array doesn't restart the batch
+    return () => controller.abort()
+  }, [scenarios, settings, priorityKey])
+
+  return runs
+}
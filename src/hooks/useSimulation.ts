@@ -1,77 +1,71 @@
 /**
- * Simulation Hook - Demo implementation
+ * Simulation Hook - runs the month-by-month projection engine
+ * Runs in the simulation worker when it's available, so typing never blocks on a projection
  */
 
-import { useState, useCallback } from 'react'
+import { useState, useCallback, useRef } from 'react'
+import { runScenario } from '../simulation/runScenario'
+import { createDefaultSettings } from '../schemas/planner'
+import { migratePlannerState } from '../utils/plannerMigration'
+import { isCancelledError, useSimulationWorker } from './useSimulationWorker'
+import type { AppSettings, PlannerState, ScenarioResult } from '../types/planner'
 
-export interface ScenarioResult {
-  kpis: {
-    canRetire?: boolean
-    netWorthAtRetirement?: number
-    incomeReplacementRatio?: number
-    monthlySavingsRequired?: number
-  }
-  series: {
-    month: number[]
-    age?: number[]
-    netWorth: number[]
-    superBalance: number[]
-    outsideSuperBalance: number[]
-    cashBalance?: number[]
-    propertyValue?: number[]
-    loanBalance?: number[]
-    dcaPaused?: boolean[]
-  }
-  timestamp?: number
-}
+export type { ScenarioResult }
 
 export const useSimulation = () => {
   const [result, setResult] = useState<ScenarioResult | null>(null)
   const [loading, setLoading] = useState(false)
   const [progress, setProgress] = useState(0)
   const [error, setError] = useState<string | null>(null)
+  const { runScenario: runInWorker, workerStatus } = useSimulationWorker()
+  const activeRunRef = useRef<AbortController | null>(null)
+
+  // Accepts the canonical PlannerState or any legacy shape the wizard still produces.
+  // Starting a run cancels the previous one, so results always match the latest inputs.
+  const runSimulation = useCallback(async (plannerState: PlannerState | Record<string, any>, settings?: Partial<AppSettings>) => {
+    activeRunRef.current?.abort()
+    const controller = new AbortController()
+    activeRunRef.current = controller
 
-  const runSimulation = useCallback(async (plannerState: any, settings: any) => {
     setLoading(true)
     setError(null)
     setProgress(0)
 
     try {
-      // Simulate progress
-      const progressInterval = setInterval(() => {
-        setProgress(prev => Math.min(prev + 10, 90))
-      }, 100)
+      // Fill anything the caller's settings don't provide (e.g. assumption presets)
+      const appSettings = { ...createDefaultSettings(), ...settings } as AppSettings
+      let scenarioResult: ScenarioResult
 
-      // Simulate calculation time
-      await new Promise(resolve => setTimeout(resolve, 1500))
-      clearInterval(progressInterval)
-      setProgress(100)
+      if (workerStatus === 'ready') {
+        scenarioResult = await runInWorker(plannerState, appSettings, {
+          signal: controller.signal,
+          onProgress: (pct) => setProgress(pct)
+        })
+      } else {
+        // Yield once so the loading state can render before the projection runs
+        await new Promise(resolve => setTimeout(resolve, 0))
+        if (controller.signal.aborted) return null
 
-      // Mock result
-      const mockResult: ScenarioResult = {
-        kpis: {
-          canRetire: true,
-          netWorthAtRetirement: 1250000,
-          incomeReplacementRatio: 75,
-          monthlySavingsRequired: 0
-        },
-        series: {
-          month: Array.from({ length: 300 }, (_, i) => i),
-          netWorth: Array.from({ length: 300 }, (_, i) => 50000 + (i * 2000) + Math.random() * 10000),
-          superBalance: Array.from({ length: 300 }, (_, i) => 30000 + (i * 1200)),
-          outsideSuperBalance: Array.from({ length: 300 }, (_, i) => 20000 + (i * 800)),
-        },
-        timestamp: Date.now()
+        scenarioResult = runScenario(migratePlannerState(plannerState, appSettings), appSettings, {
+          onProgress: (pct) => setProgress(pct)
+        })
       }
 
-      setResult(mockResult)
+      setResult(scenarioResult)
+      return scenarioResult
     } catch (err) {
-      setError('Simulation failed')
+      if (isCancelledError(err)) return null
+      setError(err instanceof Error ? err.message : 'Simulation failed')
+      return null
     } finally {
-      setLoading(false)
-      setProgress(0)
+      // A newer run owns the loading state once this one is superseded
+      if (activeRunRef.current === controller) {
+        activeRunRef.current = null
+        setLoading(false)
+        setProgress(0)
+      }
     }
-  }, [])
+  }, [runInWorker, workerStatus])
 
   return {
     runSimulation,
@@ -80,4 +74,4 @@ export const useSimulation = () => {
     progress,
     error
   }
-}
\ No newline at end of file
+}
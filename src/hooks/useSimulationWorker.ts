@@ -4,62 +4,67 @@
  */
 
 import { useEffect, useRef, useCallback, useState } from 'react'
-import type { PlannerState } from '../types/planner'
-
-interface SimulationResults {
-  success: boolean
-  simulation?: {
-    years: number[]
-    superBalance: number[]
-    etfPortfolio: number[]
-    propertyValue: number[]
-    totalAssets: number[]
-    annualIncome: number[]
-    monthlyIncome: number[]
-    bufferBalance: number[]
-  }
-  metrics?: {
-    canRetire: boolean
-    finalAssets: number
-    finalAnnualIncome: number
-    finalMonthlyIncome: number
-    incomeReplacement: number
-    targetIncome: number
-    shortfall: number
-    assetBreakdown: {
-      super: number
-      etf: number
-      property: number
-      buffer: number
-    }
-    totalContributions: {
-      super: number
-      etf: number
-      property: number
-      buffer: number
-    }
-    yearsToRetirement: number
-    projectedRetirementAge: number
-  }
-  error?: string
-  timestamp: string
+import type { AppSettings, PlannerState, ScenarioResult, SensitivityVariable } from '../types/planner'
+import { migratePlannerState } from '../utils/plannerMigration'
+import { createCancelledError } from '../simulation/workerProtocol'
+import { DEFAULT_PATHS, MAX_PATHS } from '../simulation/monteCarlo'
+import type {
+  SimulationResults,
+  WorkerJobRequest,
+  WorkerJobs,
+  WorkerJobType,
+  WorkerRequest,
+  WorkerResponse
+} from '../simulation/workerProtocol'
+
+export { isCancelledError } from '../simulation/workerProtocol'
+export type { SimulationResults }
+
+// Monte Carlo runs get a fixed allowance plus this much per path, generous for slower devices
+const MONTE_CARLO_BASE_TIMEOUT_MS = 30000
+const MONTE_CARLO_TIMEOUT_PER_PATH_MS = 100
+
+// Per-call controls: abort a run that's no longer wanted, and follow its progress (0-100)
+export interface RunControl {
+  signal?: AbortSignal
+  onProgress?: (progress: number, completed: number) => void
+}
+
+interface MonteCarloRunOptions extends RunControl {
+  paths?: number
+  seed?: number
+  settings?: Partial<AppSettings>
+}
+
+interface SensitivityRunOptions extends RunControl {
+  deltas?: Partial<Record<SensitivityVariable, number>>
+  settings?: Partial<AppSettings>
 }
 
 interface UseSimulationWorkerReturn {
-  runSimulation: (plannerState: PlannerState) => Promise<SimulationResults>
+  runScenario: (plannerState: PlannerState | Record<string, any>, settings?: Partial<AppSettings>, control?: RunControl) => Promise<ScenarioResult>
+  runSimulation: (plannerState: PlannerState | Record<string, any>, control?: RunControl) => Promise<SimulationResults>
+  runMonteCarlo: (plannerState: PlannerState | Record<string, any>, options?: MonteCarloRunOptions) => Promise<ScenarioResult>
+  runBacktest: (plannerState: PlannerState | Record<string, any>, settings?: Partial<AppSettings>, control?: RunControl) => Promise<ScenarioResult>
+  solveGoals: (plannerState: PlannerState | Record<string, any>, settings?: Partial<AppSettings>, control?: RunControl) => Promise<ScenarioResult>
+  runSensitivity: (plannerState: PlannerState | Record<string, any>, options?: SensitivityRunOptions) => Promise<ScenarioResult>
   isRunning: boolean
   lastResults: SimulationResults | null
   error: string | null
   workerStatus: 'initializing' | 'ready' | 'error' | 'terminated'
 }
 
+interface PendingRequest {
+  resolve: (value: unknown) => void
+  reject: (error: Error) => void
+  onProgress?: RunControl['onProgress']
+  cleanup: () => void
+}
+
 export const useSimulationWorker = (): UseSimulationWorkerReturn => {
   const workerRef = useRef<Worker | null>(null)
   const messageIdRef = useRef(0)
-  const pendingRequestsRef = useRef<Map<number, {
-    resolve: (value: SimulationResults) => void
-    reject: (error: Error) => void
-  }>>(new Map())
+  const pendingRequestsRef = useRef<Map<number, PendingRequest>>(new Map())
 
   const [isRunning, setIsRunning] = useState(false)
   const [lastResults, setLastResults] = useState<SimulationResults | null>(null)
@@ -75,25 +80,36 @@ export const useSimulationWorker = (): UseSimulationWorkerReturn => {
     }
 
     try {
-      // Create worker from public path
-      workerRef.current = new Worker('/workers/simulationWorker.js')
+      // Bundled as a module worker so it can share the simulation engine
+      workerRef.current = new Worker(new URL('../simulation/simulationWorker.ts', import.meta.url), { type: 'module' })
       
       // Handle worker messages
-      workerRef.current.onmessage = (e) => {
-        const { type, payload, id } = e.data
+      workerRef.current.onmessage = (e: MessageEvent<WorkerResponse>) => {
+        const message = e.data
 
-        switch (type) {
+        switch (message.type) {
           case 'WORKER_READY':
             setWorkerStatus('ready')
             setError(null)
             break
 
-          case 'SIMULATION_COMPLETE':
-            handleSimulationComplete(id, payload)
+          case 'PROGRESS':
+            pendingRequestsRef.current.get(message.id)?.onProgress?.(message.payload.progress, message.payload.completed)
+            break
+
+          case 'COMPLETE':
+            if (message.job === 'SIMULATE_RETIREMENT' && pendingRequestsRef.current.has(message.id)) {
+              setLastResults(message.payload)
+            }
+            handleComplete(message.id, message.payload)
+            break
+
+          case 'CANCELLED':
+            settleRequest(message.id)?.reject(createCancelledError())
             break
 
           case 'ERROR':
-            handleWorkerError(id, payload.error)
+            handleWorkerError(message.id, message.payload.error)
             break
 
           case 'PONG':
@@ -102,7 +118,7 @@ export const useSimulationWorker = (): UseSimulationWorkerReturn => {
             break
 
           default:
-            console.warn(`Unknown worker message type: ${type}`)
+            console.warn(`Unknown worker message type: ${(message as { type: string }).type}`)
         }
       }
 
@@ -136,35 +152,52 @@ export const useSimulationWorker = (): UseSimulationWorkerReturn => {
       }
       
       // Reject any pending requests
-      pendingRequestsRef.current.forEach(({ reject }) => {
+      pendingRequestsRef.current.forEach(({ reject, cleanup }) => {
+        cleanup()
         reject(new Error('Worker terminated'))
       })
       pendingRequestsRef.current.clear()
     }
   }, [])
 
-  const handleSimulationComplete = useCallback((id: number, results: SimulationResults) => {
+  // Forget a request once it has an outcome; late messages for it are ignored
+  const settleRequest = useCallback((id: number) => {
     const request = pendingRequestsRef.current.get(id)
+    if (!request) return undefined
+
+    pendingRequestsRef.current.delete(id)
+    request.cleanup()
+    setIsRunning(pendingRequestsRef.current.size > 0)
+    return request
+  }, [])
+
+  const handleComplete = useCallback((id: number, result: unknown) => {
+    const request = settleRequest(id)
     if (request) {
-      pendingRequestsRef.current.delete(id)
-      setLastResults(results)
-      setIsRunning(false)
       setError(null)
-      request.resolve(results)
+      request.resolve(result)
     }
-  }, [])
+  }, [settleRequest])
 
   const handleWorkerError = useCallback((id: number, errorMessage: string) => {
-    const request = pendingRequestsRef.current.get(id)
+    const request = settleRequest(id)
     if (request) {
-      pendingRequestsRef.current.delete(id)
       setError(errorMessage)
-      setIsRunning(false)
       request.reject(new Error(errorMessage))
     }
-  }, [])
+  }, [settleRequest])
 
-  const runSimulation = useCallback(async (plannerState: PlannerState): Promise<SimulationResults> => {
+  const postRequest = (request: WorkerRequest) => workerRef.current?.postMessage(request)
+
+  // Validate, migrate and post a job; resolves with the worker's result for it
+  const sendRequest = useCallback(<K extends WorkerJobType>(
+    type: K,
+    plannerState: PlannerState | Record<string, any>,
+    settings: Partial<AppSettings> | undefined,
+    buildPayload: (canonicalState: PlannerState) => WorkerJobs[K]['payload'],
+    timeoutMs: number,
+    { signal, onProgress }: RunControl = {}
+  ): Promise<WorkerJobs[K]['result']> => {
     return new Promise((resolve, reject) => {
       if (!workerRef.current) {
         reject(new Error('Worker not initialized'))
@@ -176,15 +209,29 @@ export const useSimulationWorker = (): UseSimulationWorkerReturn => {
         return
       }
 
+      if (signal?.aborted) {
+        reject(createCancelledError())
+        return
+      }
+
       // Validate planner state
       if (!plannerState) {
         reject(new Error('Planner state is required'))
         return
       }
 
-      const requiredFields = ['goalSetter', 'income', 'super', 'portfolio', 'property', 'buffers']
+      // Legacy shapes (wizard state, saved scenarios) are migrated before validation
+      let canonicalState: PlannerState
+      try {
+        canonicalState = migratePlannerState(plannerState, settings)
+      } catch (err) {
+        reject(err instanceof Error ? err : new Error(String(err)))
+        return
+      }
+
+      const requiredFields = ['goal', 'incomeExpense', 'super', 'properties', 'portfolio', 'buffers']
       for (const field of requiredFields) {
-        if (!plannerState[field as keyof PlannerState]) {
+        if (!canonicalState[field as keyof PlannerState]) {
           reject(new Error(`Missing required field: ${field}`))
           return
         }
@@ -192,46 +239,133 @@ export const useSimulationWorker = (): UseSimulationWorkerReturn => {
 
       // Generate unique message ID
       const messageId = ++messageIdRef.current
-      
+
+      // Drop the job if it's still queued; if it's already running, stop waiting for it
+      const cancel = (reason: Error) => {
+        const request = settleRequest(messageId)
+        if (request) {
+          postRequest({ type: 'CANCEL', id: messageId })
+          request.reject(reason)
+        }
+      }
+      const onAbort = () => cancel(createCancelledError())
+
+      // Set timeout for long-running simulations
+      const timer = setTimeout(() => {
+        cancel(new Error(`Simulation timeout - took longer than ${timeoutMs / 1000} seconds`))
+      }, timeoutMs)
+
       // Store the promise handlers
-      pendingRequestsRef.current.set(messageId, { resolve, reject })
-      
+      pendingRequestsRef.current.set(messageId, {
+        resolve: value => resolve(value as WorkerJobs[K]['result']),
+        reject,
+        onProgress,
+        cleanup: () => {
+          clearTimeout(timer)
+          signal?.removeEventListener('abort', onAbort)
+        }
+      })
+      signal?.addEventListener('abort', onAbort)
+
       // Set running state
       setIsRunning(true)
       setError(null)
 
       // Send simulation request to worker
       try {
-        workerRef.current.postMessage({
-          type: 'SIMULATE_RETIREMENT',
-          payload: plannerState,
+        postRequest({
+          type,
+          payload: buildPayload(canonicalState),
           id: messageId
-        })
+        } as WorkerJobRequest)
       } catch (err) {
         // Clean up on send error
-        pendingRequestsRef.current.delete(messageId)
-        setIsRunning(false)
+        settleRequest(messageId)
         reject(new Error(`Failed to send simulation request: ${err}`))
       }
-
-      // Set timeout for long-running simulations
-      setTimeout(() => {
-        const request = pendingRequestsRef.current.get(messageId)
-        if (request) {
-          pendingRequestsRef.current.delete(messageId)
-          setIsRunning(false)
-          reject(new Error('Simulation timeout - took longer than 30 seconds'))
-        }
-      }, 30000)
     })
-  }, [workerStatus])
+  }, [workerStatus, settleRequest])
+
+  // The engine's full monthly result, for the planner's live projection
+  const runScenario = useCallback((
+    plannerState: PlannerState | Record<string, any>,
+    settings?: Partial<AppSettings>,
+    control?: RunControl
+  ) => {
+    return sendRequest('SIMULATE_SCENARIO', plannerState, settings, state => ({ plannerState: state, settings }), 30000, control)
+  }, [sendRequest])
+
+  const runSimulation = useCallback((plannerState: PlannerState | Record<string, any>, control?: RunControl) => {
+    return sendRequest('SIMULATE_RETIREMENT', plannerState, undefined, state => state, 30000, control)
+  }, [sendRequest])
+
+  // Stochastic run; the timeout grows with the number of paths
+  const runMonteCarlo = useCallback((
+    plannerState: PlannerState | Record<string, any>,
+    { paths, seed, settings, ...control }: MonteCarloRunOptions = {}
+  ) => {
+    return sendRequest(
+      'SIMULATE_MONTE_CARLO',
+      plannerState,
+      settings,
+      state => ({ plannerState: state, settings, options: { paths, seed } }),
+      MONTE_CARLO_BASE_TIMEOUT_MS + Math.min(MAX_PATHS, paths ?? DEFAULT_PATHS) * MONTE_CARLO_TIMEOUT_PER_PATH_MS,
+      control
+    )
+  }, [sendRequest])
+
+  // Replays the plan through each historical start year in the bundled dataset
+  const runBacktest = useCallback((
+    plannerState: PlannerState | Record<string, any>,
+    settings?: Partial<AppSettings>,
+    control?: RunControl
+  ) => {
+    return sendRequest(
+      'SIMULATE_BACKTEST',
+      plannerState,
+      settings,
+      state => ({ plannerState: state, settings }),
+      30000,
+      control
+    )
+  }, [sendRequest])
+
+  // Re-runs the projection a few dozen times to solve for savings, retirement age and spend
+  const solveGoals = useCallback((
+    plannerState: PlannerState | Record<string, any>,
+    settings?: Partial<AppSettings>,
+    control?: RunControl
+  ) => {
+    return sendRequest(
+      'SOLVE_GOALS',
+      plannerState,
+      settings,
+      state => ({ plannerState: state, settings }),
+      30000,
+      control
+    )
+  }, [sendRequest])
+
+  // One projection per input nudged each way, for the tornado chart
+  const runSensitivity = useCallback((
+    plannerState: PlannerState | Record<string, any>,
+    { deltas, settings, ...control }: SensitivityRunOptions = {}
+  ) => {
+    return sendRequest(
+      'SIMULATE_SENSITIVITY',
+      plannerState,
+      settings,
+      state => ({ plannerState: state, settings, options: { deltas } }),
+      30000,
+      control
+    )
+  }, [sendRequest])
 
   // Health check function
   const healthCheck = useCallback(() => {
     if (workerRef.current && workerStatus === 'ready') {
-      workerRef.current.postMessage({
+      postRequest({
         type: 'PING',
-        payload: {},
         id: 0
       })
     }
@@ -244,7 +378,12 @@ export const useSimulationWorker = (): UseSimulationWorkerReturn => {
   }, [healthCheck])
 
   return {
+    runScenario,
     runSimulation,
+    runMonteCarlo,
+    runBacktest,
+    solveGoals,
+    runSensitivity,
     isRunning,
     lastResults,
     error,
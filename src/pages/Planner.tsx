@@ -13,7 +13,7 @@ import { PlannerModules } from '../components/planner/PlannerModulesSimple'
 import { Results } from '../components/planner/ResultsSimple'
 import { LoadingSpinner } from '../components/ui/LoadingSpinner'
 import { ErrorBoundary } from '../components/ui/ErrorBoundary'
-import { useSimulation } from '../hooks/useSimulation.js'
+import { useSimulation } from '../hooks/useSimulation'
 import { usePlannerState } from '../hooks/usePlannerState.js'
 import type { PlannerState, ScenarioResult } from '../types/planner'
 
@@ -439,12 +439,14 @@ const Planner: React.FC = () => {
                 property={plannerState.property}
                 portfolio={plannerState.portfolio}
                 buffers={plannerState.buffers}
+                partner={plannerState.partner}
                 settings={settings}
                 onChangeIncomeExpense={(incomeExpense) => updatePlannerState({ incomeExpense })}
                 onChangeSuper={(superState) => updatePlannerState({ super: superState })}
                 onChangeProperty={(property) => updatePlannerState({ property })}
                 onChangePortfolio={(portfolio) => updatePlannerState({ portfolio })}
                 onChangeBuffers={(buffers) => updatePlannerState({ buffers })}
+                onChangePartner={(partner) => updatePlannerState({ partner })}
                 onComplete={handleFinancialsComplete}
                 onPrevious={handlePrevious}
               />
@@ -480,6 +482,8 @@ const Planner: React.FC = () => {
                 plannerState={plannerState}
                 onExportCSV={handleExportCSV}
                 quickWin={generateQuickWin(result, plannerState)}
+                capitalGains={result.capitalGains}
+                homeSales={result.homeSales}
                 onPrevious={handlePrevious}
                 onLoadScenario={(loadedState) => {
                   console.log('[Planner] Loading scenario from Results:', loadedState)
@@ -523,7 +527,8 @@ const Planner: React.FC = () => {
 function generateCSVFromResult(result: ScenarioResult): string {
   const headers = [
     'Month', 'Age', 'Net Worth', 'Super Balance', 'Outside Super Balance', 
-    'Cash Balance', 'Property Value', 'Loan Balance', 'DCA Paused'
+    'Cash Balance', 'Property Value', 'Loan Balance', 'DCA Paused',
+    'Retirement Drawdown', 'Shortfall', 'Age Pension'
   ]
   
   const rows = result.series.month.map((month, i) => [
@@ -535,7 +540,10 @@ function generateCSVFromResult(result: ScenarioResult): string {
     result.series.cashBalance?.[i]?.toFixed(0) || '',
     result.series.propertyValue?.[i]?.toFixed(0) || '',
     result.series.loanBalance?.[i]?.toFixed(0) || '',
-    result.series.dcaPaused?.[i] ? 'Yes' : 'No'
+    result.series.dcaPaused?.[i] ? 'Yes' : 'No',
+    result.series.retirementDrawdown?.[i]?.toFixed(0) || '',
+    result.series.shortfall?.[i]?.toFixed(0) || '',
+    result.series.agePension?.[i]?.toFixed(0) || ''
   ])
   
   return [headers, ...rows]
@@ -4,6 +4,10 @@
  */
 
 import { z } from 'zod'
+import { getTaxParameters } from '../simulation/data/taxParameters'
+
+// Defaults follow the financial year the app is opened in
+const currentTaxYear = getTaxParameters()
 
 // Core enums
 export const AssumptionPresetEnum = z.enum(['Conservative', 'Base', 'Optimistic'])
@@ -13,6 +17,8 @@ export const LoanTypeEnum = z.enum(['IO', 'PI'])
 export const AllocationPresetEnum = z.enum(['OneETF', 'TwoETF'])
 export const MaritalStatusEnum = z.enum(['single', 'couple', 'family'])
 export const AustralianStateEnum = z.enum(['NSW', 'VIC', 'QLD', 'WA', 'SA', 'TAS', 'ACT', 'NT'])
+export const PropertyUsageEnum = z.enum(['owner-occupied', 'investment'])
+export const PropertyIntentEnum = z.enum(['existing', 'looking-to-buy'])
 
 // Goal setting schema
 export const goalSchema = z.object({
@@ -61,6 +67,17 @@ export const goalSchema = z.object({
 )
 
 // Income and expenses schema
+export const helpDebtSchema = z.object({
+  balance: z.number()
+    .min(0, 'HECS/HELP debt cannot be negative')
+    .max(500000, 'HECS/HELP debt should be under $500,000'),
+
+  voluntaryRepaymentMonthly: z.number()
+    .min(0, 'Voluntary repayments cannot be negative')
+    .max(20000, 'Voluntary repayments should be under $20,000 a month')
+    .optional()
+})
+
 export const incomeExpenseSchema = z.object({
   salary: z.number()
     .min(30000, 'Salary should be at least $30,000')
@@ -78,7 +95,30 @@ export const incomeExpenseSchema = z.object({
     
   expensesMonthly: z.number()
     .min(1000, 'Monthly expenses should be at least $1,000')
-    .max(50000, 'Monthly expenses should be under $50,000')
+    .max(50000, 'Monthly expenses should be under $50,000'),
+
+  helpDebt: helpDebtSchema.optional(),
+
+  privateHealth: z.object({
+    hasHospitalCover: z.boolean(),
+    premiumYearly: z.number()
+      .min(0, 'Premium cannot be negative')
+      .max(30000, 'Premium should be under $30,000 a year')
+  }).optional()
+})
+
+// After-tax lump sum; anything over the bring-forward cap would be taxed as an excess
+const maxBringForward = currentTaxYear.superannuation.nonConcessionalCap * currentTaxYear.superannuation.bringForwardYears
+
+export const nonConcessionalLumpSumSchema = z.object({
+  age: z.number()
+    .min(18, 'Contribution age should be at least 18')
+    .max(currentTaxYear.superannuation.nonConcessionalAgeLimit - 0.01,
+      `After-tax contributions must be made before age ${currentTaxYear.superannuation.nonConcessionalAgeLimit}`),
+
+  amount: z.number()
+    .min(0, 'Contribution cannot be negative')
+    .max(maxBringForward, `A lump sum should be within the $${maxBringForward.toLocaleString()} bring-forward cap`)
 })
 
 // Super schema
@@ -90,7 +130,7 @@ export const superSchema = z.object({
   SGRate: z.number()
     .min(0.09, 'SG rate should be at least 9%')
     .max(0.15, 'SG rate should be under 15%')
-    .default(0.12),
+    .default(currentTaxYear.superannuation.guaranteeRate),
     
   salarySacrificeMonthly: z.number()
     .min(0, 'Salary sacrifice cannot be negative')
@@ -107,16 +147,59 @@ export const superSchema = z.object({
   concessionalCapYearly: z.number()
     .min(25000, 'Concessional cap should be at least $25,000')
     .max(35000, 'Concessional cap should be under $35,000')
-    .default(27500),
+    .default(currentTaxYear.superannuation.concessionalCap),
     
   contributionsTaxPct: z.literal(0.15, {
     errorMap: () => ({ message: 'Contributions tax is fixed at 15% in MVP' })
-  })
+  }),
+
+  concessionalHistory: z.array(z.object({
+    financialYear: z.string().regex(/^\d{4}-\d{2}$/, 'Financial year should look like 2023-24'),
+    contributions: z.number().min(0, 'Contributions cannot be negative')
+  })).optional(),
+
+  nonConcessionalMonthly: z.number()
+    .min(0, 'After-tax contributions cannot be negative')
+    .max(currentTaxYear.superannuation.nonConcessionalCap / 12,
+      `Regular after-tax contributions should stay within the $${currentTaxYear.superannuation.nonConcessionalCap.toLocaleString()} yearly cap`)
+    .optional(),
+
+  nonConcessionalLumpSums: z.array(nonConcessionalLumpSumSchema)
+    .refine(
+      (lumpSums) => lumpSums.every(first => lumpSums
+        .filter(other => other.age >= first.age && other.age < first.age + currentTaxYear.superannuation.bringForwardYears)
+        .reduce((sum, other) => sum + other.amount, 0) <= maxBringForward),
+      {
+        message: `Lump sums within ${currentTaxYear.superannuation.bringForwardYears} years of each other should total no more than $${maxBringForward.toLocaleString()}`
+      }
+    )
+    .optional(),
+
+  spouseContributionYearly: z.number()
+    .min(0, 'Spouse contributions cannot be negative')
+    .max(currentTaxYear.superannuation.nonConcessionalCap, 'Spouse contributions count towards your partner\'s non-concessional cap')
+    .optional()
 })
 
 // Property schema
+export const fhssPlanSchema = z.object({
+  contributionYearly: z.number()
+    .min(0, 'FHSS contributions cannot be negative')
+    .max(currentTaxYear.fhss.annualLimit, `Only $${currentTaxYear.fhss.annualLimit.toLocaleString()} a year counts towards the FHSS scheme`),
+
+  contributionType: z.enum(['concessional', 'non-concessional'])
+})
+
 export const propertySchema = z.object({
-  enabled: z.boolean().default(false),
+  id: z.string().min(1, 'Property id is required'),
+  
+  name: z.string()
+    .max(100, 'Property name should be under 100 characters')
+    .default('Property'),
+    
+  usage: PropertyUsageEnum.default('investment'),
+  intent: PropertyIntentEnum.default('existing'),
+  
   
   value: z.number()
     .min(0, 'Property value cannot be negative')
@@ -178,9 +261,48 @@ export const propertySchema = z.object({
   extraRepaymentMonthly: z.number()
     .min(0, 'Extra repayments cannot be negative')
     .max(100000, 'Monthly extra repayments should be under $100,000')
-    .default(0)
+    .default(0),
+    
+  purchasePrice: z.number()
+    .min(0, 'Purchase price cannot be negative')
+    .optional(),
+    
+  purchaseDate: z.string().optional(),
+  
+  state: AustralianStateEnum.optional(),
+
+  firstHomeBuyer: z.boolean().optional(),
+
+  newHome: z.boolean().optional(),
+
+  foreignPurchaser: z.boolean().optional(),
+
+  landValuePct: z.number()
+    .min(0, 'Land value share cannot be negative')
+    .max(1, 'Land value share cannot exceed 100%')
+    .optional(),
+
+  ownershipShare: z.number()
+    .min(0, 'Ownership share cannot be negative')
+    .max(1, 'Ownership share cannot exceed 100%')
+    .optional(),
+
+  saleAge: z.number()
+    .min(18, 'Sale age should be at least 18')
+    .max(100, 'Sale age should be 100 or under')
+    .optional(),
+
+  downsizeToValue: z.number()
+    .min(0, 'Replacement home price cannot be negative')
+    .optional(),
+
+  downsizerContribution: z.number()
+    .min(0, 'Downsizer contribution cannot be negative')
+    .optional(),
+
+  fhss: fhssPlanSchema.optional()
 }).refine(
-  (data) => !data.enabled || data.loanBalance <= data.value,
+  (data) => data.intent === 'looking-to-buy' || data.loanBalance <= data.value,
   {
     message: 'Loan balance cannot exceed property value',
     path: ['loanBalance']
@@ -188,6 +310,15 @@ export const propertySchema = z.object({
 )
 
 // Portfolio schema
+const etfDistributionSchema = z.object({
+  yieldPct: z.number()
+    .min(0, 'Distribution yield cannot be negative')
+    .max(0.15, 'Distribution yield should be under 15%'),
+  frankingPct: z.number()
+    .min(0, 'Franking cannot be negative')
+    .max(1, 'Franking cannot exceed 100%')
+})
+
 export const portfolioSchema = z.object({
   startingBalance: z.number()
     .min(0, 'Starting balance cannot be negative')
@@ -215,7 +346,16 @@ export const portfolioSchema = z.object({
   feePct: z.number()
     .min(0, 'Fees cannot be negative')
     .max(0.01, 'ETF fees should be under 1%')
-    .default(0.0015)
+    .default(0.0015),
+
+  costBase: z.number()
+    .min(0, 'Cost base cannot be negative')
+    .optional(),
+
+  distributions: z.object({
+    aus: etfDistributionSchema,
+    global: etfDistributionSchema
+  }).optional()
 })
 
 // Buffers schema
@@ -233,12 +373,52 @@ export const buffersSchema = z.object({
     .default(6)
 })
 
+// Partner schema (couple households)
+export const partnerSchema = z.object({
+  name: z.string()
+    .max(50, 'Name should be under 50 characters')
+    .optional(),
+    
+  currentAge: z.number()
+    .int('Age must be a whole number')
+    .min(18, 'Partner must be at least 18 years old')
+    .max(100, 'Please enter a valid age'),
+    
+  retireAge: z.number()
+    .int('Retirement age must be a whole number')
+    .min(18, 'Retirement age must be at least 18')
+    .max(80, 'Retirement age must be under 80'),
+    
+  preservationAge: z.number()
+    .int('Preservation age must be a whole number')
+    .optional(),
+    
+  salary: z.number()
+    .min(0, 'Salary cannot be negative')
+    .max(2000000, 'Salary should be under $2 million'),
+    
+  bonus: z.number()
+    .min(0, 'Bonus cannot be negative')
+    .max(500000, 'Bonus should be under $500,000')
+    .optional(),
+    
+  wageGrowthPct: z.number()
+    .min(0, 'Wage growth cannot be negative')
+    .max(0.15, 'Wage growth should be under 15% per year')
+    .optional(),
+
+  helpDebt: helpDebtSchema.optional(),
+    
+  super: superSchema
+})
+
 // Complete planner state schema
 export const plannerStateSchema = z.object({
+  schemaVersion: z.number().int().default(2),
   goal: goalSchema,
   incomeExpense: incomeExpenseSchema,
   super: superSchema,
-  property: propertySchema,
+  properties: z.array(propertySchema).default([]),
   portfolio: portfolioSchema,
   buffers: buffersSchema,
   preservation: z.object({
@@ -246,6 +426,7 @@ export const plannerStateSchema = z.object({
       .int('Preservation age must be a whole number')
       .default(60)
   }),
+  partner: partnerSchema.optional(),
   
   // Metadata
   scenarioName: z.string()
@@ -263,17 +444,17 @@ export const appSettingsSchema = z.object({
   concessionalCapYearly: z.number()
     .min(25000)
     .max(35000)
-    .default(27500),
+    .default(currentTaxYear.superannuation.concessionalCap),
     
   concessionalCapLabel: z.string()
-    .default('Concessional cap (FY 2025–26)'),
+    .default(`Concessional cap (FY ${currentTaxYear.financialYear})`),
     
   defaultSuperOption: SuperOptionEnum.default('HighGrowth'),
   
   twoETFDefaultWeights: z.object({
     aus: z.number().min(0).max(1).default(0.4),
     global: z.number().min(0).max(1).default(0.6)
-  }),
+  }).default({}),
   
   // Read-only settings
   preservationAge: z.number().default(60),
@@ -281,7 +462,7 @@ export const appSettingsSchema = z.object({
   defaultBuffers: z.object({
     emergencyMonths: z.number().default(6),
     propertyMonths: z.number().default(6)
-  }),
+  }).default({}),
   
   defaultPropertyCosts: z.object({
     mgmtFeePct: z.number().default(0.07),
@@ -289,7 +470,7 @@ export const appSettingsSchema = z.object({
     councilRatesYearly: z.number().default(1800),
     maintenancePctOfRent: z.number().default(0.05),
     vacancyPct: z.number().default(0.02)
-  }),
+  }).default({}),
   
   assumptionPresets: z.object({
     Conservative: z.object({
@@ -298,22 +479,22 @@ export const appSettingsSchema = z.object({
       propertyGrowth: z.number().default(0.04),
       inflation: z.number().default(0.025),
       wageGrowth: z.number().default(0.025)
-    }),
+    }).default({}),
     Base: z.object({
       superReturns: z.number().default(0.07),
       etfReturns: z.number().default(0.075),
       propertyGrowth: z.number().default(0.05),
       inflation: z.number().default(0.03),
       wageGrowth: z.number().default(0.03)
-    }),
+    }).default({}),
     Optimistic: z.object({
       superReturns: z.number().default(0.08),
       etfReturns: z.number().default(0.085),
       propertyGrowth: z.number().default(0.06),
       inflation: z.number().default(0.035),
       wageGrowth: z.number().default(0.035)
-    })
-  }),
+    }).default({})
+  }).default({}),
   
   currencySymbol: z.string().default('$'),
   dateFormat: z.string().default('DD/MM/YYYY')
@@ -368,7 +549,7 @@ export const createDefaultPlannerState = (settings?: Partial<z.infer<typeof appS
     },
     super: {
       balance: 150000,
-      SGRate: 0.12,
+      SGRate: currentTaxYear.superannuation.guaranteeRate,
       option: defaultSettings.defaultSuperOption,
       concessionalCapYearly: defaultSettings.concessionalCapYearly
     },
@@ -3,20 +3,23 @@
  */
 
 import { z } from 'zod'
+import { getTaxParameters } from '../simulation/data/taxParameters'
+
+const { superannuation } = getTaxParameters()
 
 // App Settings Schema
 export const appSettingsSchema = z.object({
-  concessionalCap: z.number().default(27500),
+  concessionalCap: z.number().default(superannuation.concessionalCap),
   preservationAge: z.number().default(60),
-  sgRate: z.number().default(0.11)
+  sgRate: z.number().default(superannuation.guaranteeRate)
 })
 
 export type AppSettings = z.infer<typeof appSettingsSchema>
 
 export const createDefaultSettings = (): AppSettings => ({
-  concessionalCap: 27500,
+  concessionalCap: superannuation.concessionalCap,
   preservationAge: 60,
-  sgRate: 0.11
+  sgRate: superannuation.guaranteeRate
 })
 
 // Basic validation function
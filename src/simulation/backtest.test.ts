@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest'
+import { buildHistoricalPath, runBacktest } from './backtest'
+import type { HistoricalYear } from './data/historicalReturns'
+import { createDefaultPlannerState, type AppSettings, type PlannerState } from '../types/planner'
+import { createDefaultSettings } from '../schemas/planner'
+
+const settings = createDefaultSettings() as AppSettings
+const startDate = new Date(2026, 6, 1)
+
+const base = createDefaultPlannerState(settings)
+const state: PlannerState = {
+  ...base,
+  super: { ...base.super, option: 'Balanced' },
+  portfolio: { ...base.portfolio, weights: { aus: 0.4, global: 0.6 } }
+}
+
+const data: HistoricalYear[] = [
+  { year: 2000, asx200: 0.10, globalEquities: 0.20, auProperty: 0.05, cpi: 0.03 },
+  { year: 2001, asx200: -0.20, globalEquities: -0.10, auProperty: 0.02, cpi: 0.02 },
+  { year: 2002, asx200: 0.30, globalEquities: 0.15, auProperty: 0.08, cpi: 0.025 }
+]
+
+describe('buildHistoricalPath', () => {
+  it('blends the index returns into the plan\'s allocations', () => {
+    const path = buildHistoricalPath(state, settings, data, 0, 1)
+    const shares = 0.10 * 0.4 + 0.20 * 0.6
+
+    expect(path.etfReturns[0]).toBeCloseTo(shares)
+    expect(path.superReturns[0]).toBeCloseTo(shares * 0.7 + (0.03 + 0.015) * 0.3)
+    expect(path.propertyGrowth[0]).toBe(0.05)
+    expect(path.inflation![0]).toBe(0.03)
+  })
+
+  it('wraps to the start of the data', () => {
+    const path = buildHistoricalPath(state, settings, data, 2, 3)
+    expect(path.inflation).toEqual([0.025, 0.03, 0.02])
+  })
+})
+
+describe('runBacktest', () => {
+  it('replays one window per start year', () => {
+    const { backtest } = runBacktest(state, settings, { data, startDate })
+
+    expect(backtest!.dataRange).toEqual({ from: 2000, to: 2002 })
+    expect(backtest!.windows.map(w => w.startYear)).toEqual([2000, 2001, 2002])
+    expect(backtest!.windows.every(w => w.wrapped)).toBe(true)
+    expect(backtest!.windows).toContain(backtest!.worstWindow)
+    expect(backtest!.successRate).toBe(backtest!.windows.filter(w => w.success).length / 3)
+  })
+
+  it('rejects an empty dataset', () => {
+    expect(() => runBacktest(state, settings, { data: [], startDate })).toThrow('historical dataset is empty')
+  })
+})
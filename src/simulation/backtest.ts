@@ -0,0 +1,130 @@
+/**
+ * Historical backtesting mode
+ * Replays the plan through every rolling window of the bundled Australian market data
+ */
+
+import type {
+  AppSettings,
+  BacktestSummary,
+  BacktestWindow,
+  PlannerState,
+  ScenarioResult,
+  SuperOption
+} from '../types/planner'
+import type { ReturnPath } from './types'
+import { PROJECTION_END_AGE, runScenario } from './runScenario'
+import { getProjectionEndAge } from './household'
+import { HISTORICAL_RETURNS } from './data/historicalReturns'
+import type { HistoricalYear } from './data/historicalReturns'
+
+// Share of each super option invested in shares; the rest is treated as defensive
+const SUPER_GROWTH_SHARE: Record<SuperOption, number> = {
+  Balanced: 0.7,
+  Growth: 0.85,
+  HighGrowth: 0.95
+}
+
+// Bonds and cash are not in the dataset, so defensive assets earn CPI plus a margin
+const DEFENSIVE_REAL_RETURN = 0.015
+
+export interface BacktestOptions {
+  data?: HistoricalYear[]
+  startDate?: Date
+  endAge?: number                        // default 100; success means money lasts this long
+  onProgress?: (progress: number, completedWindows: number) => void
+}
+
+/**
+ * Annual return path for one window, blending the raw index series into the plan's allocations
+ * Years past the end of the data continue from the start of the dataset
+ */
+export const buildHistoricalPath = (
+  input: PlannerState,
+  settings: AppSettings,
+  data: HistoricalYear[],
+  startIndex: number,
+  years: number
+): ReturnPath => {
+  const weights = input.portfolio.weights || settings.twoETFDefaultWeights
+  const growthShare = SUPER_GROWTH_SHARE[input.super.option] ?? SUPER_GROWTH_SHARE.HighGrowth
+  const path: ReturnPath = { superReturns: [], etfReturns: [], propertyGrowth: [], inflation: [] }
+
+  for (let i = 0; i < years; i++) {
+    const { asx200, globalEquities, auProperty, cpi } = data[(startIndex + i) % data.length]
+    const shares = asx200 * weights.aus + globalEquities * weights.global
+
+    path.etfReturns.push(shares)
+    path.superReturns.push(shares * growthShare + (cpi + DEFENSIVE_REAL_RETURN) * (1 - growthShare))
+    path.propertyGrowth.push(auProperty)
+    path.inflation!.push(cpi)
+  }
+
+  return path
+}
+
+/**
+ * Run the deterministic projection plus one replay per historical start year
+ * @returns The deterministic result with `backtest` filled in
+ */
+export const runBacktest = (
+  input: PlannerState,
+  settings: AppSettings,
+  options: BacktestOptions = {}
+): ScenarioResult => {
+  const startTime = performance.now()
+  const data = options.data || HISTORICAL_RETURNS
+  if (data.length === 0) {
+    throw new Error('Invalid input: historical dataset is empty')
+  }
+
+  const endAge = options.endAge ?? PROJECTION_END_AGE
+  const scenarioOptions = { startDate: options.startDate, endAge }
+  // A younger partner keeps the replay going past the primary member's end age
+  const years = getProjectionEndAge(input, endAge) - input.goal.currentAge
+  const base = runScenario(input, settings, scenarioOptions)
+  const yearsToRetire = input.goal.retireAge - input.goal.currentAge
+  const windows: BacktestWindow[] = []
+
+  data.forEach((first, startIndex) => {
+    const returnPath = buildHistoricalPath(input, settings, data, startIndex, years)
+    const { kpis } = runScenario(input, settings, { ...scenarioOptions, returnPath })
+    const deflator = returnPath.inflation!
+      .slice(0, yearsToRetire)
+      .reduce((index, cpi) => index * (1 + cpi), 1)
+    const liquidAtRetire = (kpis.superAtRetire + kpis.outsideSuperAtRetire) / deflator
+
+    windows.push({
+      startYear: first.year,
+      retireYear: data[(startIndex + yearsToRetire) % data.length].year,
+      wrapped: startIndex + yearsToRetire >= data.length,
+      netWorthAtRetire: kpis.netWorthAtRetire / deflator,
+      liquidAtRetire,
+      moneyRunsOutAge: kpis.moneyRunsOutAge,
+      success: kpis.moneyRunsOutAge === undefined
+    })
+
+    if (options.onProgress) {
+      options.onProgress(((startIndex + 1) / data.length) * 100, startIndex + 1)
+    }
+  })
+
+  const backtest: BacktestSummary = {
+    dataRange: { from: data[0].year, to: data[data.length - 1].year },
+    windows,
+    successRate: windows.filter(w => w.success).length / windows.length,
+    successAge: endAge,
+    // Earliest depletion is worst; among windows that last, the smallest nest egg
+    worstWindow: windows.reduce((worst, w) => {
+      const depletion = w.moneyRunsOutAge ?? Infinity
+      const worstDepletion = worst.moneyRunsOutAge ?? Infinity
+      if (depletion !== worstDepletion) return depletion < worstDepletion ? w : worst
+      return w.liquidAtRetire < worst.liquidAtRetire ? w : worst
+    })
+  }
+
+  return {
+    ...base,
+    backtest,
+    simulationDurationMs: performance.now() - startTime
+  }
+}
@@ -0,0 +1,64 @@
+/**
+ * Age Pension parameters, versioned by the date each set took effect
+ * Rates are per fortnight and include the pension and energy supplements.
+ * Couple amounts are combined for both partners unless noted.
+ * Add a new entry when Services Australia publishes new rates (March and September).
+ */
+
+export interface AgePensionParameters {
+  effectiveFrom: string                  // ISO date
+  pensionAge: number
+  maxRateFortnightly: { single: number; couple: number }
+  assetsTest: {
+    // Assets allowed before the pension starts to reduce
+    fullPensionLimit: {
+      single: { homeowner: number; nonHomeowner: number }
+      couple: { homeowner: number; nonHomeowner: number }
+    }
+    taperPerThousandFortnightly: number   // pension lost per $1,000 over the limit
+  }
+  incomeTest: {
+    freeAreaFortnightly: { single: number; couple: number }
+    taperRate: number                      // pension lost per $1 over the free area
+  }
+  deeming: {
+    lowerRate: number
+    upperRate: number
+    threshold: { single: number; couple: number }
+  }
+}
+
+export const AGE_PENSION_PARAMETERS: AgePensionParameters[] = [
+  {
+    effectiveFrom: '2024-09-20',
+    pensionAge: 67,
+    maxRateFortnightly: { single: 1144.40, couple: 1725.20 },
+    assetsTest: {
+      fullPensionLimit: {
+        single: { homeowner: 301750, nonHomeowner: 543750 },
+        couple: { homeowner: 451500, nonHomeowner: 693500 }
+      },
+      taperPerThousandFortnightly: 3
+    },
+    incomeTest: {
+      freeAreaFortnightly: { single: 212, couple: 372 },
+      taperRate: 0.5
+    },
+    deeming: {
+      lowerRate: 0.0025,
+      upperRate: 0.0225,
+      threshold: { single: 60400, couple: 100200 }
+    }
+  }
+]
+
+/**
+ * Parameters in force on a date; dates before the first entry use the earliest set
+ */
+export const getAgePensionParameters = (date: Date = new Date()): AgePensionParameters => {
+  const inForce = AGE_PENSION_PARAMETERS
+    .filter(p => new Date(p.effectiveFrom).getTime() <= date.getTime())
+    .sort((a, b) => b.effectiveFrom.localeCompare(a.effectiveFrom))
+
+  return inForce[0] || AGE_PENSION_PARAMETERS[0]
+}
@@ -0,0 +1,65 @@
+/**
+ * Historical Australian market data for sequence backtesting
+ * Calendar-year figures, rounded, compiled from publicly reported index series:
+ * - asx200: Australian shares total return (S&P/ASX 200 accumulation; All Ordinaries accumulation before 1992)
+ * - globalEquities: developed-market shares ex-Australia in AUD, unhedged, total return
+ * - auProperty: national residential dwelling price growth (capital only)
+ * - cpi: headline CPI, December to December
+ * Indicative only; not a substitute for licensed index data
+ */
+
+export interface HistoricalYear {
+  year: number
+  asx200: number
+  globalEquities: number
+  auProperty: number
+  cpi: number
+}
+
+export const HISTORICAL_RETURNS: HistoricalYear[] = [
+  { year: 1980, asx200: 0.40, globalEquities: 0.25, auProperty: 0.12, cpi: 0.094 },
+  { year: 1981, asx200: -0.13, globalEquities: 0.00, auProperty: 0.10, cpi: 0.096 },
+  { year: 1982, asx200: -0.13, globalEquities: 0.20, auProperty: 0.08, cpi: 0.112 },
+  { year: 1983, asx200: 0.67, globalEquities: 0.45, auProperty: 0.07, cpi: 0.086 },
+  { year: 1984, asx200: -0.02, globalEquities: 0.15, auProperty: 0.09, cpi: 0.026 },
+  { year: 1985, asx200: 0.44, globalEquities: 0.60, auProperty: 0.07, cpi: 0.082 },
+  { year: 1986, asx200: 0.52, globalEquities: 0.45, auProperty: 0.07, cpi: 0.098 },
+  { year: 1987, asx200: -0.08, globalEquities: -0.10, auProperty: 0.14, cpi: 0.071 },
+  { year: 1988, asx200: 0.18, globalEquities: 0.10, auProperty: 0.30, cpi: 0.075 },
+  { year: 1989, asx200: 0.17, globalEquities: 0.25, auProperty: 0.18, cpi: 0.078 },
+  { year: 1990, asx200: -0.18, globalEquities: -0.15, auProperty: 0.02, cpi: 0.069 },
+  { year: 1991, asx200: 0.34, globalEquities: 0.20, auProperty: 0.03, cpi: 0.015 },
+  { year: 1992, asx200: -0.02, globalEquities: 0.20, auProperty: 0.03, cpi: 0.003 },
+  { year: 1993, asx200: 0.45, globalEquities: 0.25, auProperty: 0.04, cpi: 0.019 },
+  { year: 1994, asx200: -0.09, globalEquities: -0.10, auProperty: 0.04, cpi: 0.025 },
+  { year: 1995, asx200: 0.20, globalEquities: 0.25, auProperty: 0.01, cpi: 0.051 },
+  { year: 1996, asx200: 0.14, globalEquities: 0.05, auProperty: 0.02, cpi: 0.015 },
+  { year: 1997, asx200: 0.12, globalEquities: 0.40, auProperty: 0.06, cpi: -0.002 },
+  { year: 1998, asx200: 0.12, globalEquities: 0.33, auProperty: 0.07, cpi: 0.016 },
+  { year: 1999, asx200: 0.16, globalEquities: 0.17, auProperty: 0.09, cpi: 0.018 },
+  { year: 2000, asx200: 0.05, globalEquities: 0.02, auProperty: 0.06, cpi: 0.058 },
+  { year: 2001, asx200: 0.10, globalEquities: -0.10, auProperty: 0.13, cpi: 0.031 },
+  { year: 2002, asx200: -0.09, globalEquities: -0.27, auProperty: 0.17, cpi: 0.030 },
+  { year: 2003, asx200: 0.15, globalEquities: -0.01, auProperty: 0.17, cpi: 0.024 },
+  { year: 2004, asx200: 0.28, globalEquities: 0.10, auProperty: 0.04, cpi: 0.026 },
+  { year: 2005, asx200: 0.22, globalEquities: 0.17, auProperty: 0.02, cpi: 0.028 },
+  { year: 2006, asx200: 0.25, globalEquities: 0.11, auProperty: 0.08, cpi: 0.033 },
+  { year: 2007, asx200: 0.16, globalEquities: -0.02, auProperty: 0.11, cpi: 0.030 },
+  { year: 2008, asx200: -0.39, globalEquities: -0.25, auProperty: -0.03, cpi: 0.037 },
+  { year: 2009, asx200: 0.37, globalEquities: 0.00, auProperty: 0.12, cpi: 0.021 },
+  { year: 2010, asx200: 0.03, globalEquities: -0.02, auProperty: 0.05, cpi: 0.028 },
+  { year: 2011, asx200: -0.11, globalEquities: -0.05, auProperty: -0.04, cpi: 0.030 },
+  { year: 2012, asx200: 0.20, globalEquities: 0.14, auProperty: 0.00, cpi: 0.022 },
+  { year: 2013, asx200: 0.20, globalEquities: 0.48, auProperty: 0.10, cpi: 0.027 },
+  { year: 2014, asx200: 0.06, globalEquities: 0.15, auProperty: 0.08, cpi: 0.017 },
+  { year: 2015, asx200: 0.03, globalEquities: 0.12, auProperty: 0.09, cpi: 0.017 },
+  { year: 2016, asx200: 0.12, globalEquities: 0.08, auProperty: 0.08, cpi: 0.015 },
+  { year: 2017, asx200: 0.12, globalEquities: 0.14, auProperty: 0.04, cpi: 0.019 },
+  { year: 2018, asx200: -0.03, globalEquities: 0.01, auProperty: -0.05, cpi: 0.018 },
+  { year: 2019, asx200: 0.24, globalEquities: 0.28, auProperty: 0.03, cpi: 0.018 },
+  { year: 2020, asx200: 0.01, globalEquities: 0.06, auProperty: 0.03, cpi: 0.009 },
+  { year: 2021, asx200: 0.17, globalEquities: 0.30, auProperty: 0.22, cpi: 0.035 },
+  { year: 2022, asx200: -0.01, globalEquities: -0.12, auProperty: -0.05, cpi: 0.078 },
+  { year: 2023, asx200: 0.12, globalEquities: 0.23, auProperty: 0.08, cpi: 0.041 },
+  { year: 2024, asx200: 0.11, globalEquities: 0.30, auProperty: 0.05, cpi: 0.024 }
+]
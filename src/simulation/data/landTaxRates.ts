@@ -0,0 +1,114 @@
+/**
+ * Land tax schedules for each state and territory, versioned by the date each set took effect
+ * The first entry is complete; each later entry lists only the states (in full) whose schedules
+ * changed. Rates are for individuals; trust and foreign owner surcharges aren't modelled.
+ */
+
+import type { AustralianState } from '../../types/planner'
+import type { DutyBracket } from './stampDutyRates'
+
+export interface LandTaxSchedule {
+  brackets: DutyBracket[]                // on taxable land value; none means no land tax
+  perProperty?: boolean                  // ACT: each property is assessed alone, not aggregated
+  fixedChargePerProperty?: number
+}
+
+export interface LandTaxParameters {
+  effectiveFrom: string                  // ISO date
+  states: Record<AustralianState, LandTaxSchedule>
+}
+
+type LandTaxChanges = { effectiveFrom: string; states: Partial<Record<AustralianState, LandTaxSchedule>> }
+
+const BASE_SCHEDULES: LandTaxParameters = {
+  effectiveFrom: '2024-07-01',
+  states: {
+    NSW: {
+      brackets: [
+        { from: 0, base: 0, rate: 0 },
+        { from: 1075000, base: 100, rate: 0.016 },
+        { from: 6571000, base: 88036, rate: 0.02 }
+      ]
+    },
+    VIC: {
+      brackets: [
+        { from: 0, base: 0, rate: 0 },
+        { from: 50000, base: 500, rate: 0 },
+        { from: 100000, base: 975, rate: 0 },
+        { from: 300000, base: 1350, rate: 0.003 },
+        { from: 600000, base: 2250, rate: 0.006 },
+        { from: 1000000, base: 4650, rate: 0.009 },
+        { from: 1800000, base: 11850, rate: 0.0165 },
+        { from: 3000000, base: 31650, rate: 0.0265 }
+      ]
+    },
+    QLD: {
+      brackets: [
+        { from: 0, base: 0, rate: 0 },
+        { from: 600000, base: 500, rate: 0.01 },
+        { from: 1000000, base: 4500, rate: 0.0165 },
+        { from: 3000000, base: 37500, rate: 0.0125 },
+        { from: 5000000, base: 62500, rate: 0.0175 },
+        { from: 10000000, base: 150000, rate: 0.0225 }
+      ]
+    },
+    WA: {
+      brackets: [
+        { from: 0, base: 0, rate: 0 },
+        { from: 300000, base: 300, rate: 0 },
+        { from: 420000, base: 300, rate: 0.0025 },
+        { from: 1000000, base: 1750, rate: 0.009 },
+        { from: 1800000, base: 8950, rate: 0.018 },
+        { from: 5000000, base: 66550, rate: 0.02 },
+        { from: 11000000, base: 186550, rate: 0.0267 }
+      ]
+    },
+    SA: {
+      brackets: [
+        { from: 0, base: 0, rate: 0 },
+        { from: 773000, base: 0, rate: 0.005 },
+        { from: 1127000, base: 1770, rate: 0.0125 },
+        { from: 1642000, base: 8207.5, rate: 0.024 }
+      ]
+    },
+    TAS: {
+      brackets: [
+        { from: 0, base: 0, rate: 0 },
+        { from: 125000, base: 50, rate: 0.0045 },
+        { from: 500000, base: 1737.5, rate: 0.015 }
+      ]
+    },
+    // Residential land that's rented out, on its average unimproved value
+    ACT: {
+      brackets: [
+        { from: 0, base: 0, rate: 0.0054 },
+        { from: 150000, base: 810, rate: 0.0064 },
+        { from: 275000, base: 1610, rate: 0.0112 },
+        { from: 2000000, base: 20930, rate: 0.0115 }
+      ],
+      perProperty: true,
+      fixedChargePerProperty: 1624
+    },
+    NT: { brackets: [] }
+  }
+}
+
+export const LAND_TAX_CHANGES: LandTaxChanges[] = []
+
+/**
+ * Schedules in force on a date; dates before the first entry use the first entry
+ */
+export const getLandTaxParameters = (date: Date = new Date()): LandTaxParameters => {
+  const states = { ...BASE_SCHEDULES.states }
+  let effectiveFrom = BASE_SCHEDULES.effectiveFrom
+
+  LAND_TAX_CHANGES
+    .filter(change => new Date(change.effectiveFrom).getTime() <= date.getTime())
+    .sort((a, b) => a.effectiveFrom.localeCompare(b.effectiveFrom))
+    .forEach(change => {
+      Object.assign(states, change.states)
+      effectiveFrom = change.effectiveFrom
+    })
+
+  return { effectiveFrom, states }
+}
@@ -0,0 +1,197 @@
+/**
+ * Transfer (stamp) duty schedules for each state and territory, versioned by the date each set
+ * took effect
+ * The first entry is complete; each later entry lists only the states (in full) whose schedules
+ * changed. Thresholds aren't indexed here, so add an entry when a state publishes new ones.
+ */
+
+import type { AustralianState } from '../../types/planner'
+
+// Duty on a price in the bracket: base + rate on the amount above `from`
+export interface DutyBracket {
+  from: number
+  base: number
+  rate: number
+  perThousandSquared?: number            // NT: plus this times (amount above `from` / 1000) squared
+}
+
+export interface StateDutySchedule {
+  general: DutyBracket[]
+  ownerOccupier?: DutyBracket[]          // lower rates for a home the buyer will live in
+  firstHomeBuyer?: {
+    exemptUpTo: number                   // no duty at or below this price
+    concessionUpTo: number               // the concession phases out evenly to full duty at this price
+    maxConcession?: number               // cap on the duty waived
+    newHomesOnly?: boolean
+  }
+  foreignSurcharge: number               // extra duty on the whole price for foreign purchasers
+}
+
+export interface StampDutyParameters {
+  effectiveFrom: string                  // ISO date
+  states: Record<AustralianState, StateDutySchedule>
+}
+
+type StampDutyChanges = { effectiveFrom: string; states: Partial<Record<AustralianState, StateDutySchedule>> }
+
+const BASE_SCHEDULES: StampDutyParameters = {
+  effectiveFrom: '2024-07-01',
+  states: {
+    NSW: {
+      general: [
+        { from: 0, base: 0, rate: 0.0125 },
+        { from: 17000, base: 212, rate: 0.015 },
+        { from: 36000, base: 497, rate: 0.0175 },
+        { from: 97000, base: 1564, rate: 0.035 },
+        { from: 364000, base: 10909, rate: 0.045 },
+        { from: 1212000, base: 49069, rate: 0.055 },
+        { from: 3636000, base: 182389, rate: 0.07 }
+      ],
+      firstHomeBuyer: { exemptUpTo: 800000, concessionUpTo: 1000000 },
+      foreignSurcharge: 0.08
+    },
+    VIC: {
+      general: [
+        { from: 0, base: 0, rate: 0.014 },
+        { from: 25000, base: 350, rate: 0.024 },
+        { from: 130000, base: 2870, rate: 0.06 },
+        { from: 960000, base: 52800, rate: 0.055 },   // 5.5% of the whole price
+        { from: 2000000, base: 110000, rate: 0.065 }
+      ],
+      // Principal place of residence concession, up to $550,000
+      ownerOccupier: [
+        { from: 0, base: 0, rate: 0.014 },
+        { from: 25000, base: 350, rate: 0.024 },
+        { from: 130000, base: 2870, rate: 0.05 },
+        { from: 440000, base: 18370, rate: 0.06 },
+        { from: 550000, base: 28070, rate: 0.06 },
+        { from: 960000, base: 52800, rate: 0.055 },
+        { from: 2000000, base: 110000, rate: 0.065 }
+      ],
+      firstHomeBuyer: { exemptUpTo: 600000, concessionUpTo: 750000 },
+      foreignSurcharge: 0.08
+    },
+    QLD: {
+      general: [
+        { from: 0, base: 0, rate: 0 },
+        { from: 5000, base: 0, rate: 0.015 },
+        { from: 75000, base: 1050, rate: 0.035 },
+        { from: 540000, base: 17325, rate: 0.045 },
+        { from: 1000000, base: 38025, rate: 0.0575 }
+      ],
+      // Home concession rate
+      ownerOccupier: [
+        { from: 0, base: 0, rate: 0.01 },
+        { from: 350000, base: 3500, rate: 0.035 },
+        { from: 540000, base: 10150, rate: 0.045 },
+        { from: 1000000, base: 30850, rate: 0.0575 }
+      ],
+      firstHomeBuyer: { exemptUpTo: 700000, concessionUpTo: 800000 },
+      foreignSurcharge: 0.08
+    },
+    WA: {
+      general: [
+        { from: 0, base: 0, rate: 0.019 },
+        { from: 120000, base: 2280, rate: 0.0285 },
+        { from: 150000, base: 3135, rate: 0.038 },
+        { from: 360000, base: 11115, rate: 0.0475 },
+        { from: 725000, base: 28453, rate: 0.0515 }
+      ],
+      firstHomeBuyer: { exemptUpTo: 450000, concessionUpTo: 600000 },
+      foreignSurcharge: 0.07
+    },
+    SA: {
+      general: [
+        { from: 0, base: 0, rate: 0.01 },
+        { from: 12000, base: 120, rate: 0.02 },
+        { from: 30000, base: 480, rate: 0.03 },
+        { from: 50000, base: 1080, rate: 0.035 },
+        { from: 100000, base: 2830, rate: 0.04 },
+        { from: 200000, base: 6830, rate: 0.0425 },
+        { from: 250000, base: 8955, rate: 0.0475 },
+        { from: 300000, base: 11330, rate: 0.05 },
+        { from: 500000, base: 21330, rate: 0.055 }
+      ],
+      firstHomeBuyer: { exemptUpTo: Infinity, concessionUpTo: Infinity, newHomesOnly: true },
+      foreignSurcharge: 0.07
+    },
+    TAS: {
+      general: [
+        { from: 0, base: 50, rate: 0 },
+        { from: 3000, base: 50, rate: 0.0175 },
+        { from: 25000, base: 435, rate: 0.0225 },
+        { from: 75000, base: 1560, rate: 0.035 },
+        { from: 200000, base: 5935, rate: 0.04 },
+        { from: 375000, base: 12935, rate: 0.0425 },
+        { from: 725000, base: 27810, rate: 0.045 }
+      ],
+      firstHomeBuyer: { exemptUpTo: 750000, concessionUpTo: 750000 },
+      foreignSurcharge: 0.08
+    },
+    ACT: {
+      general: [
+        { from: 0, base: 0, rate: 0.012 },
+        { from: 200000, base: 2400, rate: 0.022 },
+        { from: 300000, base: 4600, rate: 0.034 },
+        { from: 500000, base: 11400, rate: 0.0432 },
+        { from: 750000, base: 22200, rate: 0.059 },
+        { from: 1000000, base: 36950, rate: 0.064 },
+        { from: 1455000, base: 66057, rate: 0.0454 }  // 4.54% of the whole price
+      ],
+      ownerOccupier: [
+        { from: 0, base: 0, rate: 0.004 },
+        { from: 260000, base: 1040, rate: 0.022 },
+        { from: 300000, base: 1920, rate: 0.034 },
+        { from: 500000, base: 8720, rate: 0.0432 },
+        { from: 750000, base: 19520, rate: 0.059 },
+        { from: 1000000, base: 34270, rate: 0.064 },
+        { from: 1455000, base: 66057, rate: 0.0454 }
+      ],
+      // Home Buyer Concession Scheme; income-tested, which isn't modelled
+      firstHomeBuyer: { exemptUpTo: Infinity, concessionUpTo: Infinity, maxConcession: 35238 },
+      foreignSurcharge: 0
+    },
+    NT: {
+      general: [
+        { from: 0, base: 0, rate: 0.015, perThousandSquared: 0.06571441 },
+        { from: 525000, base: 25987.5, rate: 0.0495 },  // 4.95% of the whole price
+        { from: 3000000, base: 172500, rate: 0.0575 },
+        { from: 5000000, base: 297500, rate: 0.0595 }
+      ],
+      foreignSurcharge: 0
+    }
+  }
+}
+
+export const STAMP_DUTY_CHANGES: StampDutyChanges[] = [
+  {
+    effectiveFrom: '2025-01-01',
+    states: {
+      NSW: { ...BASE_SCHEDULES.states.NSW, foreignSurcharge: 0.09 }
+    }
+  },
+  {
+    effectiveFrom: '2025-03-21',
+    states: {
+      WA: { ...BASE_SCHEDULES.states.WA, firstHomeBuyer: { exemptUpTo: 500000, concessionUpTo: 700000 } }
+    }
+  }
+]
+
+/**
+ * Schedules in force on a date; dates before the first entry use the first entry
+ */
+export const getStampDutyParameters = (date: Date = new Date()): StampDutyParameters => {
+  const states = { ...BASE_SCHEDULES.states }
+  let effectiveFrom = BASE_SCHEDULES.effectiveFrom
+
+  STAMP_DUTY_CHANGES
+    .filter(change => new Date(change.effectiveFrom).getTime() <= date.getTime())
+    .sort((a, b) => a.effectiveFrom.localeCompare(b.effectiveFrom))
+    .forEach(change => {
+      Object.assign(states, change.states)
+      effectiveFrom = change.effectiveFrom
+    })
+
+  return { effectiveFrom, states }
+}
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest'
+import { formatFinancialYear, getConcessionalCap, getTaxParameters } from './taxParameters'
+
+const indexation = { inflation: 0.025, wageGrowth: 0.035 }
+
+describe('getTaxParameters', () => {
+  it('applies legislated changes in the year they start', () => {
+    expect(getTaxParameters(2024).superannuation.concessionalCap).toBe(30000)
+    expect(getTaxParameters(2025).help.method).toBe('marginal')
+    expect(getTaxParameters(2026).incomeTax.brackets[1].rate).toBe(0.15)
+    expect(getTaxParameters(2027).incomeTax.brackets[1].rate).toBe(0.14)
+  })
+
+  it('uses the first entry for earlier years', () => {
+    expect(getTaxParameters(2015).financialYear).toBe('2024-25')
+  })
+
+  it('labels each year', () => {
+    expect(formatFinancialYear(2099)).toBe('2099-00')
+    expect(getTaxParameters(2040, indexation).financialYear).toBe('2040-41')
+  })
+
+  it('indexes caps forward in whole steps without rounding small increases away', () => {
+    let previousCap = getTaxParameters(2027, indexation).superannuation.concessionalCap
+    for (let year = 2028; year <= 2060; year++) {
+      const { concessionalCap, transferBalanceCap, nonConcessionalCap } = getTaxParameters(year, indexation).superannuation
+      expect(concessionalCap % 2500).toBe(0)
+      expect(transferBalanceCap % 100000).toBe(0)
+      expect(nonConcessionalCap).toBe(concessionalCap * 4)
+      expect(concessionalCap).toBeGreaterThanOrEqual(previousCap)
+      previousCap = concessionalCap
+    }
+    expect(getTaxParameters(2060, indexation).superannuation.concessionalCap).toBeGreaterThan(30000)
+  })
+
+  it('leaves income tax brackets alone after the last legislated change', () => {
+    expect(getTaxParameters(2050, indexation).incomeTax).toEqual(getTaxParameters(2027).incomeTax)
+  })
+
+  it('indexes faster with faster wage growth', () => {
+    const slow = getTaxParameters(2050, { inflation: 0.02, wageGrowth: 0.02 })
+    const fast = getTaxParameters(2050, { inflation: 0.04, wageGrowth: 0.05 })
+
+    expect(fast.superannuation.concessionalCap).toBeGreaterThan(slow.superannuation.concessionalCap)
+    expect(fast.medicareLevySurcharge.tiers[0].from).toBeGreaterThan(slow.medicareLevySurcharge.tiers[0].from)
+  })
+
+  it('reuses resolved years for equal indexation rates', () => {
+    expect(getTaxParameters(2045, { ...indexation })).toBe(getTaxParameters(2045, { ...indexation }))
+  })
+
+  it('reports historical caps before the first entry', () => {
+    expect(getConcessionalCap(2017)).toBe(0)
+    expect(getConcessionalCap(2020)).toBe(25000)
+    expect(getConcessionalCap(2023)).toBe(27500)
+  })
+})
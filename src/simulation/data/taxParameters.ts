@@ -0,0 +1,375 @@
+/**
+ * Tax and super parameters, keyed by financial year
+ * The first entry is complete; each later entry lists only the sections (in full) that were
+ * legislated to change that year.
+ * Anything not listed follows its indexation rule (see indexForward), so add an entry whenever the
+ * ATO publishes new thresholds or a Budget measure is legislated.
+ */
+
+import { getFinancialYear } from '../utils'
+
+// Marginal rate applying to each dollar above `from`, up to the next bracket
+export interface TaxBracket {
+  from: number
+  rate: number
+}
+
+export interface TaxParameters {
+  financialYear: string                  // e.g. '2025-26'
+  incomeTax: {
+    brackets: TaxBracket[]               // not indexed; bracket creep until legislated
+  }
+  medicareLevy: {
+    rate: number
+    lowIncomeThreshold: number           // singles; CPI-indexed
+    shadeInRate: number                  // levy phases in at this rate above the threshold
+  }
+  medicareLevySurcharge: {
+    tiers: TaxBracket[]                  // singles; the rate applies to all income once in a tier. AWOTE-indexed
+    familyMultiplier: number             // family thresholds are this multiple of the singles'
+    dependantIncrement: number           // added to the family thresholds for each child after the first
+  }
+  lito: {
+    max: number
+    phaseOut: TaxBracket[]               // offset reduces by `rate` per dollar above `from`
+  }
+  help: {
+    // 'total-income': the band's rate applies to the whole income (to 2024-25)
+    // 'marginal': each band's rate applies only to income above its threshold (from 2025-26)
+    method: 'total-income' | 'marginal'
+    bands: TaxBracket[]                  // thresholds CPI-indexed
+  }
+  superannuation: {
+    guaranteeRate: number
+    concessionalCap: number              // AWOTE-indexed in $2,500 steps
+    nonConcessionalCap: number           // four times the concessional cap
+    transferBalanceCap: number           // CPI-indexed in $100,000 steps
+    division293Threshold: number         // income plus concessional contributions; not indexed
+    division293Rate: number              // extra tax on contributions above the threshold
+    carryForwardBalanceLimit: number     // total super balance at the prior 30 June must be below this
+    carryForwardYears: number            // unused cap stays available this many years
+    bringForwardYears: number            // non-concessional caps that can be brought forward at once
+    nonConcessionalAgeLimit: number      // after-tax contributions are accepted under this age
+  }
+  franking: {
+    corporateTaxRate: number             // franking credits are grossed up at this rate
+  }
+  coContribution: {
+    max: number
+    matchRate: number                    // per dollar of personal after-tax contributions
+    lowerThreshold: number               // full entitlement up to here; AWOTE-indexed
+    upperThreshold: number               // nil from here; the lower threshold plus $15,000
+    ageLimit: number                     // under this age at the end of the year
+  }
+  listo: {
+    max: number
+    rate: number                         // refunds the contributions tax on concessional contributions
+    incomeLimit: number                  // adjusted taxable income; not indexed
+  }
+  spouseContributionOffset: {
+    rate: number
+    maxContribution: number
+    incomeThreshold: number              // the eligible contribution reduces $1 per $1 of spouse income above this
+    incomeLimit: number
+    ageLimit: number                     // spouse must be under this age
+  }
+  downsizer: {
+    maxContribution: number              // per person, from the sale of one home; not indexed
+    minAge: number
+    minOwnershipYears: number            // the home must have been owned this long
+  }
+  fhss: {
+    annualLimit: number                  // eligible contributions per financial year
+    totalLimit: number                   // eligible contributions over all years
+    concessionalShare: number            // of a concessional contribution that's releasable, after contributions tax
+    deemedEarningsRate: number           // the shortfall interest charge rate; set quarterly, taken as fixed for the year
+    releaseOffsetRate: number            // released amounts are taxed at marginal rates less this offset
+  }
+}
+
+type TaxParameterChanges = { financialYear: string } & Partial<Omit<TaxParameters, 'financialYear'>>
+
+// Growth used to index parameters for years past the last entry
+export interface TaxIndexation {
+  inflation: number
+  wageGrowth: number
+}
+
+const DEFAULT_INDEXATION: TaxIndexation = { inflation: 0.025, wageGrowth: 0.03 }
+
+const BASE_PARAMETERS: TaxParameters = {
+  financialYear: '2024-25',
+  incomeTax: {
+    brackets: [
+      { from: 0, rate: 0 },
+      { from: 18200, rate: 0.16 },
+      { from: 45000, rate: 0.30 },
+      { from: 135000, rate: 0.37 },
+      { from: 190000, rate: 0.45 }
+    ]
+  },
+  medicareLevy: { rate: 0.02, lowIncomeThreshold: 29207, shadeInRate: 0.1 },
+  medicareLevySurcharge: {
+    tiers: [
+      { from: 97000, rate: 0.01 },
+      { from: 113000, rate: 0.0125 },
+      { from: 151000, rate: 0.015 }
+    ],
+    familyMultiplier: 2,
+    dependantIncrement: 1500
+  },
+  lito: {
+    max: 700,
+    phaseOut: [
+      { from: 37500, rate: 0.05 },
+      { from: 45000, rate: 0.015 }
+    ]
+  },
+  help: {
+    method: 'total-income',
+    bands: [
+      { from: 54435, rate: 0.01 },
+      { from: 62850, rate: 0.02 },
+      { from: 66600, rate: 0.025 },
+      { from: 70618, rate: 0.03 },
+      { from: 74855, rate: 0.035 },
+      { from: 79346, rate: 0.04 },
+      { from: 84107, rate: 0.045 },
+      { from: 89154, rate: 0.05 },
+      { from: 94504, rate: 0.055 },
+      { from: 100174, rate: 0.06 },
+      { from: 106184, rate: 0.065 },
+      { from: 112556, rate: 0.07 },
+      { from: 119311, rate: 0.075 },
+      { from: 126476, rate: 0.08 },
+      { from: 134056, rate: 0.085 },
+      { from: 142097, rate: 0.09 },
+      { from: 150626, rate: 0.10 }
+    ]
+  },
+  superannuation: {
+    guaranteeRate: 0.115,
+    concessionalCap: 30000,
+    nonConcessionalCap: 120000,
+    transferBalanceCap: 1900000,
+    division293Threshold: 250000,
+    division293Rate: 0.15,
+    carryForwardBalanceLimit: 500000,
+    carryForwardYears: 5,
+    bringForwardYears: 3,
+    nonConcessionalAgeLimit: 75
+  },
+  franking: { corporateTaxRate: 0.30 },
+  coContribution: { max: 500, matchRate: 0.5, lowerThreshold: 45400, upperThreshold: 60400, ageLimit: 71 },
+  listo: { max: 500, rate: 0.15, incomeLimit: 37000 },
+  spouseContributionOffset: { rate: 0.18, maxContribution: 3000, incomeThreshold: 37000, incomeLimit: 40000, ageLimit: 75 },
+  downsizer: { maxContribution: 300000, minAge: 55, minOwnershipYears: 10 },
+  fhss: { annualLimit: 15000, totalLimit: 50000, concessionalShare: 0.85, deemedEarningsRate: 0.0717, releaseOffsetRate: 0.30 }
+}
+
+export const TAX_PARAMETER_CHANGES: TaxParameterChanges[] = [
+  {
+    financialYear: '2025-26',
+    coContribution: { max: 500, matchRate: 0.5, lowerThreshold: 47488, upperThreshold: 62488, ageLimit: 71 },
+    medicareLevySurcharge: {
+      tiers: [
+        { from: 101000, rate: 0.01 },
+        { from: 118000, rate: 0.0125 },
+        { from: 158000, rate: 0.015 }
+      ],
+      familyMultiplier: 2,
+      dependantIncrement: 1500
+    },
+    help: {
+      method: 'marginal',
+      bands: [
+        { from: 67000, rate: 0.15 },
+        { from: 125000, rate: 0.17 }
+      ]
+    },
+    superannuation: {
+      guaranteeRate: 0.12,
+      concessionalCap: 30000,
+      nonConcessionalCap: 120000,
+      transferBalanceCap: 2000000,
+      division293Threshold: 250000,
+      division293Rate: 0.15,
+      carryForwardBalanceLimit: 500000,
+      carryForwardYears: 5,
+      bringForwardYears: 3,
+      nonConcessionalAgeLimit: 75
+    }
+  },
+  {
+    // Stage 3 follow-up cuts to the lowest taxed bracket
+    financialYear: '2026-27',
+    incomeTax: {
+      brackets: [
+        { from: 0, rate: 0 },
+        { from: 18200, rate: 0.15 },
+        { from: 45000, rate: 0.30 },
+        { from: 135000, rate: 0.37 },
+        { from: 190000, rate: 0.45 }
+      ]
+    }
+  },
+  {
+    financialYear: '2027-28',
+    incomeTax: {
+      brackets: [
+        { from: 0, rate: 0 },
+        { from: 18200, rate: 0.14 },
+        { from: 45000, rate: 0.30 },
+        { from: 135000, rate: 0.37 },
+        { from: 190000, rate: 0.45 }
+      ]
+    }
+  }
+]
+
+// Concessional caps before the first entry; unused cap only accrues from 2018-19
+const HISTORICAL_CONCESSIONAL_CAPS: Record<number, number> = {
+  2018: 25000,
+  2019: 25000,
+  2020: 25000,
+  2021: 27500,
+  2022: 27500,
+  2023: 27500
+}
+
+// Starting calendar year of a label such as '2025-26'
+const startYearOf = (financialYear: string) => parseInt(financialYear, 10)
+
+export const formatFinancialYear = (startYear: number): string =>
+  `${startYear}-${String((startYear + 1) % 100).padStart(2, '0')}`
+
+const roundDown = (value: number, step: number) => Math.floor(value / step) * step
+
+/**
+ * One year of indexation. Caps are indexed from their unrounded values, which are carried in
+ * `raw` so small yearly increases add up to the next step rather than being rounded away.
+ */
+const indexForward = (
+  params: TaxParameters,
+  raw: { concessionalCap: number; transferBalanceCap: number },
+  indexation: TaxIndexation
+) => {
+  const cpi = 1 + indexation.inflation
+  const nextRaw = {
+    concessionalCap: raw.concessionalCap * (1 + indexation.wageGrowth),
+    transferBalanceCap: raw.transferBalanceCap * cpi
+  }
+  const concessionalCap = roundDown(nextRaw.concessionalCap, 2500)
+  const coContributionLower = Math.round(params.coContribution.lowerThreshold * (1 + indexation.wageGrowth))
+
+  const next: TaxParameters = {
+    ...params,
+    medicareLevy: {
+      ...params.medicareLevy,
+      lowIncomeThreshold: Math.round(params.medicareLevy.lowIncomeThreshold * cpi)
+    },
+    medicareLevySurcharge: {
+      ...params.medicareLevySurcharge,
+      tiers: params.medicareLevySurcharge.tiers.map(tier => ({
+        ...tier,
+        from: Math.round(tier.from * (1 + indexation.wageGrowth) / 1000) * 1000
+      }))
+    },
+    help: {
+      ...params.help,
+      bands: params.help.bands.map(band => ({ ...band, from: Math.round(band.from * cpi) }))
+    },
+    coContribution: {
+      ...params.coContribution,
+      lowerThreshold: coContributionLower,
+      upperThreshold: coContributionLower + params.coContribution.upperThreshold - params.coContribution.lowerThreshold
+    },
+    superannuation: {
+      ...params.superannuation,
+      concessionalCap,
+      nonConcessionalCap: concessionalCap * 4,
+      transferBalanceCap: roundDown(nextRaw.transferBalanceCap, 100000)
+    }
+  }
+
+  return { params: next, raw: nextRaw }
+}
+
+type ResolvedYear = ReturnType<typeof indexForward>
+
+// Resolved years for each set of indexation rates, so a projection steps forward one year at a
+// time instead of re-indexing from the first entry every July. Only the most recent rate sets
+// are kept, since each assumptions preset (and each edit to one) brings its own.
+const MAX_CACHED_INDEXATIONS = 16
+const resolvedYearsCache = new Map<string, Map<number, ResolvedYear>>()
+
+const getResolvedYears = (indexation: TaxIndexation): Map<number, ResolvedYear> => {
+  const key = `${indexation.inflation}:${indexation.wageGrowth}`
+  let years = resolvedYearsCache.get(key)
+  if (!years) {
+    if (resolvedYearsCache.size >= MAX_CACHED_INDEXATIONS) {
+      resolvedYearsCache.delete(resolvedYearsCache.keys().next().value as string)
+    }
+    years = new Map()
+    resolvedYearsCache.set(key, years)
+  }
+  return years
+}
+
+/**
+ * Parameters for a financial year
+ * Years before the first entry use the first entry. Years after the last legislated change are
+ * indexed forward at the given growth rates.
+ * @param startYear - Calendar year the financial year starts in (2025 for 2025-26)
+ * @param indexation - Assumed inflation and wage growth for indexed thresholds
+ */
+export const getTaxParameters = (
+  startYear: number = getFinancialYear(new Date()),
+  indexation: TaxIndexation = DEFAULT_INDEXATION
+): TaxParameters => {
+  const firstYear = startYearOf(BASE_PARAMETERS.financialYear)
+  if (startYear <= firstYear) return BASE_PARAMETERS
+
+  const years = getResolvedYears(indexation)
+  const cached = years.get(startYear)
+  if (cached) return cached.params
+
+  // Step forward from the latest year already resolved before this one
+  let fromYear = startYear - 1
+  while (fromYear > firstYear && !years.has(fromYear)) fromYear--
+  let { params, raw } = years.get(fromYear) || {
+    params: BASE_PARAMETERS,
+    raw: {
+      concessionalCap: BASE_PARAMETERS.superannuation.concessionalCap,
+      transferBalanceCap: BASE_PARAMETERS.superannuation.transferBalanceCap
+    }
+  }
+
+  for (let year = fromYear + 1; year <= startYear; year++) {
+    const financialYear = formatFinancialYear(year)
+    const changes = TAX_PARAMETER_CHANGES.find(c => c.financialYear === financialYear)
+    const indexed = indexForward(params, raw, indexation)
+
+    params = { ...indexed.params, ...changes, financialYear }
+    raw = changes?.superannuation
+      ? {
+          concessionalCap: changes.superannuation.concessionalCap,
+          transferBalanceCap: changes.superannuation.transferBalanceCap
+        }
+      : indexed.raw
+    years.set(year, { params, raw })
+  }
+
+  return params
+}
+
+/**
+ * Concessional cap for a financial year, including the years before the first entry
+ * Years before carry-forward began return 0, so no unused cap accrues for them.
+ */
+export const getConcessionalCap = (startYear: number, indexation: TaxIndexation = DEFAULT_INDEXATION): number => {
+  if (startYear < startYearOf(BASE_PARAMETERS.financialYear)) {
+    return HISTORICAL_CONCESSIONAL_CAPS[startYear] ?? 0
+  }
+  return getTaxParameters(startYear, indexation).superannuation.concessionalCap
+}
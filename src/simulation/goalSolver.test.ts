@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest'
+import { isGoalMet, solveGoals } from './goalSolver'
+import { runScenario } from './runScenario'
+import { createDefaultPlannerState, type AppSettings, type PlannerState } from '../types/planner'
+import { createDefaultSettings } from '../schemas/planner'
+
+const settings = createDefaultSettings() as AppSettings
+const startDate = new Date(2026, 6, 1)
+const base = createDefaultPlannerState(settings)
+
+const withGoal = (goal: Partial<PlannerState['goal']>): PlannerState => ({ ...base, goal: { ...base.goal, ...goal } })
+const lasts = (input: PlannerState) => runScenario(input, settings, { startDate }).kpis.moneyRunsOutAge === undefined
+
+describe('isGoalMet', () => {
+  it('compares a capital goal with net worth at retirement in today\'s dollars', () => {
+    const result = runScenario(base, settings, { startDate })
+    const years = base.goal.retireAge - base.goal.currentAge
+    const todaysDollars = result.kpis.netWorthAtRetire / Math.pow(1 + settings.assumptionPresets.Base.inflation, years)
+
+    expect(isGoalMet(withGoal({ targetIncomeYearly: undefined, targetCapital: todaysDollars - 1 }), settings, result)).toBe(true)
+    expect(isGoalMet(withGoal({ targetIncomeYearly: undefined, targetCapital: todaysDollars + 1 }), settings, result)).toBe(false)
+  })
+})
+
+describe('solveGoals', () => {
+  it('finds the earliest retirement age and the most the plan can spend', () => {
+    const input = withGoal({ targetIncomeYearly: 60000 })
+    const { goalSolution } = solveGoals(input, settings, { startDate })
+    const { earliestRetireAge, maxSustainableSpendYearly } = goalSolution!
+
+    expect(lasts(withGoal({ targetIncomeYearly: 60000, retireAge: earliestRetireAge! }))).toBe(true)
+    expect(lasts(withGoal({ targetIncomeYearly: 60000, retireAge: earliestRetireAge! - 1 }))).toBe(false)
+    expect(lasts(withGoal({ targetIncomeYearly: maxSustainableSpendYearly }))).toBe(true)
+    expect(lasts(withGoal({ targetIncomeYearly: maxSustainableSpendYearly + 500 }))).toBe(false)
+  })
+
+  it('asks for extra investing that meets a goal the plan misses', () => {
+    const input = withGoal({ targetIncomeYearly: undefined, targetCapital: 2100000 })
+    const result = solveGoals(input, settings, { startDate })
+    const extra = result.goalSolution!.extraMonthlyInvestment!
+    const topUp = (amount: number): PlannerState => ({ ...input, portfolio: { ...input.portfolio, dcaMonthly: input.portfolio.dcaMonthly + amount } })
+
+    expect(result.goalSolution!.goalMet).toBe(false)
+    expect(result.kpis.monthlySavingsRequired).toBe(extra)
+    expect(isGoalMet(input, settings, runScenario(topUp(extra), settings, { startDate }))).toBe(true)
+    expect(isGoalMet(input, settings, runScenario(topUp(extra - 20), settings, { startDate }))).toBe(false)
+  })
+})
@@ -0,0 +1,186 @@
+/**
+ * Goal solver
+ * Re-runs the projection to find what it takes to reach the plan's goal: extra investing,
+ * the earliest retirement age and the most the plan can sustainably spend
+ */
+
+import type { AppSettings, GoalSolution, PlannerState, ScenarioResult } from '../types/planner'
+import { PROJECTION_END_AGE, runScenario } from './runScenario'
+
+export interface GoalSolverOptions {
+  startDate?: Date
+  endAge?: number                        // default 100; income goals must last this long
+  maxExtraMonthly?: number               // default 10000
+  maxRetireAge?: number                  // default 80
+  maxSpendYearly?: number                // default 1000000
+  onProgress?: (progress: number, evaluations: number) => void
+}
+
+// Solver precision: dollars per month, dollars per year
+const CONTRIBUTION_TOLERANCE = 10
+const SPEND_TOLERANCE = 100
+
+/**
+ * Whether a projection meets the plan's goal
+ * Income goals must be funded every year to the end age; capital goals compare net worth at
+ * retirement, in today's dollars, with the target
+ */
+export const isGoalMet = (input: PlannerState, settings: AppSettings, result: ScenarioResult): boolean => {
+  const { goal } = input
+  if (goal.targetIncomeYearly || !goal.targetCapital) {
+    return result.kpis.moneyRunsOutAge === undefined
+  }
+
+  const assumptions = settings.assumptionPresets[goal.assumptionPreset] || settings.assumptionPresets.Base
+  const deflator = Math.pow(1 + assumptions.inflation, goal.retireAge - goal.currentAge)
+  return result.kpis.netWorthAtRetire / deflator >= goal.targetCapital
+}
+
+/**
+ * Smallest value in (low, high] that passes, given `passes(low)` is false and `passes(high)` is true
+ */
+const bisect = (low: number, high: number, tolerance: number, passes: (value: number) => boolean): number => {
+  while (high - low > tolerance) {
+    const mid = (low + high) / 2
+    if (passes(mid)) {
+      high = mid
+    } else {
+      low = mid
+    }
+  }
+  return high
+}
+
+// Counts projections so callers can see what a solve cost
+const createEvaluator = (settings: AppSettings, options: GoalSolverOptions) => {
+  let evaluations = 0
+  const scenarioOptions = { startDate: options.startDate, endAge: options.endAge ?? PROJECTION_END_AGE }
+
+  return {
+    run: (input: PlannerState) => {
+      evaluations++
+      return runScenario(input, settings, scenarioOptions)
+    },
+    count: () => evaluations
+  }
+}
+
+type Evaluator = ReturnType<typeof createEvaluator>
+
+// `base` is the plan's own projection, which misses the goal
+const solveExtraMonthly = (
+  input: PlannerState,
+  settings: AppSettings,
+  options: GoalSolverOptions,
+  evaluator: Evaluator,
+  base: ScenarioResult
+) => {
+  const maxExtra = options.maxExtraMonthly ?? 10000
+  const withExtra = (extra: number): PlannerState => ({
+    ...input,
+    portfolio: { ...input.portfolio, dcaMonthly: (input.portfolio.dcaMonthly || 0) + extra }
+  })
+  const pausedMonths = (result: ScenarioResult) => (result.series.dcaPaused || []).filter(Boolean).length
+
+  const basePaused = pausedMonths(base)
+
+  // Investing pauses whenever it would eat into the cash buffer, so amounts beyond the household's
+  // surplus stop helping; the search only runs up to the largest amount that doesn't add pauses
+  const affordable = (extra: number) => pausedMonths(evaluator.run(withExtra(extra))) <= basePaused
+  const passes = (extra: number) => isGoalMet(input, settings, evaluator.run(withExtra(extra)))
+
+  let low = 0
+  for (let high = 100; high <= maxExtra; high *= 2) {
+    if (!affordable(high)) {
+      const maxAffordable = bisect(low, high, CONTRIBUTION_TOLERANCE, extra => !affordable(extra)) - CONTRIBUTION_TOLERANCE
+      if (maxAffordable <= low || !passes(maxAffordable)) return undefined
+      high = maxAffordable
+    }
+    if (passes(high)) {
+      return Math.ceil(bisect(low, high, CONTRIBUTION_TOLERANCE, passes) / CONTRIBUTION_TOLERANCE) * CONTRIBUTION_TOLERANCE
+    }
+    low = high
+  }
+  return undefined
+}
+
+const solveEarliestRetireAge = (input: PlannerState, settings: AppSettings, options: GoalSolverOptions, evaluator: Evaluator) => {
+  const { goal } = input
+  const withAge = (retireAge: number): PlannerState => ({ ...input, goal: { ...goal, retireAge } })
+  const passes = (retireAge: number) => isGoalMet(withAge(retireAge), settings, evaluator.run(withAge(retireAge)))
+
+  let low = goal.currentAge
+  let high = Math.max(options.maxRetireAge ?? 80, goal.currentAge + 1)
+  if (!passes(high)) return undefined
+
+  // Later retirement only helps, so bisect on whole years
+  while (high - low > 1) {
+    const mid = Math.floor((low + high) / 2)
+    if (passes(mid)) {
+      high = mid
+    } else {
+      low = mid
+    }
+  }
+  return high
+}
+
+const solveMaxSpend = (input: PlannerState, options: GoalSolverOptions, evaluator: Evaluator) => {
+  const maxSpend = options.maxSpendYearly ?? 1000000
+  const withSpend = (spend: number): PlannerState => ({
+    ...input,
+    goal: { ...input.goal, targetIncomeYearly: spend, targetCapital: undefined }
+  })
+  const lasts = (spend: number) => evaluator.run(withSpend(spend)).kpis.moneyRunsOutAge === undefined
+
+  let low = 0
+  let high = Math.max(SPEND_TOLERANCE, input.goal.targetIncomeYearly || input.incomeExpense.expensesMonthly * 12)
+  while (lasts(high)) {
+    if (high >= maxSpend) return maxSpend
+    low = high
+    high = Math.min(maxSpend, high * 2)
+  }
+
+  // bisect returns the smallest failing spend; the one just below it lasts
+  const firstFailing = bisect(low, high, SPEND_TOLERANCE, spend => !lasts(spend))
+  return Math.max(0, Math.floor((firstFailing - SPEND_TOLERANCE) / SPEND_TOLERANCE) * SPEND_TOLERANCE)
+}
+
+/**
+ * Solve for extra monthly investing, earliest retirement age and maximum sustainable spend
+ * @returns The plan's own projection with `goalSolution` and `kpis.monthlySavingsRequired` filled in
+ */
+export const solveGoals = (
+  input: PlannerState,
+  settings: AppSettings,
+  options: GoalSolverOptions = {}
+): ScenarioResult => {
+  const startTime = performance.now()
+  const evaluator = createEvaluator(settings, options)
+
+  const base = evaluator.run(input)
+  const goalMet = isGoalMet(input, settings, base)
+  // Three solves of similar cost, so each one counts as a third of the progress
+  const extraMonthlyInvestment = goalMet ? 0 : solveExtraMonthly(input, settings, options, evaluator, base)
+  options.onProgress?.(100 / 3, evaluator.count())
+  const earliestRetireAge = solveEarliestRetireAge(input, settings, options, evaluator)
+  options.onProgress?.(200 / 3, evaluator.count())
+  const maxSustainableSpendYearly = solveMaxSpend(input, options, evaluator)
+  options.onProgress?.(100, evaluator.count())
+
+  const goalSolution: GoalSolution = {
+    goalType: input.goal.targetIncomeYearly || !input.goal.targetCapital ? 'income' : 'capital',
+    goalMet,
+    extraMonthlyInvestment,
+    earliestRetireAge,
+    maxSustainableSpendYearly,
+    evaluations: evaluator.count()
+  }
+
+  return {
+    ...base,
+    kpis: { ...base.kpis, monthlySavingsRequired: extraMonthlyInvestment },
+    goalSolution,
+    simulationDurationMs: performance.now() - startTime
+  }
+}
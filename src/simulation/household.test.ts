@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest'
+import { getHouseholdMembers, getOwnershipShare, getProjectionEndAge } from './household'
+import { runScenario } from './runScenario'
+import { createDefaultPlannerState, createDefaultPropertyState, type AppSettings, type PlannerState } from '../types/planner'
+import { createDefaultSettings } from '../schemas/planner'
+
+const settings = createDefaultSettings() as AppSettings
+const single = createDefaultPlannerState(settings)
+const couple: PlannerState = {
+  ...single,
+  goal: { ...single.goal, maritalStatus: 'couple' },
+  partner: {
+    currentAge: single.goal.currentAge - 4,
+    retireAge: 60,
+    salary: 70000,
+    super: { ...single.super, balance: 80000 }
+  }
+}
+
+describe('getHouseholdMembers', () => {
+  it('lists the primary member first, then the partner', () => {
+    const members = getHouseholdMembers(couple, settings, 0.03)
+
+    expect(members.map(m => m.name)).toEqual(['You', 'Partner'])
+    expect(members[1]).toMatchObject({ salary: 70000, retireMonth: (60 - couple.partner!.currentAge) * 12 })
+    expect(members[1].wageGrowthPct).toBe(members[0].wageGrowthPct)
+  })
+
+  it('has one member without a partner', () => {
+    expect(getHouseholdMembers(single, settings, 0.03)).toHaveLength(1)
+  })
+})
+
+describe('getOwnershipShare', () => {
+  const property = createDefaultPropertyState(settings, { value: 800000 })
+
+  it('splits couples\' property evenly unless a share is set', () => {
+    expect(getOwnershipShare(property, single)).toBe(1)
+    expect(getOwnershipShare(property, couple)).toBe(0.5)
+    expect(getOwnershipShare({ ...property, ownershipShare: 0.7 }, couple)).toBe(0.7)
+  })
+})
+
+describe('getProjectionEndAge', () => {
+  it('runs until a younger partner reaches the end age', () => {
+    expect(getProjectionEndAge(single, 100)).toBe(100)
+    expect(getProjectionEndAge(couple, 100)).toBe(104)
+  })
+})
+
+describe('couple projection', () => {
+  it('adds the partner\'s super to the household', () => {
+    const startDate = new Date(2026, 6, 1)
+    const alone = runScenario(single, settings, { startDate })
+    const together = runScenario(couple, settings, { startDate })
+
+    expect(together.series.superBalance[0]).toBe(alone.series.superBalance[0] + 80000)
+    expect(together.series.month).toHaveLength(alone.series.month.length + 4 * 12)
+  })
+})
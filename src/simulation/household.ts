@@ -0,0 +1,81 @@
+/**
+ * Household helpers
+ * Flattens the primary member and an optional partner into per-person inputs for the engine
+ */
+
+import type { AppSettings, HelpDebtState, PlannerState, PropertyState, SuperState } from '../types/planner'
+
+export interface HouseholdMember {
+  name: string
+  currentAge: number
+  retireAge: number
+  preservationAge: number
+  salary: number
+  bonus: number
+  wageGrowthPct: number
+  super: SuperState
+  helpDebt?: HelpDebtState
+  retireMonth: number                    // projection month this member stops work; 0 if already retired
+}
+
+/**
+ * Everyone whose income and super the projection tracks, primary member first
+ * @param fallbackWageGrowth - Used when neither the member nor the household sets a rate
+ */
+export const getHouseholdMembers = (
+  input: PlannerState,
+  settings: AppSettings,
+  fallbackWageGrowth: number
+): HouseholdMember[] => {
+  const { goal, incomeExpense, partner } = input
+  const householdWageGrowth = incomeExpense.wageGrowthPct ?? fallbackWageGrowth
+
+  const members: HouseholdMember[] = [{
+    name: 'You',
+    currentAge: goal.currentAge,
+    retireAge: goal.retireAge,
+    preservationAge: input.preservation?.preservationAge || settings.preservationAge,
+    salary: incomeExpense.salary,
+    bonus: incomeExpense.bonus || 0,
+    wageGrowthPct: householdWageGrowth,
+    super: input.super,
+    helpDebt: incomeExpense.helpDebt,
+    retireMonth: (goal.retireAge - goal.currentAge) * 12
+  }]
+
+  if (partner) {
+    members.push({
+      name: partner.name || 'Partner',
+      currentAge: partner.currentAge,
+      retireAge: partner.retireAge,
+      preservationAge: partner.preservationAge || settings.preservationAge,
+      salary: partner.salary,
+      bonus: partner.bonus || 0,
+      wageGrowthPct: partner.wageGrowthPct ?? householdWageGrowth,
+      super: partner.super,
+      helpDebt: partner.helpDebt,
+      retireMonth: Math.max(0, (partner.retireAge - partner.currentAge) * 12)
+    })
+  }
+
+  return members
+}
+
+/**
+ * Share of a property owned by the primary member
+ * Couples own property jointly (50/50) unless a split is set
+ */
+export const getOwnershipShare = (property: PropertyState, input: PlannerState): number => {
+  if (!input.partner) return 1
+  return Math.min(1, Math.max(0, property.ownershipShare ?? 0.5))
+}
+
+/**
+ * Final age of the projection, in the primary member's years
+ * Runs until every member reaches `endAge`, and never stops before the primary member retires
+ */
+export const getProjectionEndAge = (input: PlannerState, endAge: number): number => {
+  const { goal, partner } = input
+  const partnerOffset = partner ? Math.max(0, goal.currentAge - partner.currentAge) : 0
+  return Math.max(endAge + partnerOffset, goal.retireAge)
+}
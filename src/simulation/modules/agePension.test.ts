@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest'
+import { calculateAgePension, calculateDeemedIncome, type AgePensionAssessment } from './agePension'
+import { getAgePensionParameters } from '../data/agePensionRates'
+
+const params = getAgePensionParameters(new Date(2025, 6, 1))
+
+const single: AgePensionAssessment = {
+  isCouple: false,
+  isHomeowner: true,
+  financialAssets: 0,
+  otherAssets: 0,
+  otherIncomeYearly: 0
+}
+
+describe('calculateDeemedIncome', () => {
+  it('deems the lower rate up to the threshold and the upper rate above it', () => {
+    expect(calculateDeemedIncome(50000, false, params)).toBeCloseTo(50000 * 0.0025)
+    expect(calculateDeemedIncome(160400, false, params)).toBeCloseTo(60400 * 0.0025 + 100000 * 0.0225)
+    expect(calculateDeemedIncome(160400, true, params)).toBeCloseTo(100200 * 0.0025 + 60200 * 0.0225)
+  })
+
+  it('scales the threshold with indexation', () => {
+    expect(calculateDeemedIncome(120800, false, params, 2)).toBeCloseTo(120800 * 0.0025)
+  })
+})
+
+describe('calculateAgePension', () => {
+  it('pays the maximum rate with no assets or income', () => {
+    const result = calculateAgePension(single, params)
+    expect(result.entitlementFortnightly).toBe(1144.40)
+    expect(result.bindingTest).toBe('none')
+  })
+
+  it('tapers $3 a fortnight for each $1,000 over the assets limit', () => {
+    const result = calculateAgePension({ ...single, otherAssets: 401750 }, params)
+    expect(result.assetsTestFortnightly).toBeCloseTo(1144.40 - 300)
+    expect(result.bindingTest).toBe('assets')
+  })
+
+  it('uses the higher assets limit for non-homeowners', () => {
+    const result = calculateAgePension({ ...single, isHomeowner: false, otherAssets: 401750 }, params)
+    expect(result.assetsTestFortnightly).toBe(1144.40)
+  })
+
+  it('tapers 50c in the dollar of income over the free area', () => {
+    const result = calculateAgePension({ ...single, otherIncomeYearly: (212 + 100) * 26 }, params)
+    expect(result.incomeTestFortnightly).toBeCloseTo(1144.40 - 50)
+    expect(result.bindingTest).toBe('income')
+  })
+
+  it('combines couple rates and never goes below zero', () => {
+    expect(calculateAgePension({ ...single, isCouple: true }, params).entitlementFortnightly).toBe(1725.20)
+    expect(calculateAgePension({ ...single, otherAssets: 5000000 }, params).entitlementFortnightly).toBe(0)
+  })
+})
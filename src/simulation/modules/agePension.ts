@@ -0,0 +1,78 @@
+/**
+ * Age Pension module
+ * Centrelink assets and income tests with deeming; the lower result is the entitlement
+ */
+
+import type { AgePensionParameters } from '../data/agePensionRates'
+
+export interface AgePensionAssessment {
+  isCouple: boolean
+  isHomeowner: boolean                   // the principal home is exempt from the assets test
+  financialAssets: number                // super in pension phase, investments and cash (deemed)
+  otherAssets: number                    // e.g. investment property net of its loan
+  otherIncomeYearly: number              // e.g. net rental income
+}
+
+export interface AgePensionEntitlement {
+  assetsTestFortnightly: number
+  incomeTestFortnightly: number
+  entitlementFortnightly: number
+  deemedIncomeYearly: number
+  bindingTest: 'assets' | 'income' | 'none'
+}
+
+/**
+ * Deemed income on financial assets: a low rate up to the threshold, a higher rate above it
+ * @param indexation - Price index applied to dollar thresholds for future years
+ */
+export const calculateDeemedIncome = (
+  financialAssets: number,
+  isCouple: boolean,
+  params: AgePensionParameters,
+  indexation = 1
+): number => {
+  const { lowerRate, upperRate, threshold } = params.deeming
+  const limit = (isCouple ? threshold.couple : threshold.single) * indexation
+  const assets = Math.max(0, financialAssets)
+
+  return Math.min(assets, limit) * lowerRate + Math.max(0, assets - limit) * upperRate
+}
+
+/**
+ * Fortnightly Age Pension under both means tests
+ * Couple amounts are combined; rates and thresholds are scaled by `indexation`
+ */
+export const calculateAgePension = (
+  assessment: AgePensionAssessment,
+  params: AgePensionParameters,
+  indexation = 1
+): AgePensionEntitlement => {
+  const household = assessment.isCouple ? 'couple' : 'single'
+  const maxRate = params.maxRateFortnightly[household] * indexation
+
+  // Assets test
+  const limits = params.assetsTest.fullPensionLimit[household]
+  const assetLimit = (assessment.isHomeowner ? limits.homeowner : limits.nonHomeowner) * indexation
+  const assessableAssets = Math.max(0, assessment.financialAssets) + Math.max(0, assessment.otherAssets)
+  const assetsReduction = (Math.max(0, assessableAssets - assetLimit) / 1000) * params.assetsTest.taperPerThousandFortnightly * indexation
+  const assetsTestFortnightly = Math.max(0, maxRate - assetsReduction)
+
+  // Income test
+  const deemedIncomeYearly = calculateDeemedIncome(assessment.financialAssets, assessment.isCouple, params, indexation)
+  const incomeFortnightly = (deemedIncomeYearly + Math.max(0, assessment.otherIncomeYearly)) / 26
+  const freeArea = params.incomeTest.freeAreaFortnightly[household] * indexation
+  const incomeReduction = Math.max(0, incomeFortnightly - freeArea) * params.incomeTest.taperRate
+  const incomeTestFortnightly = Math.max(0, maxRate - incomeReduction)
+
+  const entitlementFortnightly = Math.min(assetsTestFortnightly, incomeTestFortnightly)
+
+  return {
+    assetsTestFortnightly,
+    incomeTestFortnightly,
+    entitlementFortnightly,
+    deemedIncomeYearly,
+    bindingTest: entitlementFortnightly >= maxRate
+      ? 'none'
+      : assetsTestFortnightly <= incomeTestFortnightly ? 'assets' : 'income'
+  }
+}
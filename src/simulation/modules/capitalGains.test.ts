@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest'
+import { addCapitalGain, assessCapitalGains, emptyCapitalGainsTotals, getNetCapitalGain } from './capitalGains'
+import { getTaxParameters } from '../data/taxParameters'
+
+const withGains = (gains: Array<[number, boolean]>, otherTaxableIncome = 0, months = 12) => {
+  const totals = { ...emptyCapitalGainsTotals(), otherTaxableIncome, months }
+  gains.forEach(([gain, discountable]) => addCapitalGain(totals, gain, discountable))
+  return totals
+}
+
+describe('getNetCapitalGain', () => {
+  it('halves gains on assets held long enough for the discount', () => {
+    expect(getNetCapitalGain(withGains([[10000, true], [4000, false]]), 0))
+      .toEqual({ netCapitalGain: 5000 + 4000, carriedLoss: 0 })
+  })
+
+  it('offsets losses against undiscounted gains before applying the discount', () => {
+    expect(getNetCapitalGain(withGains([[10000, true], [4000, false], [-6000, false]]), 0))
+      .toEqual({ netCapitalGain: 4000, carriedLoss: 0 })
+  })
+
+  it('carries unused losses forward and applies them the next year', () => {
+    const first = getNetCapitalGain(withGains([[2000, true], [-5000, false]]), 0)
+    expect(first).toEqual({ netCapitalGain: 0, carriedLoss: 3000 })
+    expect(getNetCapitalGain(withGains([[10000, true]]), first.carriedLoss).netCapitalGain).toBe(3500)
+  })
+})
+
+describe('assessCapitalGains', () => {
+  const tax = getTaxParameters(2025)
+
+  it('taxes the discounted gain at the marginal rate plus the Medicare levy', () => {
+    const result = assessCapitalGains(withGains([[20000, true]], 90000), 0, tax)
+    expect(result.netCapitalGain).toBe(10000)
+    expect(result.tax).toBeCloseTo(10000 * (0.30 + 0.02))
+  })
+
+  it('annualises other income in a part year', () => {
+    const partYear = assessCapitalGains(withGains([[20000, true]], 45000, 6), 0, tax)
+    const fullYear = assessCapitalGains(withGains([[20000, true]], 90000, 12), 0, tax)
+    expect(partYear.tax).toBeCloseTo(fullYear.tax)
+  })
+
+  it('charges no tax on a net loss', () => {
+    expect(assessCapitalGains(withGains([[-1000, false]], 90000), 0, tax)).toEqual({ netCapitalGain: 0, tax: 0, carriedLoss: 1000 })
+  })
+})
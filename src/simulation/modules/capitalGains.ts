@@ -0,0 +1,78 @@
+/**
+ * Capital gains tax module
+ * Gains on ETF units and properties, the 50% discount after 12 months, and tax at the owner's
+ * marginal rates in the financial year of disposal
+ */
+
+import type { TaxParameters } from '../data/taxParameters'
+import { calculateTaxOnAdditionalIncome } from '../../utils/taxCalculations'
+
+export const CGT_DISCOUNT = 0.5
+export const DISCOUNT_HOLDING_MONTHS = 12
+
+// One owner's disposals and other income for a financial year
+export interface CapitalGainsYearTotals {
+  discountableGains: number              // assets held 12 months or more
+  otherGains: number
+  losses: number
+  otherTaxableIncome: number
+  months: number                         // months of income recorded (short in the first year)
+}
+
+export const emptyCapitalGainsTotals = (): CapitalGainsYearTotals => ({
+  discountableGains: 0,
+  otherGains: 0,
+  losses: 0,
+  otherTaxableIncome: 0,
+  months: 0
+})
+
+/**
+ * Record a disposal; a negative gain is a capital loss
+ */
+export const addCapitalGain = (totals: CapitalGainsYearTotals, gain: number, discountable: boolean) => {
+  if (gain < 0) {
+    totals.losses -= gain
+  } else if (discountable) {
+    totals.discountableGains += gain
+  } else {
+    totals.otherGains += gain
+  }
+}
+
+/**
+ * Net capital gain for the year
+ * Losses (including those carried in from earlier years) offset undiscounted gains first, then
+ * the discount applies to what's left; unused losses carry forward.
+ */
+export const getNetCapitalGain = (totals: CapitalGainsYearTotals, carriedLoss: number) => {
+  let losses = totals.losses + carriedLoss
+  const otherGains = Math.max(0, totals.otherGains - losses)
+  losses = Math.max(0, losses - totals.otherGains)
+  const discountableGains = Math.max(0, totals.discountableGains - losses)
+  losses = Math.max(0, losses - totals.discountableGains)
+
+  return {
+    netCapitalGain: otherGains + discountableGains * (1 - CGT_DISCOUNT),
+    carriedLoss: losses
+  }
+}
+
+/**
+ * Assess a financial year: the net gain is taxed on top of the owner's other income for the year
+ * (annualised when the projection started part-way through it)
+ */
+export const assessCapitalGains = (
+  totals: CapitalGainsYearTotals,
+  carriedLoss: number,
+  tax: TaxParameters
+) => {
+  const { netCapitalGain, carriedLoss: lossToCarry } = getNetCapitalGain(totals, carriedLoss)
+  const otherTaxableIncome = totals.months > 0 ? totals.otherTaxableIncome * 12 / totals.months : 0
+
+  return {
+    netCapitalGain,
+    tax: netCapitalGain > 0 ? calculateTaxOnAdditionalIncome(netCapitalGain, otherTaxableIncome, tax) : 0,
+    carriedLoss: lossToCarry
+  }
+}
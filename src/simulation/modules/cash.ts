@@ -0,0 +1,46 @@
+/**
+ * Buffers & cash flow module
+ * Routes take-home pay through expenses, property cash flow and investing
+ */
+
+import type { BuffersState } from '../../types/planner'
+import type { CashModuleState } from '../types'
+
+/**
+ * Cash the buffer policy wants held: emergency months of living costs
+ * plus property months of loan repayments and holding costs
+ */
+export const calculateBufferTarget = (
+  buffers: BuffersState,
+  monthlyExpenses: number,
+  monthlyPropertyOutgoings: number
+): number => {
+  return buffers.emergencyMonths * monthlyExpenses + buffers.propertyMonths * monthlyPropertyOutgoings
+}
+
+/**
+ * Cash on hand after this month's income, expenses and property cash flow,
+ * before any investing decisions are made
+ */
+export const calculateAvailableCash = (
+  previousState: CashModuleState,
+  netIncome: number,
+  expenses: number,
+  propertyNetCashflow: number
+): number => {
+  return previousState.totalCash + netIncome - expenses + propertyNetCashflow
+}
+
+export const calculateCashProgression = (
+  availableCash: number,
+  investedThisMonth: number,
+  bufferTarget: number
+): CashModuleState => {
+  const totalCash = availableCash - investedThisMonth
+
+  return {
+    totalCash,
+    bufferTarget,
+    buffersAdequate: totalCash >= bufferTarget
+  }
+}
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest'
+import { calculateDistributionTaxEffect, getDistributionTaxDrag } from './distributionTax'
+import { getDistributionPolicy, getMonthlyDistribution } from './portfolio'
+import { getTaxParameters } from '../data/taxParameters'
+import { createDefaultPlannerState, type AppSettings } from '../../types/planner'
+import { createDefaultSettings } from '../../schemas/planner'
+
+const settings = createDefaultSettings() as AppSettings
+const tax = getTaxParameters(2025)
+const portfolio = { ...createDefaultPlannerState(settings).portfolio, weights: { aus: 0.4, global: 0.6 } }
+
+describe('getDistributionPolicy', () => {
+  it('weights the yield and franking across the holdings', () => {
+    const policy = getDistributionPolicy(portfolio, settings)
+    expect(policy.yieldPct).toBeCloseTo(0.04 * 0.4 + 0.02 * 0.6)
+    expect(policy.frankingPct).toBeCloseTo(0.4)
+  })
+})
+
+describe('getMonthlyDistribution', () => {
+  it('attaches franking credits at the corporate rate', () => {
+    const { distribution, frankingCredits } = getMonthlyDistribution(portfolio, 120000, 0.3, settings)
+    expect(distribution).toBeCloseTo(280)
+    expect(frankingCredits).toBeCloseTo(280 * 0.4 * 0.3 / 0.7)
+  })
+})
+
+describe('calculateDistributionTaxEffect', () => {
+  it('taxes the grossed-up distribution and offsets the credits', () => {
+    expect(calculateDistributionTaxEffect(7000, 3000, 90000, tax)).toBeCloseTo(10000 * (0.30 + 0.02) - 3000)
+  })
+
+  it('refunds credits beyond the tax payable', () => {
+    expect(calculateDistributionTaxEffect(7000, 3000, 0, tax)).toBeCloseTo(-3000)
+  })
+})
+
+describe('getDistributionTaxDrag', () => {
+  it('is a cost on a high income and a benefit on a low one', () => {
+    expect(getDistributionTaxDrag(portfolio, 200000, 150000, settings, tax)).toBeGreaterThan(0)
+    expect(getDistributionTaxDrag(portfolio, 200000, 0, settings, tax)).toBeLessThan(0)
+    expect(getDistributionTaxDrag(portfolio, 0, 150000, settings, tax)).toBe(0)
+  })
+})
@@ -0,0 +1,43 @@
+/**
+ * ETF distribution tax module
+ * Distributions and their franking credits are taxed at the investor's marginal rate; credits
+ * beyond the tax payable are refunded
+ */
+
+import type { AppSettings, PortfolioState } from '../../types/planner'
+import { getTaxParameters, type TaxParameters } from '../data/taxParameters'
+import { calculateTaxOnAdditionalIncome } from '../../utils/taxCalculations'
+import { getMonthlyDistribution } from './portfolio'
+
+/**
+ * Change in an investor's tax from their distributions
+ * The grossed-up distribution (cash plus franking credits) is taxable income, and the credits are
+ * then offset against the tax, so on a low income they come back as a refund.
+ * @param distribution - Cash distributions, yearly
+ * @param frankingCredits - Credits attached to them, yearly
+ * @param otherTaxableIncome - Investor's other taxable income, yearly
+ * @returns Extra tax payable; negative is a refund
+ */
+export const calculateDistributionTaxEffect = (
+  distribution: number,
+  frankingCredits: number,
+  otherTaxableIncome: number,
+  params?: TaxParameters
+): number =>
+  calculateTaxOnAdditionalIncome(distribution + frankingCredits, otherTaxableIncome, params) - frankingCredits
+
+/**
+ * Yearly tax on distributions as a share of the balance, for return estimates outside the engine
+ * Negative when franking refunds outweigh the tax.
+ */
+export const getDistributionTaxDrag = (
+  input: PortfolioState,
+  balance: number,
+  otherTaxableIncome: number,
+  settings: AppSettings,
+  params: TaxParameters = getTaxParameters()
+): number => {
+  if (balance <= 0) return 0
+  const { distribution, frankingCredits } = getMonthlyDistribution(input, balance, params.franking.corporateTaxRate, settings)
+  return calculateDistributionTaxEffect(distribution * 12, frankingCredits * 12, otherTaxableIncome, params) / balance
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest'
+import { calculateFhssReleaseTax, getFhssTakeHomeCost, projectFhssDeposit } from './fhss'
+import { getTaxParameters } from '../data/taxParameters'
+
+const tax = getTaxParameters(2025)
+const options = {
+  salary: 90000,
+  depositTarget: 60000,
+  depositGrowth: 0.04,
+  etfReturn: 0.06,
+  wageGrowth: 0.03,
+  inflation: 0.025,
+  startDate: new Date(2025, 6, 1)
+}
+
+describe('calculateFhssReleaseTax', () => {
+  it('taxes the release at marginal rates less the 30% offset, never below nil', () => {
+    expect(calculateFhssReleaseTax(10000, 90000, tax)).toBeCloseTo(10000 * (0.30 + 0.02 - 0.30))
+    expect(calculateFhssReleaseTax(10000, 0, tax)).toBe(0)
+    expect(calculateFhssReleaseTax(0, 90000, tax)).toBe(0)
+  })
+})
+
+describe('getFhssTakeHomeCost', () => {
+  it('costs less take-home pay when salary sacrificed', () => {
+    expect(getFhssTakeHomeCost({ contributionYearly: 10000, contributionType: 'non-concessional' }, 10000, 90000, tax)).toBe(10000)
+    expect(getFhssTakeHomeCost({ contributionYearly: 10000, contributionType: 'concessional' }, 10000, 90000, tax))
+      .toBeCloseTo(10000 * (1 - 0.30 - 0.02))
+  })
+})
+
+describe('projectFhssDeposit', () => {
+  const projection = projectFhssDeposit({ contributionYearly: 15000, contributionType: 'concessional' }, options)
+
+  it('stops contributions at the total limit and saves the rest in cash', () => {
+    const longer = projectFhssDeposit({ contributionYearly: 15000, contributionType: 'concessional' }, { ...options, depositTarget: 150000 })
+    expect(longer.fhss.contributions).toBeCloseTo(tax.fhss.totalLimit)
+    expect(longer.fhss.limitReached).toBe(true)
+    expect(longer.fhss.available).toBeGreaterThan(tax.fhss.totalLimit)
+  })
+
+  it('reaches a deposit sooner through salary sacrifice than in cash', () => {
+    expect(projection.fhss.monthsToDeposit).not.toBeNull()
+    expect(projection.fhss.monthsToDeposit!).toBeLessThan(projection.cash.monthsToDeposit!)
+    expect(projection.fhss.available).toBeGreaterThanOrEqual(60000)
+    expect(projection.monthlyCost).toBeCloseTo(getFhssTakeHomeCost({ contributionYearly: 15000, contributionType: 'concessional' }, 15000, 90000, tax) / 12)
+  })
+
+  it('releases after-tax contributions without tax', () => {
+    const afterTax = projectFhssDeposit({ contributionYearly: 15000, contributionType: 'non-concessional' }, { ...options, depositTarget: 10000 })
+    const earningsTax = calculateFhssReleaseTax(afterTax.fhss.deemedEarnings, 90000, tax)
+    expect(afterTax.fhss.tax).toBeCloseTo(earningsTax)
+  })
+})
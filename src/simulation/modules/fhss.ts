@@ -0,0 +1,179 @@
+/**
+ * First Home Super Saver module
+ * Voluntary contributions saved towards a first home inside super: annual and total limits,
+ * deemed earnings, and tax on release at marginal rates less the offset. Compared against saving
+ * the same take-home pay in ETFs or cash.
+ */
+
+import type { FhssPlanState } from '../../types/planner'
+import { getTaxParameters, type TaxIndexation, type TaxParameters } from '../data/taxParameters'
+import { calculateNetIncome, calculateTaxOnAdditionalIncome } from '../../utils/taxCalculations'
+import { CGT_DISCOUNT, DISCOUNT_HOLDING_MONTHS } from './capitalGains'
+import { getFinancialYear, getFinancialYearMonth, toMonthlyRate } from '../utils'
+
+const MAX_PROJECTION_MONTHS = 360
+
+// Interest on a high-interest savings account, before tax
+export const DEFAULT_CASH_RATE = 0.04
+
+export interface FhssDepositPath {
+  monthsToDeposit: number | null         // null if the deposit isn't reached within the projection
+  depositDate: Date | null
+  available: number                      // after tax, when the deposit is reached (or at the end)
+  tax: number                            // due on release or sale; cash interest is taxed as it's earned
+}
+
+export interface FhssProjection {
+  monthlyCost: number                    // take-home pay set aside each month
+  fhss: FhssDepositPath & {
+    contributions: number                // eligible contributions, up to the total limit
+    deemedEarnings: number
+    limitReached: boolean                // later savings go to cash alongside the release
+  }
+  etf: FhssDepositPath
+  cash: FhssDepositPath
+}
+
+interface FhssProjectionOptions {
+  salary: number                         // yearly, before salary sacrifice
+  depositTarget: number                  // in today's prices
+  depositGrowth: number                  // yearly; property prices, so the target keeps moving
+  etfReturn: number                      // yearly, after fees and tax on distributions
+  cashRate?: number                      // yearly, before tax
+  wageGrowth: number
+  inflation: number
+  startDate?: Date
+}
+
+/**
+ * Tax when FHSS savings are released: concessional contributions (after contributions tax) and
+ * deemed earnings are assessable at marginal rates, less the offset; after-tax contributions come
+ * back tax-free
+ */
+export const calculateFhssReleaseTax = (
+  assessableAmount: number,
+  otherTaxableIncome: number,
+  tax: TaxParameters
+): number => {
+  if (assessableAmount <= 0) return 0
+  const marginalTax = calculateTaxOnAdditionalIncome(assessableAmount, otherTaxableIncome, tax)
+  return Math.max(0, marginalTax - assessableAmount * tax.fhss.releaseOffsetRate)
+}
+
+/**
+ * Take-home pay a year's FHSS contributions cost
+ * Salary sacrifice costs less than it contributes because it comes out before income tax.
+ */
+export const getFhssTakeHomeCost = (
+  plan: FhssPlanState,
+  contributionYearly: number,
+  salary: number,
+  tax: TaxParameters
+): number => {
+  if (plan.contributionType === 'non-concessional') return contributionYearly
+  return calculateNetIncome(salary, 0, tax).netIncome - calculateNetIncome(salary, contributionYearly, tax).netIncome
+}
+
+/**
+ * Project when each way of saving reaches the deposit
+ * Each month the same take-home pay goes into the FHSS scheme, ETFs or cash. FHSS contributions
+ * stop at the annual and total limits, after which the savings go to cash and count with the
+ * release. ETF gains are taxed as if sold for the deposit, with the discount once the average
+ * holding passes 12 months, and cash interest at the marginal rate as it's earned.
+ */
+export const projectFhssDeposit = (plan: FhssPlanState, options: FhssProjectionOptions): FhssProjection => {
+  const startDate = options.startDate || new Date()
+  const startFyMonth = getFinancialYearMonth(startDate)
+  const startFinancialYear = getFinancialYear(startDate)
+  const indexation: TaxIndexation = { inflation: options.inflation, wageGrowth: options.wageGrowth }
+  const cashRate = options.cashRate ?? DEFAULT_CASH_RATE
+  const taxAtStart = getTaxParameters(startFinancialYear, indexation)
+  const requestedMonthly = plan.contributionYearly / 12
+  const monthlyCost = getFhssTakeHomeCost(plan, plan.contributionYearly, options.salary, taxAtStart) / 12
+  const releasableShare = plan.contributionType === 'concessional' ? taxAtStart.fhss.concessionalShare : 1
+
+  const emptyPath = (): FhssDepositPath => ({ monthsToDeposit: null, depositDate: null, available: 0, tax: 0 })
+  const fhss = { ...emptyPath(), contributions: 0, deemedEarnings: 0, limitReached: false }
+  const etf = emptyPath()
+  const cash = emptyPath()
+  const dateAfter = (months: number) => new Date(startDate.getFullYear(), startDate.getMonth() + months, 1)
+
+  // FHSS: eligible amounts (after contributions tax) earn the deemed rate; overflow savings sit in cash
+  let eligible = 0
+  let assessable = 0
+  let overflowCash = 0
+  let yearContributions = 0
+  let etfBalance = 0
+  let etfInvested = 0
+  let cashBalance = 0
+  let depositTarget = options.depositTarget
+  let tax = taxAtStart
+
+  for (let month = 1; month <= MAX_PROJECTION_MONTHS; month++) {
+    if ((startFyMonth + month - 1) % 12 === 0 && month > 1) {
+      yearContributions = 0
+      tax = getTaxParameters(startFinancialYear + Math.floor((startFyMonth + month - 1) / 12), indexation)
+    }
+    const salary = options.salary * Math.pow(1 + options.wageGrowth, Math.floor((month - 1) / 12))
+    depositTarget *= 1 + toMonthlyRate(options.depositGrowth)
+    const cashAfterTax = cashRate * (1 - calculateTaxOnAdditionalIncome(1000, salary, tax) / 1000)
+
+    const deemedEarnings = eligible * toMonthlyRate(tax.fhss.deemedEarningsRate)
+    eligible += deemedEarnings
+    assessable += deemedEarnings
+    fhss.deemedEarnings += deemedEarnings
+    overflowCash *= 1 + toMonthlyRate(cashAfterTax)
+
+    const contributionRoom = Math.max(0, Math.min(
+      tax.fhss.annualLimit - yearContributions,
+      tax.fhss.totalLimit - fhss.contributions
+    ))
+    const contribution = Math.min(requestedMonthly, contributionRoom)
+    yearContributions += contribution
+    fhss.contributions += contribution
+    eligible += contribution * releasableShare
+    if (plan.contributionType === 'concessional') assessable += contribution * releasableShare
+    if (contribution < requestedMonthly) {
+      fhss.limitReached = fhss.limitReached || fhss.contributions >= tax.fhss.totalLimit
+      overflowCash += monthlyCost * (1 - contribution / requestedMonthly)
+    }
+
+    etfBalance = etfBalance * (1 + toMonthlyRate(options.etfReturn)) + monthlyCost
+    etfInvested += monthlyCost
+    cashBalance = cashBalance * (1 + toMonthlyRate(cashAfterTax)) + monthlyCost
+
+    if (fhss.monthsToDeposit === null) {
+      const releaseTax = calculateFhssReleaseTax(assessable, salary, tax)
+      fhss.tax = releaseTax
+      fhss.available = eligible - releaseTax + overflowCash
+      if (fhss.available >= depositTarget) {
+        fhss.monthsToDeposit = month
+        fhss.depositDate = dateAfter(month)
+      }
+    }
+
+    if (etf.monthsToDeposit === null) {
+      const gain = Math.max(0, etfBalance - etfInvested)
+      // Savings go in evenly, so the average holding is half the time saving
+      const discount = month / 2 >= DISCOUNT_HOLDING_MONTHS ? CGT_DISCOUNT : 0
+      etf.tax = calculateTaxOnAdditionalIncome(gain * (1 - discount), salary, tax)
+      etf.available = etfBalance - etf.tax
+      if (etf.available >= depositTarget) {
+        etf.monthsToDeposit = month
+        etf.depositDate = dateAfter(month)
+      }
+    }
+
+    if (cash.monthsToDeposit === null) {
+      cash.available = cashBalance
+      if (cash.available >= depositTarget) {
+        cash.monthsToDeposit = month
+        cash.depositDate = dateAfter(month)
+      }
+    }
+
+    if (fhss.monthsToDeposit !== null && etf.monthsToDeposit !== null && cash.monthsToDeposit !== null) break
+  }
+
+  return { monthlyCost, fhss, etf, cash }
+}
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest'
+import { compareInvestVsRepay, getHelpIndexationRate, projectHelpDebt } from './help'
+import { getTaxParameters } from '../data/taxParameters'
+import { calculateHelpRepayment } from '../../utils/taxCalculations'
+
+const startDate = new Date(2025, 6, 1)
+const options = { salary: 50000, wageGrowth: 0.03, inflation: 0.025, startDate }
+
+describe('getHelpIndexationRate', () => {
+  it('uses the lower of CPI and wage growth, never below zero', () => {
+    expect(getHelpIndexationRate(0.04, 0.03)).toBe(0.03)
+    expect(getHelpIndexationRate(0.025, 0.03)).toBe(0.025)
+    expect(getHelpIndexationRate(-0.01, 0.03)).toBe(0)
+  })
+})
+
+describe('calculateHelpRepayment', () => {
+  it('charges the marginal schedule on income over the threshold from 2025-26', () => {
+    const tax = getTaxParameters(2025)
+    expect(calculateHelpRepayment(60000, tax)).toBe(0)
+    expect(calculateHelpRepayment(80000, tax)).toBeCloseTo(1950)
+  })
+})
+
+describe('projectHelpDebt', () => {
+  it('indexes the debt each June when income is under the threshold', () => {
+    const projection = projectHelpDebt({ balance: 20000 }, options)
+    const [first] = projection.years
+
+    expect(first.financialYear).toBe(2025)
+    expect(first.compulsoryRepayments).toBe(0)
+    expect(first.indexation).toBeCloseTo(20000 * 0.025)
+    expect(first.closingBalance).toBeCloseTo(20500)
+  })
+
+  it('reconciles each year and pays the debt off with voluntary repayments', () => {
+    const projection = projectHelpDebt({ balance: 20000, voluntaryRepaymentMonthly: 1000 }, options)
+
+    projection.years.forEach(year => {
+      expect(year.closingBalance).toBeCloseTo(
+        year.openingBalance + year.indexation - year.compulsoryRepayments - year.voluntaryRepayments)
+    })
+    expect(projection.monthsToPayoff).toBe(21)
+    expect(projection.payoffDate).toEqual(new Date(2027, 2, 1))
+    expect(projection.years[projection.years.length - 1].closingBalance).toBeCloseTo(0)
+  })
+})
+
+describe('compareInvestVsRepay', () => {
+  const earning = { ...options, salary: 80000 }
+
+  it('pays the debt off sooner when the extra goes to it', () => {
+    expect(compareInvestVsRepay({ balance: 30000 }, 500, 0.02, earning).monthsSaved).toBeGreaterThan(0)
+  })
+
+  it('favours repaying when investing earns less than indexation, and investing when it earns more', () => {
+    expect(compareInvestVsRepay({ balance: 30000 }, 500, 0, earning).advantage).toBeGreaterThan(0)
+    expect(compareInvestVsRepay({ balance: 30000 }, 500, 0.10, earning).advantage).toBeLessThan(0)
+  })
+})
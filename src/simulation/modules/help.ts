@@ -0,0 +1,195 @@
+/**
+ * HECS/HELP module
+ * The debt is indexed each 1 June and repaid through compulsory repayments set by the year's
+ * threshold schedule, plus any voluntary repayments
+ */
+
+import type { HelpDebtState } from '../../types/planner'
+import type { HelpModuleState, SimulationContext } from '../types'
+import { getTaxParameters, type TaxIndexation } from '../data/taxParameters'
+import { calculateHelpRepayment } from '../../utils/taxCalculations'
+import { getFinancialYear, getFinancialYearMonth } from '../utils'
+
+const INDEXATION_FY_MONTH = 11           // June
+const MAX_PROJECTION_MONTHS = 600
+
+/**
+ * Indexation is the lower of CPI and wage growth (the WPI), and never negative
+ */
+export const getHelpIndexationRate = (inflation: number, wageGrowth: number): number =>
+  Math.max(0, Math.min(inflation, wageGrowth))
+
+/**
+ * One month of the debt
+ * Compulsory repayments are spread across the year as they're withheld from pay, rather than
+ * credited when the tax return is assessed.
+ */
+const stepHelpMonth = (
+  balance: number,
+  fyMonth: number,
+  indexationRate: number,
+  compulsoryYearly: number,
+  voluntaryMonthly: number
+): HelpModuleState => {
+  if (balance <= 0) return { balance: 0, indexation: 0, compulsoryRepayment: 0, voluntaryRepayment: 0 }
+
+  const indexation = fyMonth === INDEXATION_FY_MONTH ? balance * indexationRate : 0
+  const compulsoryRepayment = Math.min(balance + indexation, compulsoryYearly / 12)
+  const voluntaryRepayment = Math.min(balance + indexation - compulsoryRepayment, voluntaryMonthly)
+
+  return {
+    balance: balance + indexation - compulsoryRepayment - voluntaryRepayment,
+    indexation,
+    compulsoryRepayment,
+    voluntaryRepayment
+  }
+}
+
+export const createInitialHelpState = (input?: HelpDebtState): HelpModuleState => ({
+  balance: input?.balance || 0,
+  indexation: 0,
+  compulsoryRepayment: 0,
+  voluntaryRepayment: 0
+})
+
+/**
+ * Advance the HELP debt by one month
+ * @param repaymentIncome - Yearly: taxable income plus reportable super contributions and net
+ * investment losses
+ */
+export const calculateHelpProgression = (
+  input: HelpDebtState | undefined,
+  repaymentIncome: number,
+  context: SimulationContext,
+  previousState: HelpModuleState
+): HelpModuleState =>
+  stepHelpMonth(
+    previousState.balance,
+    context.fyMonth,
+    getHelpIndexationRate(context.assumptions.inflation, context.assumptions.wageGrowth),
+    calculateHelpRepayment(repaymentIncome, context.tax),
+    input?.voluntaryRepaymentMonthly || 0
+  )
+
+export interface HelpProjectionYear {
+  financialYear: number                  // calendar year the financial year starts in
+  openingBalance: number
+  indexation: number
+  compulsoryRepayments: number
+  voluntaryRepayments: number
+  closingBalance: number
+}
+
+export interface HelpProjection {
+  years: HelpProjectionYear[]
+  payoffDate: Date | null                // null if the debt outlasts the projection
+  monthsToPayoff: number | null
+  totalRepaid: number
+}
+
+interface HelpProjectionOptions {
+  salary: number                         // repayment income this year
+  wageGrowth: number
+  inflation: number
+  startDate?: Date
+}
+
+const runHelpProjection = (input: HelpDebtState, options: HelpProjectionOptions) => {
+  const startDate = options.startDate || new Date()
+  const startFyMonth = getFinancialYearMonth(startDate)
+  const startFinancialYear = getFinancialYear(startDate)
+  const indexation: TaxIndexation = { inflation: options.inflation, wageGrowth: options.wageGrowth }
+  const indexationRate = getHelpIndexationRate(options.inflation, options.wageGrowth)
+
+  const months: HelpModuleState[] = []
+  let balance = input.balance
+  for (let month = 0; month < MAX_PROJECTION_MONTHS && balance > 0; month++) {
+    const financialYear = startFinancialYear + Math.floor((startFyMonth + month) / 12)
+    // Income rises with wages each anniversary of the start
+    const income = options.salary * Math.pow(1 + options.wageGrowth, Math.floor(month / 12))
+    const compulsory = calculateHelpRepayment(income, getTaxParameters(financialYear, indexation))
+    const state = stepHelpMonth(balance, (startFyMonth + month) % 12, indexationRate, compulsory, input.voluntaryRepaymentMonthly || 0)
+    months.push(state)
+    balance = state.balance
+  }
+
+  return { months, startDate, startFyMonth, startFinancialYear, paidOff: balance <= 0 }
+}
+
+/**
+ * Project a HELP debt year by year on a salary alone, for the income step
+ * @returns Each financial year's movements and the month the debt is paid off
+ */
+export const projectHelpDebt = (input: HelpDebtState, options: HelpProjectionOptions): HelpProjection => {
+  const { months, startDate, startFyMonth, startFinancialYear, paidOff } = runHelpProjection(input, options)
+
+  const years: HelpProjectionYear[] = []
+  let openingBalance = input.balance
+  months.forEach((state, month) => {
+    const financialYear = startFinancialYear + Math.floor((startFyMonth + month) / 12)
+    let year = years[years.length - 1]
+    if (!year || year.financialYear !== financialYear) {
+      year = { financialYear, openingBalance, indexation: 0, compulsoryRepayments: 0, voluntaryRepayments: 0, closingBalance: openingBalance }
+      years.push(year)
+    }
+    year.indexation += state.indexation
+    year.compulsoryRepayments += state.compulsoryRepayment
+    year.voluntaryRepayments += state.voluntaryRepayment
+    year.closingBalance = state.balance
+    openingBalance = state.balance
+  })
+
+  const payoffDate = paidOff && months.length > 0
+    ? new Date(startDate.getFullYear(), startDate.getMonth() + months.length - 1, 1)
+    : null
+
+  return {
+    years,
+    payoffDate,
+    monthsToPayoff: paidOff ? months.length : null,
+    totalRepaid: months.reduce((sum, state) => sum + state.compulsoryRepayment + state.voluntaryRepayment, 0)
+  }
+}
+
+export interface InvestVsRepayComparison {
+  repayFirst: number                     // invested once the debt is gone, at the original payoff date
+  investInstead: number                  // the extra amount invested from the start
+  monthsSaved: number
+  advantage: number                      // positive when repaying first comes out ahead
+}
+
+/**
+ * Put an extra amount each month towards the debt, or invest it instead
+ * Both paths spend the same each month. Repaying first frees the repayments once the debt is
+ * gone, and they're invested from then; the comparison is made when the debt would otherwise
+ * have been paid off.
+ * @param investmentReturn - Yearly return on money invested, after fees and tax
+ */
+export const compareInvestVsRepay = (
+  input: HelpDebtState,
+  extraMonthly: number,
+  investmentReturn: number,
+  options: HelpProjectionOptions
+): InvestVsRepayComparison => {
+  const baseline = runHelpProjection(input, options).months
+  const repaying = runHelpProjection({
+    ...input,
+    voluntaryRepaymentMonthly: (input.voluntaryRepaymentMonthly || 0) + extraMonthly
+  }, options).months
+
+  const monthlyReturn = Math.pow(1 + investmentReturn, 1 / 12) - 1
+  const outflow = (state?: HelpModuleState) => (state ? state.compulsoryRepayment + state.voluntaryRepayment : 0)
+  let repayFirst = 0
+  let investInstead = 0
+  baseline.forEach((state, month) => {
+    repayFirst = repayFirst * (1 + monthlyReturn) + outflow(state) + extraMonthly - outflow(repaying[month])
+    investInstead = investInstead * (1 + monthlyReturn) + extraMonthly
+  })
+
+  return {
+    repayFirst,
+    investInstead,
+    monthsSaved: baseline.length - repaying.length,
+    advantage: repayFirst - investInstead
+  }
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest'
+import { calculateLandTax, getLandValue, type LandHolding } from './landTax'
+
+const date = new Date(2024, 7, 1)
+const investment = (value: number, state: LandHolding['state'], landValuePct?: number): LandHolding =>
+  ({ usage: 'investment', value, state, landValuePct })
+
+describe('getLandValue', () => {
+  it('takes half the value as land unless a share is given', () => {
+    expect(getLandValue(investment(800000, 'NSW'))).toBe(400000)
+    expect(getLandValue(investment(800000, 'NSW', 0.3))).toBe(240000)
+  })
+})
+
+describe('calculateLandTax', () => {
+  it('taxes a state\'s combined land and shares it by land value', () => {
+    const [first, second] = calculateLandTax([investment(1200000, 'NSW'), investment(1000000, 'NSW')], { date })
+
+    expect(first + second).toBeCloseTo(100 + 25000 * 0.016)
+    expect(first / second).toBeCloseTo(600000 / 500000)
+  })
+
+  it('assesses each state separately', () => {
+    const [nsw, vic] = calculateLandTax([investment(1200000, 'NSW'), investment(1400000, 'VIC')], { date })
+    expect(nsw).toBe(0)
+    expect(vic).toBeCloseTo(2250 + 100000 * 0.006)
+  })
+
+  it('taxes each ACT property alone, plus the fixed charge', () => {
+    const [first, second] = calculateLandTax([investment(400000, 'ACT'), investment(400000, 'ACT')], { date })
+    expect(first).toBeCloseTo(810 + 50000 * 0.0064 + 1624)
+    expect(second).toBeCloseTo(first)
+  })
+
+  it('exempts the home and the Northern Territory', () => {
+    const home: LandHolding = { usage: 'owner-occupied', value: 5000000, state: 'VIC' }
+    expect(calculateLandTax([home, investment(5000000, 'NT')], { date })).toEqual([0, 0])
+  })
+
+  it('raises thresholds with the price index', () => {
+    const [today] = calculateLandTax([investment(1400000, 'VIC')], { date })
+    const [later] = calculateLandTax([investment(2800000, 'VIC')], { date, indexation: 2 })
+    expect(later).toBeCloseTo(today * 2)
+  })
+
+  it('uses the default state for properties without one', () => {
+    const holdings = [investment(2400000, undefined)]
+    expect(calculateLandTax(holdings, { date, defaultState: 'VIC' })).toEqual(calculateLandTax([investment(2400000, 'VIC')], { date }))
+  })
+})
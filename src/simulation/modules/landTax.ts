@@ -0,0 +1,68 @@
+/**
+ * Land tax module
+ * Yearly land tax on investment properties: each state taxes the combined land value of the
+ * properties held there (the ACT taxes each property alone), and the home is exempt
+ */
+
+import type { AustralianState, PropertyState } from '../../types/planner'
+import { getLandTaxParameters } from '../data/landTaxRates'
+import type { DutyBracket } from '../data/stampDutyRates'
+import { DEFAULT_STATE, applyDutyBrackets } from './stampDuty'
+
+// Share of a property's value that's the land, when the valuation notice isn't to hand
+export const DEFAULT_LAND_VALUE_SHARE = 0.5
+
+export type LandHolding = Pick<PropertyState, 'usage' | 'state' | 'landValuePct'> & {
+  value: number                          // current market value; land value grows with it
+}
+
+interface LandTaxOptions {
+  defaultState?: AustralianState         // for properties without a state; default NSW
+  date?: Date                            // schedules in force on this date; default today
+  indexation?: number                    // price index applied to thresholds and charges in future years
+}
+
+export const getLandValue = (holding: LandHolding): number =>
+  Math.max(0, holding.value) * (holding.landValuePct ?? DEFAULT_LAND_VALUE_SHARE)
+
+/**
+ * Yearly land tax on each holding, in the order given
+ * Land values are added up by state and the state's tax shared across its properties by land
+ * value. The household is assessed as one owner, so couples holding jointly may pay a little
+ * less than this where states assess each owner's interest separately. Thresholds rise with
+ * `indexation`, so land growing faster than prices still pays more over time.
+ */
+export const calculateLandTax = (holdings: LandHolding[], options: LandTaxOptions = {}): number[] => {
+  const schedules = getLandTaxParameters(options.date).states
+  const indexation = options.indexation ?? 1
+  const applyBrackets = (landValue: number, brackets: DutyBracket[]) =>
+    applyDutyBrackets(landValue / indexation, brackets) * indexation
+  const landTax = holdings.map(() => 0)
+  const byState = new Map<AustralianState, number[]>()
+
+  holdings.forEach((holding, i) => {
+    if (holding.usage !== 'investment' || getLandValue(holding) <= 0) return
+    const state = holding.state || options.defaultState || DEFAULT_STATE
+    byState.set(state, [...(byState.get(state) || []), i])
+  })
+
+  byState.forEach((indices, state) => {
+    const schedule = schedules[state]
+    if (schedule.brackets.length === 0) return
+
+    if (schedule.perProperty) {
+      indices.forEach(i => {
+        landTax[i] = applyBrackets(getLandValue(holdings[i]), schedule.brackets) + (schedule.fixedChargePerProperty || 0) * indexation
+      })
+      return
+    }
+
+    const totalLandValue = indices.reduce((sum, i) => sum + getLandValue(holdings[i]), 0)
+    const stateTax = applyBrackets(totalLandValue, schedule.brackets)
+    indices.forEach(i => {
+      landTax[i] = stateTax * getLandValue(holdings[i]) / totalLandValue
+    })
+  })
+
+  return landTax
+}
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest'
+import { calculatePensionPhase, calculateRetirementDrawdown, getMinimumDrawdownRate } from './pension'
+import type { PortfolioModuleState, SimulationContext, SuperModuleState } from '../types'
+
+const account = (balance: number, minimumDrawdownYearly = 0): SuperModuleState => ({
+  balance,
+  monthlyContributions: 0,
+  salarySacrificeApplied: 0,
+  yearToDateContributions: 0,
+  concessionalCap: 30000,
+  unusedCap: [],
+  carryForwardEligible: false,
+  capUtilization: 0,
+  nonConcessionalApplied: 0,
+  nonConcessionalYearToDate: 0,
+  nonConcessionalYears: 0,
+  bringForward: null,
+  preservationReached: true,
+  pensionPhase: minimumDrawdownYearly > 0,
+  minimumDrawdownYearly
+})
+
+const portfolio = (balance: number): PortfolioModuleState => ({
+  balance,
+  monthlyContribution: 0,
+  dcaPaused: false,
+  pauseReason: 'none',
+  unitPrice: 1,
+  costBase: balance,
+  recentParcels: []
+})
+
+const context = (age: number, fyMonth: number) => ({ age, fyMonth }) as SimulationContext
+
+describe('getMinimumDrawdownRate', () => {
+  it('steps up with age', () => {
+    expect(getMinimumDrawdownRate(60)).toBe(0.04)
+    expect(getMinimumDrawdownRate(65)).toBe(0.05)
+    expect(getMinimumDrawdownRate(79.9)).toBe(0.06)
+    expect(getMinimumDrawdownRate(96)).toBe(0.14)
+  })
+})
+
+describe('calculatePensionPhase', () => {
+  it('waits until super can be accessed', () => {
+    const state = account(500000)
+    expect(calculatePensionPhase(false, context(60, 3), state)).toBe(state)
+  })
+
+  it('sets the minimum on commencement and resets it each 1 July', () => {
+    const started = calculatePensionPhase(true, context(66, 3), account(500000))
+    expect(started).toMatchObject({ pensionPhase: true, minimumDrawdownYearly: 25000 })
+
+    const grown = { ...started, balance: 600000 }
+    expect(calculatePensionPhase(true, context(66.5, 6), grown).minimumDrawdownYearly).toBe(25000)
+    expect(calculatePensionPhase(true, context(67, 0), grown).minimumDrawdownYearly).toBe(30000)
+  })
+})
+
+describe('calculateRetirementDrawdown', () => {
+  it('pays the minimum even when spending needs less', () => {
+    const drawdown = calculateRetirementDrawdown(500, [account(500000, 24000)], portfolio(100000))
+    expect(drawdown).toEqual({ fromSuper: [2000], fromPortfolio: 0, shortfall: 0 })
+  })
+
+  it('draws on outside-super assets before extra pension payments', () => {
+    const drawdown = calculateRetirementDrawdown(8000, [account(500000, 24000)], portfolio(3000))
+    expect(drawdown).toEqual({ fromSuper: [5000], fromPortfolio: 3000, shortfall: 0 })
+  })
+
+  it('leaves super outside pension phase alone and reports the shortfall', () => {
+    const drawdown = calculateRetirementDrawdown(8000, [account(500000)], portfolio(3000))
+    expect(drawdown).toEqual({ fromSuper: [0], fromPortfolio: 3000, shortfall: 5000 })
+  })
+})
@@ -0,0 +1,84 @@
+/**
+ * Account-based pension module
+ * Converts super to pension phase at retirement and funds spending from pension and outside-super assets
+ */
+
+import type { PortfolioModuleState, SimulationContext, SuperModuleState } from '../types'
+
+// Legislated minimum annual payment as a share of the 1 July balance, by age
+export const MINIMUM_DRAWDOWN_RATES = [
+  { fromAge: 95, rate: 0.14 },
+  { fromAge: 90, rate: 0.11 },
+  { fromAge: 85, rate: 0.09 },
+  { fromAge: 80, rate: 0.07 },
+  { fromAge: 75, rate: 0.06 },
+  { fromAge: 65, rate: 0.05 },
+  { fromAge: 0, rate: 0.04 }
+]
+
+export const getMinimumDrawdownRate = (age: number): number => {
+  return (MINIMUM_DRAWDOWN_RATES.find(band => age >= band.fromAge) || MINIMUM_DRAWDOWN_RATES[MINIMUM_DRAWDOWN_RATES.length - 1]).rate
+}
+
+/**
+ * Start the pension once super can be accessed, and reset the minimum each 1 July
+ * Paying a twelfth of the annual minimum each month pro-rates a part-year start
+ */
+export const calculatePensionPhase = (
+  superAccessible: boolean,
+  context: SimulationContext,
+  previousState: SuperModuleState
+): SuperModuleState => {
+  if (!superAccessible) return previousState
+
+  const commencing = !previousState.pensionPhase
+  if (!commencing && context.fyMonth !== 0) return previousState
+
+  return {
+    ...previousState,
+    pensionPhase: true,
+    minimumDrawdownYearly: previousState.balance * getMinimumDrawdownRate(context.age)
+  }
+}
+
+export interface RetirementDrawdown {
+  fromSuper: number[]                    // per super account, in the order given
+  fromPortfolio: number
+  shortfall: number                      // spending that could not be funded
+}
+
+/**
+ * Fund one month of retirement spending
+ * Each pension pays at least its minimum; outside-super assets are drawn next (and are all that is
+ * available before preservation age), with extra pension payments as the last resort
+ * @param deficit - Spending not covered by cash on hand this month
+ * @param superStates - One per household member; accounts not yet in pension phase are untouched
+ */
+export const calculateRetirementDrawdown = (
+  deficit: number,
+  superStates: SuperModuleState[],
+  portfolioState: PortfolioModuleState
+): RetirementDrawdown => {
+  const fromSuper = superStates.map(state => state.pensionPhase
+    ? Math.min(state.balance, state.minimumDrawdownYearly / 12)
+    : 0
+  )
+  const minimumPayments = fromSuper.reduce((sum, amount) => sum + amount, 0)
+
+  let remaining = Math.max(0, deficit - minimumPayments)
+  const fromPortfolio = Math.min(portfolioState.balance, remaining)
+  remaining -= fromPortfolio
+
+  superStates.forEach((state, i) => {
+    if (!state.pensionPhase || remaining <= 0) return
+    const extraPayment = Math.min(state.balance - fromSuper[i], remaining)
+    fromSuper[i] += extraPayment
+    remaining -= extraPayment
+  })
+
+  return {
+    fromSuper,
+    fromPortfolio,
+    shortfall: remaining
+  }
+}
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest'
+import { sellPortfolioUnits } from './portfolio'
+import type { PortfolioModuleState } from '../types'
+
+const holding: PortfolioModuleState = {
+  balance: 1500,
+  monthlyContribution: 0,
+  dcaPaused: false,
+  pauseReason: 'none',
+  unitPrice: 1.5,
+  costBase: 1100,
+  recentParcels: [{ month: 5, units: 200, costBase: 250 }]
+}
+
+describe('sellPortfolioUnits', () => {
+  it('sells units held 12 months first, then recent parcels', () => {
+    const { state, discountableGain, otherGain } = sellPortfolioUnits(holding, 1350)
+
+    expect(discountableGain).toBeCloseTo(800 * 1.5 - 850)
+    expect(otherGain).toBeCloseTo(100 * 1.5 - 125)
+    expect(state.balance).toBeCloseTo(150)
+    expect(state.costBase).toBeCloseTo(125)
+    expect(state.recentParcels).toEqual([{ month: 5, units: 100, costBase: 125 }])
+  })
+
+  it('realises a loss when units sell below their cost', () => {
+    const { otherGain, discountableGain } = sellPortfolioUnits({ ...holding, balance: 1000, unitPrice: 1 }, 1000)
+    expect(discountableGain).toBeCloseTo(800 - 850)
+    expect(otherGain).toBeCloseTo(200 - 250)
+  })
+
+  it('sells no more than the balance', () => {
+    const { state } = sellPortfolioUnits(holding, 5000)
+    expect(state.balance).toBe(0)
+    expect(state.recentParcels).toEqual([])
+    expect(sellPortfolioUnits(holding, 0).state).toBe(holding)
+  })
+})
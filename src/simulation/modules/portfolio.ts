@@ -0,0 +1,149 @@
+/**
+ * ETF/Portfolio calculation module
+ * Monthly DCA, returns net of fees, the buffer policy that pauses DCA, and cost bases for CGT
+ * Returns are split into capital growth and distributions, which are reinvested.
+ */
+
+import type { AppSettings, EtfDistribution, PortfolioState } from '../../types/planner'
+import type { PortfolioModuleState, SimulationContext } from '../types'
+import { toMonthlyRate } from '../utils'
+import { DISCOUNT_HOLDING_MONTHS } from './capitalGains'
+
+// Australian shares pay higher, mostly franked distributions; global shares pay less, unfranked
+export const DEFAULT_ETF_DISTRIBUTIONS: { aus: EtfDistribution; global: EtfDistribution } = {
+  aus: { yieldPct: 0.04, frankingPct: 0.7 },
+  global: { yieldPct: 0.02, frankingPct: 0 }
+}
+
+/**
+ * Distribution yield and franked share for the whole portfolio, weighted across its holdings
+ * A one-ETF portfolio is taken to hold the default Australian/global split.
+ */
+export const getDistributionPolicy = (input: PortfolioState, settings: AppSettings): EtfDistribution => {
+  const weights = input.weights || settings.twoETFDefaultWeights
+  const { aus, global } = input.distributions || DEFAULT_ETF_DISTRIBUTIONS
+  const yieldPct = aus.yieldPct * weights.aus + global.yieldPct * weights.global
+
+  return {
+    yieldPct,
+    frankingPct: yieldPct > 0 ? (aus.yieldPct * aus.frankingPct * weights.aus + global.yieldPct * global.frankingPct * weights.global) / yieldPct : 0
+  }
+}
+
+/**
+ * Distributions paid this month on the opening balance
+ * @returns Cash distributed and the franking credits attached to it
+ */
+export const getMonthlyDistribution = (
+  input: PortfolioState,
+  balance: number,
+  corporateTaxRate: number,
+  settings: AppSettings
+) => {
+  const policy = getDistributionPolicy(input, settings)
+  const distribution = balance * policy.yieldPct / 12
+  const franked = distribution * policy.frankingPct
+
+  return {
+    distribution,
+    frankingCredits: franked * corporateTaxRate / (1 - corporateTaxRate)
+  }
+}
+
+export const createInitialPortfolioState = (input: PortfolioState): PortfolioModuleState => ({
+  balance: input.startingBalance,
+  monthlyContribution: 0,
+  dcaPaused: false,
+  pauseReason: 'none',
+  unitPrice: 1,
+  // Without a recorded cost base the starting holdings carry no unrealised gain
+  costBase: input.costBase ?? input.startingBalance,
+  recentParcels: []
+})
+
+/**
+ * Advance the ETF portfolio by one month
+ * @param availableCash - Cash on hand after this month's income and expenses
+ * @param bufferTarget - Cash the buffer policy wants held before investing
+ * @param isWorking - False once retired; DCA stops
+ */
+export const calculatePortfolioProgression = (
+  input: PortfolioState,
+  availableCash: number,
+  bufferTarget: number,
+  isWorking: boolean,
+  context: SimulationContext,
+  previousState: PortfolioModuleState
+): PortfolioModuleState => {
+  // Buffer policy: pause DCA only when buffers dip below target
+  const dcaPaused = isWorking && input.dcaMonthly > 0 && availableCash - input.dcaMonthly < bufferTarget
+  const monthlyContribution = isWorking && !dcaPaused ? input.dcaMonthly : 0
+
+  const growthRate = toMonthlyRate(context.assumptions.etfReturns)
+  const growth = previousState.balance * growthRate
+  const fees = previousState.balance * (input.feePct / 12)
+  // Distributions are part of the return; reinvesting them buys units (adding to the cost base)
+  // rather than lifting the unit price. Reinvested units join the pool held at average cost.
+  const distributionRate = getDistributionPolicy(input, context.settings).yieldPct / 12
+  const distribution = previousState.balance * distributionRate
+  const unitPrice = previousState.unitPrice * (1 + growthRate - distributionRate - input.feePct / 12)
+
+  // Parcels older than the discount period join the pool held at average cost
+  const recentParcels = previousState.recentParcels.filter(parcel => context.month - parcel.month < DISCOUNT_HOLDING_MONTHS)
+  if (monthlyContribution > 0) {
+    recentParcels.push({ month: context.month, units: monthlyContribution / unitPrice, costBase: monthlyContribution })
+  }
+
+  return {
+    balance: Math.max(0, previousState.balance + growth - fees + monthlyContribution),
+    monthlyContribution,
+    dcaPaused,
+    pauseReason: dcaPaused ? 'buffers' : 'none',
+    unitPrice,
+    costBase: previousState.costBase + monthlyContribution + distribution,
+    recentParcels
+  }
+}
+
+/**
+ * Sell units to raise `amount`, oldest first: the pool held 12 months or more (at its average
+ * cost), then recent parcels
+ * @returns The portfolio after the sale and the gains realised (negative for a loss)
+ */
+export const sellPortfolioUnits = (previousState: PortfolioModuleState, amount: number) => {
+  const sold = Math.min(Math.max(0, amount), previousState.balance)
+  if (sold <= 0) return { state: previousState, discountableGain: 0, otherGain: 0 }
+
+  const { unitPrice } = previousState
+  const recentUnits = previousState.recentParcels.reduce((sum, parcel) => sum + parcel.units, 0)
+  const recentCost = previousState.recentParcels.reduce((sum, parcel) => sum + parcel.costBase, 0)
+  const poolUnits = Math.max(0, previousState.balance / unitPrice - recentUnits)
+  const poolCost = Math.max(0, previousState.costBase - recentCost)
+
+  const unitsSold = sold / unitPrice
+  const poolUnitsSold = Math.min(unitsSold, poolUnits)
+  const poolCostSold = poolUnits > 0 ? poolCost * poolUnitsSold / poolUnits : 0
+
+  let unitsRemaining = unitsSold - poolUnitsSold
+  let recentCostSold = 0
+  const recentParcels = previousState.recentParcels.flatMap(parcel => {
+    if (unitsRemaining <= 0) return [parcel]
+    const units = Math.min(parcel.units, unitsRemaining)
+    const costBase = parcel.costBase * units / parcel.units
+    unitsRemaining -= units
+    recentCostSold += costBase
+    return units < parcel.units ? [{ ...parcel, units: parcel.units - units, costBase: parcel.costBase - costBase }] : []
+  })
+
+  const poolProceeds = poolUnitsSold * unitPrice
+  return {
+    state: {
+      ...previousState,
+      balance: previousState.balance - sold,
+      costBase: Math.max(0, previousState.costBase - poolCostSold - recentCostSold),
+      recentParcels
+    },
+    discountableGain: poolProceeds - poolCostSold,
+    otherGain: sold - poolProceeds - recentCostSold
+  }
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest'
+import { SELLING_COSTS_PCT, buyReplacementHome, createInitialPropertyState, sellProperty } from './property'
+import { calculatePurchaseCosts } from './stampDuty'
+import { createDefaultPropertyState, type AppSettings } from '../../types/planner'
+import { createDefaultSettings } from '../../schemas/planner'
+
+const settings = createDefaultSettings() as AppSettings
+
+describe('sellProperty', () => {
+  const investment = createDefaultPropertyState(settings, { value: 800000, loanBalance: 400000, rentPerWeek: 600, purchasePrice: 500000 })
+  const grown = { ...createInitialPropertyState(investment), value: 1000000 }
+
+  it('repays the loan and measures the gain after selling costs', () => {
+    const sale = sellProperty(investment, grown)
+
+    expect(sale.proceeds).toBeCloseTo(1000000 * (1 - SELLING_COSTS_PCT))
+    expect(sale.loanRepaid).toBe(400000)
+    expect(sale.capitalGain).toBeCloseTo(1000000 * (1 - SELLING_COSTS_PCT) - 500000)
+    expect(sale.state).toMatchObject({ sold: true, value: 0, loanBalance: 0, monthlyRent: 0 })
+  })
+
+  it('uses today\'s value when the purchase price is unknown', () => {
+    const sale = sellProperty({ ...investment, purchasePrice: undefined }, grown)
+    expect(sale.capitalGain).toBeCloseTo(1000000 * (1 - SELLING_COSTS_PCT) - 800000)
+  })
+
+  it('exempts the home', () => {
+    expect(sellProperty({ ...investment, usage: 'owner-occupied' }, grown).capitalGain).toBe(0)
+  })
+})
+
+describe('buyReplacementHome', () => {
+  const home = createDefaultPropertyState(settings, { usage: 'owner-occupied', value: 1000000, loanBalance: 0, state: 'VIC', downsizeToValue: 600000 })
+  const grown = { ...createInitialPropertyState(home), value: 1200000 }
+
+  it('moves the next home\'s price with the market and pays duty on it', () => {
+    const { state, cost } = buyReplacementHome(home, grown)
+
+    expect(state).toMatchObject({ value: 720000, equity: 720000, loanBalance: 0, sold: false })
+    expect(cost).toBeCloseTo(720000 + calculatePurchaseCosts(720000, { state: 'VIC', buyer: 'owner-occupier' }).total)
+  })
+
+  it('charges the duty of the state the next home is in', () => {
+    const { cost } = buyReplacementHome(home, grown, { state: 'QLD' })
+    expect(cost).toBeCloseTo(720000 + calculatePurchaseCosts(720000, { state: 'QLD', buyer: 'owner-occupier' }).total)
+  })
+})
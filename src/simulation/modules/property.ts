@@ -0,0 +1,161 @@
+/**
+ * Property calculation module
+ * Rent, vacancy, holding costs, loan amortisation, offset and extra repayments, sale and
+ * downsizing
+ */
+
+import type { AustralianState, PropertyState } from '../../types/planner'
+import type { PropertyModuleState, SimulationContext } from '../types'
+import { calculateLoanRepayment, toMonthlyRate } from '../utils'
+import { calculatePurchaseCosts } from './stampDuty'
+
+export const createInitialPropertyState = (input: PropertyState): PropertyModuleState => {
+  const scheduledRepayment = input.ioOrPi === 'IO'
+    ? input.loanBalance * input.ratePct / 12
+    : calculateLoanRepayment(input.loanBalance, input.ratePct, input.termMonths)
+
+  return {
+    value: input.value,
+    loanBalance: input.loanBalance,
+    equity: input.value - input.loanBalance,
+    lvr: input.value > 0 ? input.loanBalance / input.value : 0,
+    scheduledRepayment,
+    remainingTermMonths: input.termMonths,
+    monthlyRent: ((input.rentPerWeek || 0) * 52) / 12,
+    monthlyInterest: 0,
+    monthlyPrincipalPayment: 0,
+    totalPropertyCosts: 0,
+    monthlyNetCashflow: 0,
+    sold: false
+  }
+}
+
+// Agent's commission, marketing and legal costs on a sale
+export const SELLING_COSTS_PCT = 0.025
+
+/**
+ * Sell the property at its current value and repay the loan
+ * The capital gain is the sale price less selling costs and the cost base (the purchase price, or
+ * today's value when that isn't known). A home the owners live in is exempt.
+ */
+export const sellProperty = (input: PropertyState, previousState: PropertyModuleState) => {
+  const proceeds = previousState.value * (1 - SELLING_COSTS_PCT)
+  const costBase = input.purchasePrice ?? input.value
+  const capitalGain = input.usage === 'investment' ? proceeds - costBase : 0
+
+  const state: PropertyModuleState = {
+    ...previousState,
+    value: 0,
+    loanBalance: 0,
+    equity: 0,
+    lvr: 0,
+    scheduledRepayment: 0,
+    remainingTermMonths: 0,
+    monthlyRent: 0,
+    monthlyInterest: 0,
+    monthlyPrincipalPayment: 0,
+    totalPropertyCosts: 0,
+    monthlyNetCashflow: 0,
+    sold: true
+  }
+
+  return { state, proceeds, loanRepaid: previousState.loanBalance, capitalGain }
+}
+
+/**
+ * Buy the next home outright when the current one is sold
+ * `downsizeToValue` is in today's prices and moves with the home being sold, so the two stay
+ * comparable whatever the market does in between. Running costs carry over from the old home.
+ * @param previousState - The home being sold, before the sale
+ * @param duty - State the new home is in (default: the old home's) and the date for duty schedules
+ */
+export const buyReplacementHome = (
+  input: PropertyState,
+  previousState: PropertyModuleState,
+  duty: { state?: AustralianState; date?: Date } = {}
+) => {
+  const marketGrowth = input.value > 0 ? previousState.value / input.value : 1
+  const price = (input.downsizeToValue || 0) * marketGrowth
+
+  const state: PropertyModuleState = {
+    value: price,
+    loanBalance: 0,
+    equity: price,
+    lvr: 0,
+    scheduledRepayment: 0,
+    remainingTermMonths: 0,
+    monthlyRent: 0,
+    monthlyInterest: 0,
+    monthlyPrincipalPayment: 0,
+    totalPropertyCosts: 0,
+    monthlyNetCashflow: 0,
+    sold: false
+  }
+
+  const purchaseCosts = calculatePurchaseCosts(price, {
+    state: duty.state || input.state,
+    buyer: 'owner-occupier',
+    date: duty.date
+  })
+  return { state, cost: price + purchaseCosts.total }
+}
+
+/**
+ * Advance the property and its loan by one month
+ * @param offsetCash - Cash sitting in the offset account this month
+ * @param landTaxYearly - This year's land tax on the property, from its current land value
+ */
+export const calculatePropertyProgression = (
+  input: PropertyState,
+  offsetCash: number,
+  context: SimulationContext,
+  previousState: PropertyModuleState,
+  landTaxYearly = 0
+): PropertyModuleState => {
+  if (previousState.sold) return previousState
+
+  const value = previousState.value * (1 + toMonthlyRate(context.assumptions.propertyGrowth))
+
+  // Rent and holding costs are indexed to inflation once a year
+  const indexation = context.priceIndex
+  const monthlyRent = ((input.rentPerWeek || 0) * 52 / 12) * indexation
+  const collectedRent = monthlyRent * (1 - input.vacancyPct)
+  const holdingCosts =
+    collectedRent * input.mgmtFeePct +
+    monthlyRent * input.maintenancePctOfRent +
+    (input.insuranceYearly / 12) * indexation +
+    (input.councilRatesYearly / 12) * indexation +
+    landTaxYearly / 12
+
+  // Loan: interest is charged on the balance net of the offset account
+  let loanBalance = previousState.loanBalance
+  let monthlyInterest = 0
+  let monthlyPrincipalPayment = 0
+  let repayment = 0
+
+  if (loanBalance > 0) {
+    const effectiveBalance = Math.max(0, loanBalance - Math.min(offsetCash, input.offsetBalance))
+    monthlyInterest = effectiveBalance * input.ratePct / 12
+
+    const scheduled = input.ioOrPi === 'IO' ? monthlyInterest : previousState.scheduledRepayment
+
+    repayment = Math.min(loanBalance + monthlyInterest, scheduled + (input.extraRepaymentMonthly || 0))
+    monthlyPrincipalPayment = Math.max(0, repayment - monthlyInterest)
+    loanBalance = Math.max(0, loanBalance - monthlyPrincipalPayment)
+  }
+
+  return {
+    value,
+    loanBalance,
+    equity: value - loanBalance,
+    lvr: value > 0 ? loanBalance / value : 0,
+    scheduledRepayment: previousState.scheduledRepayment,
+    remainingTermMonths: Math.max(0, previousState.remainingTermMonths - 1),
+    monthlyRent,
+    monthlyInterest,
+    monthlyPrincipalPayment,
+    totalPropertyCosts: holdingCosts,
+    monthlyNetCashflow: collectedRent - holdingCosts - repayment,
+    sold: false
+  }
+}
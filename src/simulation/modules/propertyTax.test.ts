@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest'
+import { calculateRentalTaxEffect, getNetRentalIncome } from './propertyTax'
+import { createInitialPropertyState } from './property'
+import { getTaxParameters } from '../data/taxParameters'
+import { calculateNetIncome } from '../../utils/taxCalculations'
+import { createDefaultPropertyState, type AppSettings } from '../../types/planner'
+import { createDefaultSettings } from '../../schemas/planner'
+
+const settings = createDefaultSettings() as AppSettings
+const tax = getTaxParameters(2025)
+
+describe('getNetRentalIncome', () => {
+  const property = createDefaultPropertyState(settings, { value: 800000, loanBalance: 600000, rentPerWeek: 600, vacancyPct: 0.05 })
+  const state = { ...createInitialPropertyState(property), totalPropertyCosts: 500, monthlyInterest: 3000 }
+
+  it('deducts holding costs and interest from rent after vacancy', () => {
+    expect(getNetRentalIncome(property, state)).toBeCloseTo(600 * 52 / 12 * 0.95 - 500 - 3000)
+  })
+
+  it('is nil for a home the owners live in', () => {
+    expect(getNetRentalIncome({ ...property, usage: 'owner-occupied' }, state)).toBe(0)
+  })
+})
+
+describe('calculateRentalTaxEffect', () => {
+  it('taxes rental profit at the owner\'s marginal rate plus the Medicare levy', () => {
+    expect(calculateRentalTaxEffect(10000, 90000, tax)).toBeCloseTo(10000 * (0.30 + 0.02))
+  })
+
+  it('refunds tax on other income for a rental loss', () => {
+    expect(calculateRentalTaxEffect(-10000, 90000, tax)).toBeCloseTo(-10000 * (0.30 + 0.02))
+  })
+
+  it('refunds no more than the tax on the other income', () => {
+    expect(calculateRentalTaxEffect(-100000, 50000, tax)).toBeCloseTo(-calculateNetIncome(50000, 0, tax).totalTax)
+  })
+})
@@ -0,0 +1,31 @@
+/**
+ * Rental property tax module
+ * Net rental income or loss per investment property, taxed at the owner's marginal rate
+ */
+
+import type { PropertyState } from '../../types/planner'
+import type { TaxParameters } from '../data/taxParameters'
+import type { PropertyModuleState } from '../types'
+import { calculateTaxOnAdditionalIncome } from '../../utils/taxCalculations'
+
+/**
+ * Rent collected less the deductible costs this month: holding costs and loan interest
+ * Principal repayments aren't deductible, and a home the owners live in earns nothing to deduct from.
+ */
+export const getNetRentalIncome = (input: PropertyState, state: PropertyModuleState): number => {
+  if (input.usage !== 'investment') return 0
+  return state.monthlyRent * (1 - input.vacancyPct) - state.totalPropertyCosts - state.monthlyInterest
+}
+
+/**
+ * Change in an owner's tax from their share of net rental income
+ * A loss (negative gearing) reduces tax on the owner's other income, down to nil.
+ * @param netRentalIncome - Owner's share of net rental income, yearly; negative for a loss
+ * @param otherTaxableIncome - Owner's other taxable income, yearly (salary after sacrifice)
+ * @returns Extra tax payable; negative is a refund
+ */
+export const calculateRentalTaxEffect = (
+  netRentalIncome: number,
+  otherTaxableIncome: number,
+  params?: TaxParameters
+): number => calculateTaxOnAdditionalIncome(netRentalIncome, otherTaxableIncome, params)
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest'
+import { OTHER_PURCHASE_COSTS, calculatePurchaseCosts, calculateStampDuty } from './stampDuty'
+
+const date = new Date(2024, 7, 1)
+
+describe('calculateStampDuty', () => {
+  it('applies the state\'s general brackets to investors', () => {
+    expect(calculateStampDuty(800000, { state: 'NSW', buyer: 'investor', date }).stampDuty).toBeCloseTo(10909 + 436000 * 0.045)
+  })
+
+  it('uses owner-occupier rates where a state has them', () => {
+    expect(calculateStampDuty(500000, { state: 'VIC', buyer: 'investor', date }).stampDuty).toBeCloseTo(2870 + 370000 * 0.06)
+    expect(calculateStampDuty(500000, { state: 'VIC', buyer: 'owner-occupier', date }).stampDuty).toBeCloseTo(18370 + 60000 * 0.06)
+  })
+
+  it('exempts first home buyers up to the threshold and tapers the concession above it', () => {
+    expect(calculateStampDuty(800000, { state: 'NSW', buyer: 'first-home-buyer', date }).stampDuty).toBe(0)
+
+    const tapered = calculateStampDuty(900000, { state: 'NSW', buyer: 'first-home-buyer', date })
+    expect(tapered.concession).toBeCloseTo(tapered.generalDuty / 2)
+    expect(calculateStampDuty(1000001, { state: 'NSW', buyer: 'first-home-buyer', date }).concession).toBe(0)
+  })
+
+  it('limits concessions for new homes and caps them where the state does', () => {
+    expect(calculateStampDuty(700000, { state: 'SA', buyer: 'first-home-buyer', newHome: true, date }).stampDuty).toBe(0)
+    expect(calculateStampDuty(700000, { state: 'SA', buyer: 'first-home-buyer', date }).concession).toBe(0)
+    expect(calculateStampDuty(2000000, { state: 'ACT', buyer: 'first-home-buyer', date }).concession).toBe(35238)
+  })
+
+  it('adds the foreign purchaser surcharge on the whole price', () => {
+    const duty = calculateStampDuty(1000000, { state: 'VIC', buyer: 'investor', foreignPurchaser: true, date })
+    expect(duty.foreignSurcharge).toBe(80000)
+    expect(duty.stampDuty).toBeCloseTo(duty.generalDuty + 80000)
+  })
+})
+
+describe('calculatePurchaseCosts', () => {
+  it('adds the other costs of buying to the duty', () => {
+    const costs = calculatePurchaseCosts(800000, { state: 'NSW', buyer: 'investor', date })
+    expect(costs.total).toBeCloseTo(costs.stampDuty + OTHER_PURCHASE_COSTS)
+    expect(calculatePurchaseCosts(0, { buyer: 'investor', date }).total).toBe(0)
+  })
+})
@@ -0,0 +1,91 @@
+/**
+ * Stamp duty module
+ * Transfer duty on a purchase by state, with owner-occupier rates, first home buyer exemptions and
+ * concessions, and foreign purchaser surcharges; plus the other upfront costs of buying
+ */
+
+import type { AustralianState } from '../../types/planner'
+import { getStampDutyParameters, type DutyBracket, type StateDutySchedule } from '../data/stampDutyRates'
+
+export const DEFAULT_STATE: AustralianState = 'NSW'
+
+// Conveyancing, searches, building and pest inspections, and registration fees
+export const OTHER_PURCHASE_COSTS = 3000
+
+export type BuyerType = 'investor' | 'owner-occupier' | 'first-home-buyer'
+
+export interface StampDutyOptions {
+  state?: AustralianState
+  buyer: BuyerType
+  foreignPurchaser?: boolean
+  newHome?: boolean                      // some first home buyer concessions are for new homes only
+  date?: Date                            // schedules in force on this date; default today
+}
+
+export interface StampDutyBreakdown {
+  generalDuty: number                    // at the rates the buyer pays before any concession
+  concession: number                     // first home buyer relief
+  foreignSurcharge: number
+  stampDuty: number
+}
+
+export const applyDutyBrackets = (price: number, brackets: DutyBracket[]): number => {
+  const bracket = [...brackets].reverse().find(b => price >= b.from)
+  if (!bracket) return 0
+  const above = price - bracket.from
+  return bracket.base + above * bracket.rate + (bracket.perThousandSquared || 0) * Math.pow(above / 1000, 2)
+}
+
+/**
+ * First home buyer relief: all the duty at or below the exemption price, tapering evenly to none
+ * at the upper limit
+ */
+const getFirstHomeBuyerConcession = (
+  price: number,
+  duty: number,
+  schedule: StateDutySchedule,
+  newHome: boolean
+): number => {
+  const relief = schedule.firstHomeBuyer
+  if (!relief || (relief.newHomesOnly && !newHome) || price > relief.concessionUpTo) return 0
+
+  const share = price <= relief.exemptUpTo
+    ? 1
+    : (relief.concessionUpTo - price) / (relief.concessionUpTo - relief.exemptUpTo)
+  return Math.min(duty * share, relief.maxConcession ?? Infinity)
+}
+
+/**
+ * Stamp duty on a purchase
+ * Owner-occupiers (first home buyers included) use a state's home rates where it has them.
+ */
+export const calculateStampDuty = (price: number, options: StampDutyOptions): StampDutyBreakdown => {
+  if (price <= 0) return { generalDuty: 0, concession: 0, foreignSurcharge: 0, stampDuty: 0 }
+
+  const schedule = getStampDutyParameters(options.date).states[options.state || DEFAULT_STATE]
+  const livesIn = options.buyer !== 'investor'
+  const generalDuty = applyDutyBrackets(price, livesIn && schedule.ownerOccupier ? schedule.ownerOccupier : schedule.general)
+  const concession = options.buyer === 'first-home-buyer'
+    ? getFirstHomeBuyerConcession(price, generalDuty, schedule, !!options.newHome)
+    : 0
+  const foreignSurcharge = options.foreignPurchaser ? price * schedule.foreignSurcharge : 0
+
+  return {
+    generalDuty,
+    concession,
+    foreignSurcharge,
+    stampDuty: generalDuty - concession + foreignSurcharge
+  }
+}
+
+/**
+ * Upfront costs of buying on top of the price, which the deposit also has to cover
+ */
+export const calculatePurchaseCosts = (price: number, options: StampDutyOptions) => {
+  const duty = calculateStampDuty(price, options)
+  return {
+    ...duty,
+    otherCosts: price > 0 ? OTHER_PURCHASE_COSTS : 0,
+    total: duty.stampDuty + (price > 0 ? OTHER_PURCHASE_COSTS : 0)
+  }
+}
@@ -0,0 +1,187 @@
+import { describe, expect, it } from 'vitest'
+import {
+  calculateSuperProgression,
+  closeConcessionalYear,
+  createInitialSuperState,
+  getCarryForwardSummary,
+  getDownsizerContribution,
+  getNonConcessionalRequest,
+  getNonConcessionalYears,
+  getUnusedCapFromHistory
+} from './super'
+import { getTaxParameters } from '../data/taxParameters'
+import { createDefaultPlannerState, type AppSettings } from '../../types/planner'
+import { createDefaultSettings } from '../../schemas/planner'
+import type { SimulationContext } from '../types'
+
+const settings = createDefaultSettings() as AppSettings
+const tax = getTaxParameters(2026)
+const superInput = { ...createDefaultPlannerState(settings).super, concessionalCapYearly: 30000, SGRate: 0.12 }
+
+const createContext = (month: number): SimulationContext => ({
+  month,
+  age: 40 + month / 12,
+  fyMonth: month % 12,
+  financialYear: 2026 + Math.floor(month / 12),
+  yearIndex: Math.floor(month / 12),
+  priceIndex: 1,
+  settings,
+  assumptions: settings.assumptionPresets.Base,
+  tax,
+  taxAtStart: tax
+})
+
+describe('closeConcessionalYear', () => {
+  it('adds unused cap to the pool', () => {
+    expect(closeConcessionalYear([], 2024, 30000, 20000, 5)).toEqual([{ startYear: 2024, amount: 10000 }])
+  })
+
+  it('draws contributions above the cap from the oldest amounts first', () => {
+    const pool = [{ startYear: 2022, amount: 4000 }, { startYear: 2023, amount: 6000 }]
+    expect(closeConcessionalYear(pool, 2024, 30000, 36000, 5)).toEqual([{ startYear: 2023, amount: 4000 }])
+  })
+
+  it('drops amounts older than the carry-forward window', () => {
+    const pool = [{ startYear: 2019, amount: 5000 }, { startYear: 2020, amount: 5000 }]
+    expect(closeConcessionalYear(pool, 2024, 30000, 30000, 5)).toEqual([{ startYear: 2020, amount: 5000 }])
+  })
+})
+
+describe('carry-forward', () => {
+  const history = [
+    { financialYear: '2020-21', contributions: 10000 },
+    { financialYear: '2021-22', contributions: 27500 },
+    { financialYear: '2023-24', contributions: 40000 },
+    { financialYear: '2024-25', contributions: 20000 }
+  ]
+
+  it('replays the recorded years against each year\'s cap', () => {
+    expect(getUnusedCapFromHistory(history, 2025, getTaxParameters(2025))).toEqual([
+      { startYear: 2020, amount: 2500 },
+      { startYear: 2024, amount: 10000 }
+    ])
+  })
+
+  it('adds the pool to this year\'s cap below the balance limit', () => {
+    const summary = getCarryForwardSummary(history, 400000, 2025)
+
+    expect(summary.years.map(year => year.financialYear)).toEqual(['2020-21', '2021-22', '2022-23', '2023-24', '2024-25'])
+    expect(summary.years[2]).toEqual({ financialYear: '2022-23', cap: 27500, contributions: undefined, unused: 0 })
+    expect(summary).toMatchObject({ eligible: true, carryForward: 12500, concessionalCap: 30000, availableCap: 42500 })
+    expect(getCarryForwardSummary(history, 500000, 2025)).toMatchObject({ eligible: false, carryForward: 0, availableCap: 30000 })
+  })
+
+  it('lets salary sacrifice use the carried-forward cap', () => {
+    const input = { ...superInput, salarySacrificeMonthly: 5000, concessionalHistory: [{ financialYear: '2025-26', contributions: 10000 }] }
+    let state = createInitialSuperState(input, 40, 60, 2026, tax)
+    let concessional = 0
+    for (let month = 0; month < 12; month++) {
+      state = calculateSuperProgression(input, 10000, true, createContext(month), state)
+      concessional += state.monthlyContributions
+    }
+
+    expect(state.unusedCap).toEqual([{ startYear: 2025, amount: 20000 }])
+    expect(concessional).toBeCloseTo(50000)
+  })
+})
+
+describe('getNonConcessionalYears', () => {
+  const { transferBalanceCap, nonConcessionalCap, bringForwardYears, nonConcessionalAgeLimit } = tax.superannuation
+
+  it('allows the full bring-forward with a low balance', () => {
+    expect(getNonConcessionalYears(0, 50, tax)).toBe(bringForwardYears)
+  })
+
+  it('allows one year within a year of cap of the transfer balance cap', () => {
+    expect(getNonConcessionalYears(transferBalanceCap - nonConcessionalCap / 2, 50, tax)).toBe(1)
+  })
+
+  it('accepts nothing at the transfer balance cap or the age limit', () => {
+    expect(getNonConcessionalYears(transferBalanceCap, 50, tax)).toBe(0)
+    expect(getNonConcessionalYears(0, nonConcessionalAgeLimit, tax)).toBe(0)
+  })
+})
+
+describe('getNonConcessionalRequest', () => {
+  it('adds a lump sum in the month the member reaches its age', () => {
+    const input = { ...superInput, nonConcessionalMonthly: 200, nonConcessionalLumpSums: [{ age: 41, amount: 50000 }] }
+    expect(getNonConcessionalRequest(input, 41)).toBe(50200)
+    expect(getNonConcessionalRequest(input, 41 + 1 / 12)).toBe(200)
+  })
+})
+
+describe('bring-forward', () => {
+  const { nonConcessionalCap } = tax.superannuation
+  const input = {
+    ...superInput,
+    nonConcessionalLumpSums: [{ age: 40, amount: nonConcessionalCap * 2.5 }, { age: 41, amount: nonConcessionalCap }]
+  }
+
+  const runYears = (years: number) => {
+    let state = createInitialSuperState(input, 40, 60, 2026, tax)
+    const accepted: number[] = []
+    for (let month = 0; month < years * 12; month++) {
+      state = calculateSuperProgression(input, 0, false, createContext(month), state)
+      if (month % 12 === 0) accepted.push(state.nonConcessionalApplied)
+    }
+    return { state, accepted }
+  }
+
+  it('brings forward later years\' caps once a year goes over the annual cap', () => {
+    const { state, accepted } = runYears(1)
+    expect(accepted).toEqual([nonConcessionalCap * 2.5])
+    expect(state.bringForward).toEqual({ startYear: 2026, years: 3, cap: nonConcessionalCap * 3, used: nonConcessionalCap * 2.5 })
+  })
+
+  it('limits later contributions to what is left of the brought-forward cap', () => {
+    const { state, accepted } = runYears(2)
+    expect(accepted[1]).toBeCloseTo(nonConcessionalCap / 2)
+    expect(state.bringForward!.used).toBeCloseTo(nonConcessionalCap * 3)
+  })
+})
+
+describe('getDownsizerContribution', () => {
+  const { maxContribution, minAge, minOwnershipYears } = tax.downsizer
+
+  it('allows up to the maximum from the minimum age, outside the caps', () => {
+    expect(getDownsizerContribution(200000, minAge, undefined, tax)).toBe(200000)
+    expect(getDownsizerContribution(maxContribution + 50000, 80, undefined, tax)).toBe(maxContribution)
+  })
+
+  it('needs the minimum age and a home owned long enough', () => {
+    expect(getDownsizerContribution(200000, minAge - 1, undefined, tax)).toBe(0)
+    expect(getDownsizerContribution(200000, 70, minOwnershipYears * 12 - 1, tax)).toBe(0)
+    expect(getDownsizerContribution(200000, 70, minOwnershipYears * 12, tax)).toBe(200000)
+  })
+})
+
+describe('calculateSuperProgression', () => {
+  it('pays at least the legislated SG rate', () => {
+    const input = { ...superInput, SGRate: 0.05 }
+    const state = calculateSuperProgression(input, 10000, true, createContext(0), createInitialSuperState(input, 40, 60, 2026, tax))
+    expect(state.monthlyContributions).toBeCloseTo(10000 * tax.superannuation.guaranteeRate)
+  })
+
+  it('limits salary sacrifice so the year stays within the cap, leaving room for SG', () => {
+    const input = { ...superInput, salarySacrificeMonthly: 5000 }
+    let state = createInitialSuperState(input, 40, 60, 2026, tax)
+    let concessional = 0
+    for (let month = 0; month < 12; month++) {
+      state = calculateSuperProgression(input, 10000, true, createContext(month), state)
+      concessional += state.monthlyContributions
+    }
+
+    expect(concessional).toBeCloseTo(30000)
+    expect(state.capUtilization).toBeCloseTo(1)
+    expect(state.salarySacrificeApplied).toBe(0)
+  })
+
+  it('carries unused cap into the next financial year', () => {
+    let state = createInitialSuperState(superInput, 40, 60, 2026, tax)
+    for (let month = 0; month <= 12; month++) {
+      state = calculateSuperProgression(superInput, 10000, true, createContext(month), state)
+    }
+
+    expect(state.unusedCap).toEqual([{ startYear: 2026, amount: 30000 - 14400 }])
+  })
+})
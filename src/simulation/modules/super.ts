@@ -0,0 +1,280 @@
+/**
+ * Super calculation module
+ * SG + salary sacrifice, concessional cap enforcement (with carry-forward), after-tax contributions
+ * with bring-forward, downsizer contributions, contributions tax, growth and fees
+ */
+
+import type { ConcessionalYear, SuperState } from '../../types/planner'
+import type { SimulationContext, SuperModuleState, UnusedCapEntry } from '../types'
+import { getConcessionalCap, getTaxParameters, formatFinancialYear, type TaxParameters } from '../data/taxParameters'
+import { getFinancialYear, toMonthlyRate } from '../utils'
+
+/**
+ * Close a financial year's concessional cap
+ * Unused cap joins the pool; contributions above the year's cap draw on the oldest amounts
+ * first. Amounts older than the carry-forward window drop out.
+ */
+export const closeConcessionalYear = (
+  pool: UnusedCapEntry[],
+  startYear: number,
+  cap: number,
+  contributions: number,
+  carryForwardYears: number
+): UnusedCapEntry[] => {
+  let excess = contributions - cap
+  const next = pool.map(entry => {
+    const used = Math.min(entry.amount, Math.max(0, excess))
+    excess -= used
+    return { ...entry, amount: entry.amount - used }
+  })
+  if (contributions < cap) next.push({ startYear, amount: cap - contributions })
+
+  return next.filter(entry => entry.amount > 0 && entry.startYear > startYear - carryForwardYears)
+}
+
+/**
+ * Unused cap available in `currentYear` from the contributions recorded for earlier years
+ * Years missing from the history add nothing, so the pool is never overstated.
+ */
+export const getUnusedCapFromHistory = (
+  history: ConcessionalYear[] = [],
+  currentYear: number,
+  tax: TaxParameters = getTaxParameters(currentYear)
+): UnusedCapEntry[] => {
+  const { carryForwardYears } = tax.superannuation
+  const years = history
+    .map(year => ({ startYear: parseInt(year.financialYear, 10), contributions: year.contributions }))
+    .filter(year => year.startYear < currentYear)
+    .sort((a, b) => a.startYear - b.startYear)
+
+  return years
+    .reduce((pool, year) =>
+      closeConcessionalYear(pool, year.startYear, getConcessionalCap(year.startYear), year.contributions, carryForwardYears), [] as UnusedCapEntry[])
+    .filter(entry => entry.startYear >= currentYear - carryForwardYears)
+}
+
+export interface CarryForwardYear {
+  financialYear: string
+  cap: number
+  contributions?: number                 // undefined when the year isn't in the history
+  unused: number                         // still available this year
+}
+
+export interface CarryForwardSummary {
+  years: CarryForwardYear[]              // the carry-forward window, oldest first
+  eligible: boolean                      // total super balance under the limit
+  balanceLimit: number
+  carryForward: number                   // usable on top of this year's cap when eligible
+  concessionalCap: number                // this year's cap
+  availableCap: number
+}
+
+/**
+ * This year's concessional cap including any unused cap carried forward
+ * @param totalSuperBalance - Balance at the previous 30 June (the current balance is a fair proxy)
+ */
+export const getCarryForwardSummary = (
+  history: ConcessionalYear[] | undefined,
+  totalSuperBalance: number,
+  currentYear: number = getFinancialYear(new Date())
+): CarryForwardSummary => {
+  const tax = getTaxParameters(currentYear)
+  const { carryForwardBalanceLimit, carryForwardYears, concessionalCap } = tax.superannuation
+  const pool = getUnusedCapFromHistory(history, currentYear, tax)
+
+  const years: CarryForwardYear[] = []
+  for (let startYear = currentYear - carryForwardYears; startYear < currentYear; startYear++) {
+    const financialYear = formatFinancialYear(startYear)
+    years.push({
+      financialYear,
+      cap: getConcessionalCap(startYear),
+      contributions: history?.find(year => year.financialYear === financialYear)?.contributions,
+      unused: pool.find(entry => entry.startYear === startYear)?.amount ?? 0
+    })
+  }
+
+  const eligible = totalSuperBalance < carryForwardBalanceLimit
+  const carryForward = eligible ? pool.reduce((sum, entry) => sum + entry.amount, 0) : 0
+
+  return {
+    years,
+    eligible,
+    balanceLimit: carryForwardBalanceLimit,
+    carryForward,
+    concessionalCap,
+    availableCap: concessionalCap + carryForward
+  }
+}
+
+/**
+ * Years of non-concessional cap a member can use, from their total super balance at the prior 30 June
+ * Each year brought forward needs another year's cap of room under the transfer balance cap; at or
+ * over it, or from the age limit, no after-tax contributions are accepted.
+ */
+export const getNonConcessionalYears = (totalSuperBalance: number, age: number, tax: TaxParameters): number => {
+  const { nonConcessionalCap, transferBalanceCap, bringForwardYears, nonConcessionalAgeLimit } = tax.superannuation
+  const room = transferBalanceCap - totalSuperBalance
+  if (age >= nonConcessionalAgeLimit || room <= 0) return 0
+  return Math.min(bringForwardYears, Math.ceil(room / nonConcessionalCap))
+}
+
+/**
+ * After-tax contributions the plan asks for this month: the recurring amount plus any lump sum
+ * falling in the month the member reaches its age
+ */
+export const getNonConcessionalRequest = (input: SuperState, age: number): number => {
+  const halfMonth = 1 / 24
+  const lumpSums = (input.nonConcessionalLumpSums || [])
+    .filter(lumpSum => lumpSum.age > age - halfMonth && lumpSum.age <= age + halfMonth)
+    .reduce((sum, lumpSum) => sum + lumpSum.amount, 0)
+  return (input.nonConcessionalMonthly || 0) + lumpSums
+}
+
+/**
+ * Downsizer contribution a member can make from selling their home
+ * It sits outside the contribution caps and has no upper age or balance test, but needs the
+ * minimum age and a home owned long enough.
+ * @param monthsOwned - Undefined when the purchase date isn't known; taken as long enough
+ */
+export const getDownsizerContribution = (
+  requested: number,
+  age: number,
+  monthsOwned: number | undefined,
+  tax: TaxParameters
+): number => {
+  const { maxContribution, minAge, minOwnershipYears } = tax.downsizer
+  if (requested <= 0 || age < minAge) return 0
+  if (monthsOwned !== undefined && monthsOwned < minOwnershipYears * 12) return 0
+  return Math.min(requested, maxContribution)
+}
+
+export const createInitialSuperState = (
+  input: SuperState,
+  age: number,
+  preservationAge: number,
+  financialYear: number,
+  tax: TaxParameters
+): SuperModuleState => ({
+  balance: input.balance,
+  monthlyContributions: 0,
+  salarySacrificeApplied: 0,
+  yearToDateContributions: 0,
+  concessionalCap: input.concessionalCapYearly || tax.superannuation.concessionalCap,
+  unusedCap: getUnusedCapFromHistory(input.concessionalHistory, financialYear, tax),
+  carryForwardEligible: input.balance < tax.superannuation.carryForwardBalanceLimit,
+  capUtilization: 0,
+  nonConcessionalApplied: 0,
+  nonConcessionalYearToDate: 0,
+  nonConcessionalYears: getNonConcessionalYears(input.balance, age, tax),
+  bringForward: null,
+  preservationReached: age >= preservationAge,
+  pensionPhase: false,
+  minimumDrawdownYearly: 0
+})
+
+/**
+ * Advance the super balance by one month
+ * @param input - Super settings from the planner state
+ * @param monthlySalary - Gross salary this month (SG base)
+ * @param isWorking - False once retired; contributions stop
+ */
+export const calculateSuperProgression = (
+  input: SuperState,
+  monthlySalary: number,
+  isWorking: boolean,
+  context: SimulationContext,
+  previousState: SuperModuleState
+): SuperModuleState => {
+  // The plan's cap is for the current year; later years move with the legislated and indexed cap
+  const capIndex = context.tax.superannuation.concessionalCap / context.taxAtStart.superannuation.concessionalCap
+  const cap = (input.concessionalCapYearly || context.settings.concessionalCapYearly) * capIndex
+
+  // Concessional contributions reset at the start of each financial year, when last year's unused
+  // cap is carried forward and eligibility is re-tested on the 30 June balance
+  const newYear = context.fyMonth === 0 && context.month > 0
+  const yearToDateBefore = newYear ? 0 : previousState.yearToDateContributions
+  const unusedCap = newYear
+    ? closeConcessionalYear(
+        previousState.unusedCap,
+        context.financialYear - 1,
+        previousState.concessionalCap,
+        previousState.yearToDateContributions,
+        context.tax.superannuation.carryForwardYears
+      )
+    : previousState.unusedCap
+  const carryForwardEligible = newYear
+    ? previousState.balance < context.tax.superannuation.carryForwardBalanceLimit
+    : previousState.carryForwardEligible
+  const availableCap = cap + (carryForwardEligible ? unusedCap.reduce((sum, entry) => sum + entry.amount, 0) : 0)
+
+  // After-tax contributions are capped on the same 30 June balance; once a year's contributions go
+  // over the annual cap, the following years' caps are brought forward into one fixed total
+  const nonConcessionalYears = newYear
+    ? getNonConcessionalYears(previousState.balance, context.age, context.tax)
+    : previousState.nonConcessionalYears
+  const bringForwardBefore = newYear && previousState.bringForward &&
+    context.financialYear >= previousState.bringForward.startYear + previousState.bringForward.years
+    ? null
+    : previousState.bringForward
+  const nonConcessionalBefore = newYear ? 0 : previousState.nonConcessionalYearToDate
+  const annualNonConcessionalCap = context.tax.superannuation.nonConcessionalCap
+
+  let nonConcessionalRoom = 0
+  if (nonConcessionalYears > 0) {
+    nonConcessionalRoom = bringForwardBefore
+      ? bringForwardBefore.cap - bringForwardBefore.used
+      : annualNonConcessionalCap * nonConcessionalYears - nonConcessionalBefore
+  }
+  const nonConcessionalRequest = previousState.pensionPhase ? 0 : getNonConcessionalRequest(input, context.age)
+  const nonConcessional = Math.min(nonConcessionalRequest, Math.max(0, nonConcessionalRoom))
+  const nonConcessionalYearToDate = nonConcessionalBefore + nonConcessional
+
+  let bringForward = bringForwardBefore
+  if (bringForward) {
+    bringForward = { ...bringForward, used: bringForward.used + nonConcessional }
+  } else if (nonConcessionalYearToDate > annualNonConcessionalCap) {
+    bringForward = {
+      startYear: context.financialYear,
+      years: nonConcessionalYears,
+      cap: annualNonConcessionalCap * nonConcessionalYears,
+      used: nonConcessionalYearToDate
+    }
+  }
+
+  let sgContribution = 0
+  let salarySacrifice = 0
+  if (isWorking) {
+    // Employers may pay above the legislated rate, never below it
+    sgContribution = monthlySalary * Math.max(input.SGRate, context.tax.superannuation.guaranteeRate)
+    // SG keeps coming for the rest of the year, so salary sacrifice only takes the room it leaves
+    const sgRestOfYear = sgContribution * (12 - context.fyMonth)
+    const capRoom = Math.max(0, availableCap - yearToDateBefore - sgRestOfYear)
+    salarySacrifice = Math.min(input.salarySacrificeMonthly || 0, capRoom)
+  }
+
+  const concessional = sgContribution + salarySacrifice
+  const netContribution = concessional * (1 - input.contributionsTaxPct)
+
+  // Preset returns are treated as net of earnings tax; admin/investment fees come off the balance
+  const growth = previousState.balance * toMonthlyRate(context.assumptions.superReturns)
+  const fees = previousState.balance * (input.feePct / 12)
+
+  const yearToDateContributions = yearToDateBefore + concessional
+
+  return {
+    ...previousState,
+    balance: Math.max(0, previousState.balance + growth - fees + netContribution + nonConcessional),
+    monthlyContributions: concessional,
+    salarySacrificeApplied: salarySacrifice,
+    yearToDateContributions,
+    concessionalCap: cap,
+    unusedCap,
+    carryForwardEligible,
+    capUtilization: availableCap > 0 ? yearToDateContributions / availableCap : 0,
+    nonConcessionalApplied: nonConcessional,
+    nonConcessionalYearToDate,
+    nonConcessionalYears,
+    bringForward,
+    preservationReached: context.age >= context.settings.preservationAge
+  }
+}
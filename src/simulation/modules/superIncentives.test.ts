@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest'
+import {
+  calculateCoContribution,
+  calculateLISTO,
+  calculateSpouseContributionOffset,
+  getSuperIncentiveOpportunities
+} from './superIncentives'
+import { getTaxParameters } from '../data/taxParameters'
+
+// 2024-25: co-contribution tapers from $45,400 to $60,400
+const tax = getTaxParameters(2024)
+
+describe('calculateCoContribution', () => {
+  it('matches 50c in the dollar up to $500 below the lower threshold', () => {
+    expect(calculateCoContribution(600, 40000, 40000, 40, 100000, tax)).toBe(300)
+    expect(calculateCoContribution(2000, 40000, 40000, 40, 100000, tax)).toBe(500)
+  })
+
+  it('tapers to nil at the upper threshold', () => {
+    expect(calculateCoContribution(1000, 52900, 52900, 40, 100000, tax)).toBeCloseTo(250)
+    expect(calculateCoContribution(1000, 60400, 60400, 40, 100000, tax)).toBe(0)
+  })
+
+  it('pays at least $20 once anything is payable', () => {
+    expect(calculateCoContribution(10, 40000, 40000, 40, 100000, tax)).toBe(20)
+  })
+
+  it('needs income from work, a balance under the cap and age under the limit', () => {
+    expect(calculateCoContribution(1000, 40000, 3000, 40, 100000, tax)).toBe(0)
+    expect(calculateCoContribution(1000, 40000, 40000, 40, tax.superannuation.transferBalanceCap, tax)).toBe(0)
+    expect(calculateCoContribution(1000, 40000, 40000, 71, 100000, tax)).toBe(0)
+  })
+})
+
+describe('calculateLISTO', () => {
+  it('refunds the 15% contributions tax up to $500 on incomes to $37,000', () => {
+    expect(calculateLISTO(2000, 30000, 30000, tax)).toBeCloseTo(300)
+    expect(calculateLISTO(5000, 37000, 37000, tax)).toBe(500)
+    expect(calculateLISTO(2000, 37001, 37001, tax)).toBe(0)
+    expect(calculateLISTO(20, 30000, 30000, tax)).toBe(10)
+  })
+})
+
+describe('calculateSpouseContributionOffset', () => {
+  it('gives 18% of up to $3,000, reducing as the spouse\'s income passes $37,000', () => {
+    expect(calculateSpouseContributionOffset(3000, 20000, 40, 100000, tax)).toBeCloseTo(540)
+    expect(calculateSpouseContributionOffset(3000, 38000, 40, 100000, tax)).toBeCloseTo(360)
+    expect(calculateSpouseContributionOffset(3000, 40000, 40, 100000, tax)).toBe(0)
+    expect(calculateSpouseContributionOffset(3000, 20000, 75, 100000, tax)).toBe(0)
+  })
+})
+
+describe('getSuperIncentiveOpportunities', () => {
+  it('shows what more could be contributed to get each incentive in full', () => {
+    const opportunities = getSuperIncentiveOpportunities({
+      salary: 35000,
+      concessionalContributions: 4000,
+      personalContributions: 400,
+      age: 30,
+      superBalance: 20000,
+      spouse: { income: 10000, age: 32, superBalance: 30000, contributionsMade: 1000 }
+    }, tax)
+
+    expect(opportunities).toEqual([
+      { type: 'co-contribution', amount: 300, contribution: 600 },
+      { type: 'listo', amount: 500 },
+      { type: 'spouse-offset', amount: expect.closeTo(360), contribution: 2000 }
+    ])
+  })
+})
@@ -0,0 +1,171 @@
+/**
+ * Government super incentives module
+ * The super co-contribution, the Low Income Super Tax Offset (LISTO) and the spouse contribution
+ * tax offset, for lower-income and part-time members
+ */
+
+import type { TaxParameters } from '../data/taxParameters'
+
+// At least this share of total income must come from work for the co-contribution and LISTO
+const EMPLOYMENT_INCOME_TEST = 0.1
+
+// Amounts below these are rounded up when anything is payable
+const MIN_CO_CONTRIBUTION = 20
+const MIN_LISTO = 10
+
+const passesEmploymentTest = (employmentIncome: number, totalIncome: number) =>
+  employmentIncome > 0 && employmentIncome >= totalIncome * EMPLOYMENT_INCOME_TEST
+
+/**
+ * Most co-contribution available at an income, before matching
+ */
+const getMaxCoContribution = (totalIncome: number, tax: TaxParameters): number => {
+  const { max, lowerThreshold, upperThreshold } = tax.coContribution
+  if (totalIncome >= upperThreshold) return 0
+  const phaseOut = Math.max(0, totalIncome - lowerThreshold) * max / (upperThreshold - lowerThreshold)
+  return Math.max(0, max - phaseOut)
+}
+
+/**
+ * Super co-contribution: the government matches personal after-tax contributions, tapering to
+ * nil at the upper threshold
+ * @param personalContributions - Member's own non-concessional contributions for the year
+ * @param totalIncome - Assessable income plus reportable super contributions, yearly
+ * @param employmentIncome - Income from work, yearly
+ * @param age - At the end of the financial year
+ * @param totalSuperBalance - At the previous 30 June
+ */
+export const calculateCoContribution = (
+  personalContributions: number,
+  totalIncome: number,
+  employmentIncome: number,
+  age: number,
+  totalSuperBalance: number,
+  tax: TaxParameters
+): number => {
+  if (personalContributions <= 0 || age >= tax.coContribution.ageLimit) return 0
+  if (totalSuperBalance >= tax.superannuation.transferBalanceCap) return 0
+  if (!passesEmploymentTest(employmentIncome, totalIncome)) return 0
+
+  const amount = Math.min(personalContributions * tax.coContribution.matchRate, getMaxCoContribution(totalIncome, tax))
+  return amount > 0 ? Math.max(MIN_CO_CONTRIBUTION, amount) : 0
+}
+
+/**
+ * Low Income Super Tax Offset: the contributions tax on concessional contributions is paid back
+ * into super, up to the maximum
+ * @param concessionalContributions - Employer and salary-sacrifice contributions for the year
+ * @param adjustedTaxableIncome - Taxable income plus reportable super contributions, yearly
+ * @param employmentIncome - Income from work, yearly
+ */
+export const calculateLISTO = (
+  concessionalContributions: number,
+  adjustedTaxableIncome: number,
+  employmentIncome: number,
+  tax: TaxParameters
+): number => {
+  if (concessionalContributions <= 0 || adjustedTaxableIncome > tax.listo.incomeLimit) return 0
+  if (!passesEmploymentTest(employmentIncome, adjustedTaxableIncome)) return 0
+
+  const amount = Math.min(tax.listo.max, concessionalContributions * tax.listo.rate)
+  return Math.max(MIN_LISTO, amount)
+}
+
+/**
+ * Largest spouse contribution that attracts the full offset rate, given the spouse's income
+ */
+const getEligibleSpouseContribution = (spouseIncome: number, tax: TaxParameters): number => {
+  const { maxContribution, incomeThreshold, incomeLimit } = tax.spouseContributionOffset
+  if (spouseIncome >= incomeLimit) return 0
+  return Math.max(0, maxContribution - Math.max(0, spouseIncome - incomeThreshold))
+}
+
+/**
+ * Spouse contribution tax offset: a tax offset for after-tax contributions made into a
+ * low-income spouse's super
+ * @param contribution - Made for the spouse during the year
+ * @param spouseIncome - Spouse's assessable income plus reportable super contributions, yearly
+ * @param spouseAge - At the time of the contribution
+ * @param spouseSuperBalance - Spouse's total super balance at the previous 30 June
+ */
+export const calculateSpouseContributionOffset = (
+  contribution: number,
+  spouseIncome: number,
+  spouseAge: number,
+  spouseSuperBalance: number,
+  tax: TaxParameters
+): number => {
+  const { rate, ageLimit } = tax.spouseContributionOffset
+  if (contribution <= 0 || spouseAge >= ageLimit) return 0
+  if (spouseSuperBalance >= tax.superannuation.transferBalanceCap) return 0
+  return Math.min(contribution, getEligibleSpouseContribution(spouseIncome, tax)) * rate
+}
+
+export type SuperIncentiveType = 'co-contribution' | 'listo' | 'spouse-offset'
+
+export interface SuperIncentiveOpportunity {
+  type: SuperIncentiveType
+  amount: number                         // extra a year from the incentive
+  contribution?: number                  // extra contribution a year needed to get it
+}
+
+export interface SuperIncentiveInput {
+  salary: number                         // yearly, before salary sacrifice
+  concessionalContributions: number      // yearly, employer plus salary sacrifice
+  personalContributions: number          // yearly after-tax contributions
+  age: number
+  superBalance: number
+  spouse?: {
+    income: number
+    age: number
+    superBalance: number
+    contributionsMade: number            // yearly, made by this member
+  }
+}
+
+/**
+ * Incentives a member gets, or could get with a little more contributed, this year
+ * Only incentives worth having are returned: the co-contribution and spouse offset when more
+ * could be contributed to reach the full amount, and LISTO whenever it's payable.
+ */
+export const getSuperIncentiveOpportunities = (
+  input: SuperIncentiveInput,
+  tax: TaxParameters
+): SuperIncentiveOpportunity[] => {
+  const opportunities: SuperIncentiveOpportunity[] = []
+  // Salary sacrifice counts as reportable super, so it doesn't lower income for these tests
+  const income = input.salary
+
+  const maxCoContribution = calculateCoContribution(
+    Number.MAX_SAFE_INTEGER, income, income, input.age, input.superBalance, tax
+  )
+  const currentCoContribution = calculateCoContribution(
+    input.personalContributions, income, income, input.age, input.superBalance, tax
+  )
+  if (maxCoContribution - currentCoContribution >= 1) {
+    opportunities.push({
+      type: 'co-contribution',
+      amount: maxCoContribution - currentCoContribution,
+      contribution: Math.max(0, maxCoContribution / tax.coContribution.matchRate - input.personalContributions)
+    })
+  }
+
+  const listo = calculateLISTO(input.concessionalContributions, income, income, tax)
+  if (listo > 0) opportunities.push({ type: 'listo', amount: listo })
+
+  if (input.spouse) {
+    const { income: spouseIncome, age, superBalance, contributionsMade } = input.spouse
+    const eligible = getEligibleSpouseContribution(spouseIncome, tax)
+    const current = calculateSpouseContributionOffset(contributionsMade, spouseIncome, age, superBalance, tax)
+    const full = calculateSpouseContributionOffset(eligible, spouseIncome, age, superBalance, tax)
+    if (full - current >= 1) {
+      opportunities.push({
+        type: 'spouse-offset',
+        amount: full - current,
+        contribution: eligible - contributionsMade
+      })
+    }
+  }
+
+  return opportunities
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest'
+import { DEFAULT_CORRELATION, DEFAULT_VOLATILITY, generateReturnPath, runMonteCarlo } from './monteCarlo'
+import { choleskyDecompose, createRandom } from './random'
+import { createDefaultPlannerState, type AppSettings } from '../types/planner'
+import { createDefaultSettings } from '../schemas/planner'
+
+const settings = createDefaultSettings() as AppSettings
+const state = createDefaultPlannerState(settings)
+const startDate = new Date(2026, 6, 1)
+const cholesky = choleskyDecompose(DEFAULT_CORRELATION)
+
+describe('generateReturnPath', () => {
+  it('averages the preset returns with the given volatility', () => {
+    const assumptions = settings.assumptionPresets.Base
+    const path = generateReturnPath(20000, assumptions, DEFAULT_VOLATILITY, cholesky, createRandom(1))
+    const mean = path.etfReturns.reduce((sum, r) => sum + r, 0) / path.etfReturns.length
+    const sd = Math.sqrt(path.etfReturns.reduce((sum, r) => sum + (r - mean) ** 2, 0) / path.etfReturns.length)
+
+    expect(path.superReturns).toHaveLength(20000)
+    expect(mean).toBeCloseTo(assumptions.etfReturns, 2)
+    expect(sd).toBeCloseTo(DEFAULT_VOLATILITY.etfReturns, 2)
+  })
+})
+
+describe('runMonteCarlo', () => {
+  it('reproduces a run from its seed', () => {
+    const first = runMonteCarlo(state, settings, { paths: 10, seed: 5, startDate })
+    const second = runMonteCarlo(state, settings, { paths: 10, seed: 5, startDate })
+    const other = runMonteCarlo(state, settings, { paths: 10, seed: 6, startDate })
+
+    expect(second.monteCarlo).toEqual(first.monteCarlo)
+    expect(other.monteCarlo!.netWorthAtRetire).not.toEqual(first.monteCarlo!.netWorthAtRetire)
+  })
+
+  it('orders the percentile bands and reports the success rate', () => {
+    const { monteCarlo, kpis } = runMonteCarlo(state, settings, { paths: 20, startDate })
+
+    monteCarlo!.netWorth.p50.forEach((p50, i) => {
+      expect(monteCarlo!.netWorth.p10[i]).toBeLessThanOrEqual(p50)
+      expect(monteCarlo!.netWorth.p90[i]).toBeGreaterThanOrEqual(p50)
+    })
+    expect(kpis.probabilityOfSuccess).toBe(monteCarlo!.probabilityOfSuccess)
+    expect(monteCarlo!.probabilityOfSuccess).toBeGreaterThanOrEqual(0)
+    expect(monteCarlo!.probabilityOfSuccess).toBeLessThanOrEqual(1)
+  })
+
+  it('runs at least one path', () => {
+    expect(runMonteCarlo(state, settings, { paths: 0, startDate }).monteCarlo!.paths).toBe(1)
+  })
+})
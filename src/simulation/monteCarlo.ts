@@ -0,0 +1,153 @@
+/**
+ * Monte Carlo mode
+ * Runs the projection over many correlated, seeded return paths and summarises the spread
+ */
+
+import type { AppSettings, MonteCarloSummary, PlannerState, ScenarioResult } from '../types/planner'
+import type { Assumptions, ReturnPath } from './types'
+import { PROJECTION_END_AGE, runScenario } from './runScenario'
+import { getProjectionEndAge } from './household'
+import { choleskyDecompose, correlatedNormals, createRandom } from './random'
+
+// Annual volatility per asset class
+export const DEFAULT_VOLATILITY = {
+  superReturns: 0.10,
+  etfReturns: 0.16,
+  propertyGrowth: 0.08
+}
+
+// Correlation between super, ETF and property returns (same order as DEFAULT_VOLATILITY)
+export const DEFAULT_CORRELATION = [
+  [1.0, 0.85, 0.30],
+  [0.85, 1.0, 0.25],
+  [0.30, 0.25, 1.0]
+]
+
+export interface MonteCarloOptions {
+  paths?: number                         // default 1000, at most MAX_PATHS
+  seed?: number                          // default 1
+  volatility?: Partial<typeof DEFAULT_VOLATILITY>
+  correlation?: number[][]
+  startDate?: Date
+  endAge?: number                        // default 100; success means money lasts this long
+  onProgress?: (progress: number, completedPaths: number) => void
+}
+
+// Each path is a full projection, so the count is capped to keep a run to a couple of minutes
+export const DEFAULT_PATHS = 1000
+export const MAX_PATHS = 5000
+
+const ASSET_KEYS = ['superReturns', 'etfReturns', 'propertyGrowth'] as const
+
+/**
+ * Lognormal parameters whose arithmetic mean and volatility match the preset
+ */
+const lognormalParams = (mean: number, volatility: number) => {
+  const variance = Math.log(1 + (volatility * volatility) / Math.pow(1 + mean, 2))
+  return { mu: Math.log(1 + mean) - variance / 2, sigma: Math.sqrt(variance) }
+}
+
+/**
+ * Generate one path of correlated annual returns
+ */
+export const generateReturnPath = (
+  years: number,
+  assumptions: Assumptions,
+  volatility: typeof DEFAULT_VOLATILITY,
+  cholesky: number[][],
+  random: ReturnType<typeof createRandom>
+): ReturnPath => {
+  const params = ASSET_KEYS.map(key => lognormalParams(assumptions[key], volatility[key]))
+  const path: ReturnPath = { superReturns: [], etfReturns: [], propertyGrowth: [] }
+
+  for (let year = 0; year < years; year++) {
+    const shocks = correlatedNormals(random, cholesky)
+    ASSET_KEYS.forEach((key, i) => {
+      path[key].push(Math.exp(params[i].mu + params[i].sigma * shocks[i]) - 1)
+    })
+  }
+
+  return path
+}
+
+// Value at a given percentile (0-1) of an ascending-sorted array, linearly interpolated
+const percentileOf = (sorted: Float64Array, percentile: number): number => {
+  const position = (sorted.length - 1) * percentile
+  const lower = Math.floor(position)
+  const upper = Math.ceil(position)
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower)
+}
+
+/**
+ * Run the deterministic projection plus a seeded Monte Carlo batch
+ * @returns The deterministic result with `monteCarlo` and `kpis.probabilityOfSuccess` filled in
+ */
+export const runMonteCarlo = (
+  input: PlannerState,
+  settings: AppSettings,
+  options: MonteCarloOptions = {}
+): ScenarioResult => {
+  const startTime = performance.now()
+  const paths = Math.min(MAX_PATHS, Math.max(1, Math.round(options.paths ?? DEFAULT_PATHS)))
+  const seed = options.seed ?? 1
+  const volatility = { ...DEFAULT_VOLATILITY, ...options.volatility }
+  const cholesky = choleskyDecompose(options.correlation || DEFAULT_CORRELATION)
+  const random = createRandom(seed)
+
+  const endAge = options.endAge ?? PROJECTION_END_AGE
+  const scenarioOptions = { startDate: options.startDate, endAge }
+  // Paths cover the whole household horizon, which runs longer when a partner is younger
+  const years = getProjectionEndAge(input, endAge) - input.goal.currentAge
+  const base = runScenario(input, settings, scenarioOptions)
+  const assumptions = settings.assumptionPresets[input.goal.assumptionPreset] || settings.assumptionPresets.Base
+  const points = base.series.month.length
+
+  // netWorth[point * paths + path] so each time point's values are contiguous for sorting
+  const netWorth = new Float64Array(points * paths)
+  const atRetire = new Float64Array(paths)
+  let successes = 0
+
+  for (let p = 0; p < paths; p++) {
+    const returnPath = generateReturnPath(years, assumptions, volatility, cholesky, random)
+    const { kpis, series } = runScenario(input, settings, { ...scenarioOptions, returnPath })
+
+    for (let i = 0; i < points; i++) netWorth[i * paths + p] = series.netWorth[i]
+    atRetire[p] = kpis.netWorthAtRetire
+    if (kpis.moneyRunsOutAge === undefined) successes++
+
+    if (options.onProgress && (p + 1) % 100 === 0) {
+      options.onProgress(((p + 1) / paths) * 100, p + 1)
+    }
+  }
+
+  const percentiles = { p10: [] as number[], p50: [] as number[], p90: [] as number[] }
+  for (let i = 0; i < points; i++) {
+    const values = netWorth.subarray(i * paths, (i + 1) * paths).sort()
+    percentiles.p10.push(percentileOf(values, 0.1))
+    percentiles.p50.push(percentileOf(values, 0.5))
+    percentiles.p90.push(percentileOf(values, 0.9))
+  }
+  atRetire.sort()
+
+  const monteCarlo: MonteCarloSummary = {
+    paths,
+    seed,
+    month: base.series.month,
+    age: base.series.age,
+    netWorth: percentiles,
+    netWorthAtRetire: {
+      p10: percentileOf(atRetire, 0.1),
+      p50: percentileOf(atRetire, 0.5),
+      p90: percentileOf(atRetire, 0.9)
+    },
+    probabilityOfSuccess: successes / paths,
+    successAge: endAge
+  }
+
+  return {
+    ...base,
+    kpis: { ...base.kpis, probabilityOfSuccess: monteCarlo.probabilityOfSuccess },
+    monteCarlo,
+    simulationDurationMs: performance.now() - startTime
+  }
+}
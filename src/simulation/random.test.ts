@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest'
+import { choleskyDecompose, correlatedNormals, createRandom } from './random'
+
+describe('createRandom', () => {
+  it('repeats the same sequence for the same seed', () => {
+    const first = createRandom(42)
+    const second = createRandom(42)
+    const draws = Array.from({ length: 5 }, () => [first.next(), second.next()])
+
+    draws.forEach(([a, b]) => expect(a).toBe(b))
+    expect(createRandom(43).next()).not.toBe(draws[0][0])
+  })
+
+  it('draws standard normals', () => {
+    const random = createRandom(7)
+    const draws = Array.from({ length: 20000 }, () => random.normal())
+    const mean = draws.reduce((sum, x) => sum + x, 0) / draws.length
+    const variance = draws.reduce((sum, x) => sum + (x - mean) ** 2, 0) / draws.length
+
+    expect(mean).toBeCloseTo(0, 1)
+    expect(variance).toBeCloseTo(1, 1)
+  })
+})
+
+describe('choleskyDecompose', () => {
+  it('returns a lower-triangular factor that rebuilds the matrix', () => {
+    const matrix = [[1, 0.6], [0.6, 1]]
+    const lower = choleskyDecompose(matrix)
+
+    expect(lower[0][1]).toBe(0)
+    matrix.forEach((row, i) => row.forEach((value, j) => {
+      expect(lower[i][0] * lower[j][0] + lower[i][1] * lower[j][1]).toBeCloseTo(value)
+    }))
+  })
+
+  it('rejects a matrix that is not positive definite', () => {
+    expect(() => choleskyDecompose([[1, 1.2], [1.2, 1]])).toThrow('positive definite')
+  })
+})
+
+describe('correlatedNormals', () => {
+  it('produces draws with the requested correlation', () => {
+    const random = createRandom(3)
+    const cholesky = choleskyDecompose([[1, 0.8], [0.8, 1]])
+    const draws = Array.from({ length: 20000 }, () => correlatedNormals(random, cholesky))
+    const correlation = draws.reduce((sum, [a, b]) => sum + a * b, 0) / draws.length
+
+    expect(correlation).toBeCloseTo(0.8, 1)
+  })
+})
@@ -0,0 +1,73 @@
+/**
+ * Seeded random numbers for reproducible stochastic runs
+ */
+
+export interface RandomSource {
+  next: () => number                     // uniform [0, 1)
+  normal: () => number                   // standard normal
+}
+
+/**
+ * Mulberry32 PRNG with Box-Muller normals; the same seed always yields the same sequence
+ */
+export const createRandom = (seed: number): RandomSource => {
+  let state = seed >>> 0
+  let spareNormal: number | null = null
+
+  const next = () => {
+    state = (state + 0x6D2B79F5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+
+  const normal = () => {
+    if (spareNormal !== null) {
+      const value = spareNormal
+      spareNormal = null
+      return value
+    }
+    let u = 0
+    while (u === 0) u = next()
+    const v = next()
+    const radius = Math.sqrt(-2 * Math.log(u))
+    spareNormal = radius * Math.sin(2 * Math.PI * v)
+    return radius * Math.cos(2 * Math.PI * v)
+  }
+
+  return { next, normal }
+}
+
+/**
+ * Lower-triangular Cholesky factor of a symmetric positive-definite matrix
+ * @throws Error when the matrix is not positive definite
+ */
+export const choleskyDecompose = (matrix: number[][]): number[][] => {
+  const n = matrix.length
+  const lower = Array.from({ length: n }, () => new Array<number>(n).fill(0))
+
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j <= i; j++) {
+      let sum = matrix[i][j]
+      for (let k = 0; k < j; k++) sum -= lower[i][k] * lower[j][k]
+
+      if (i === j) {
+        if (sum <= 0) throw new Error('Correlation matrix must be positive definite')
+        lower[i][j] = Math.sqrt(sum)
+      } else {
+        lower[i][j] = sum / lower[j][j]
+      }
+    }
+  }
+
+  return lower
+}
+
+/**
+ * Draw one vector of correlated standard normals
+ */
+export const correlatedNormals = (random: RandomSource, cholesky: number[][]): number[] => {
+  const independent = cholesky.map(() => random.normal())
+  return cholesky.map(row => row.reduce((sum, weight, k) => sum + weight * independent[k], 0))
+}
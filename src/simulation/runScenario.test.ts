@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest'
+import { runScenario, PROJECTION_END_AGE } from './runScenario'
+import { createDefaultPlannerState, createDefaultPropertyState, type AppSettings, type PlannerState } from '../types/planner'
+import { createDefaultSettings } from '../schemas/planner'
+
+const settings = createDefaultSettings() as AppSettings
+const startDate = new Date(2026, 6, 1)
+
+const createState = (overrides: Partial<PlannerState> = {}): PlannerState => ({
+  ...createDefaultPlannerState(settings),
+  ...overrides
+})
+
+describe('runScenario', () => {
+  it('rejects a retirement age at or before the current age', () => {
+    const state = createState()
+    expect(() => runScenario({ ...state, goal: { ...state.goal, retireAge: 30 } }, settings, { startDate }))
+      .toThrow('retirement age must be greater than current age')
+  })
+
+  it('projects month by month to the end age', () => {
+    const result = runScenario(createState(), settings, { startDate })
+    const months = (PROJECTION_END_AGE - 30) * 12
+
+    expect(result.series.month).toHaveLength(months + 1)
+    expect(result.series.age[0]).toBe(30)
+    expect(result.series.age[months]).toBeCloseTo(PROJECTION_END_AGE)
+    Object.values(result.series).forEach(series => expect(series).toHaveLength(months + 1))
+  })
+
+  it('is deterministic for the same inputs', () => {
+    const first = runScenario(createState(), settings, { startDate })
+    const second = runScenario(createState(), settings, { startDate })
+
+    expect(second.kpis).toEqual(first.kpis)
+    expect(second.series.netWorth).toEqual(first.series.netWorth)
+  })
+
+  it('grows super faster with salary sacrifice', () => {
+    const state = createState()
+    const base = runScenario(state, settings, { startDate })
+    const sacrificing = runScenario({ ...state, super: { ...state.super, salarySacrificeMonthly: 500 } }, settings, { startDate })
+
+    expect(sacrificing.kpis.superAtRetire).toBeGreaterThan(base.kpis.superAtRetire)
+    expect(sacrificing.kpis.capUsagePct).toBeGreaterThan(base.kpis.capUsagePct!)
+  })
+
+  it('tracks an investment property loan and its LVR', () => {
+    const property = createDefaultPropertyState(settings, { value: 800000, loanBalance: 600000, rentPerWeek: 650 })
+    const result = runScenario(createState({ properties: [property] }), settings, { startDate })
+
+    expect(result.series.loanBalance![0]).toBe(600000)
+    expect(result.series.loanBalance![12]).toBeLessThan(600000)
+    expect(result.series.lvr![12]).toBeCloseTo(result.series.loanBalance![12] / result.series.propertyValue![12])
+    expect(result.kpis.propertyEquityAtRetire).toBeGreaterThan(200000)
+  })
+
+  it('warns when Division 293 tax applies to a high earner', () => {
+    const state = createState()
+    const result = runScenario({ ...state, incomeExpense: { ...state.incomeExpense, salary: 300000 } }, settings, { startDate })
+
+    expect(result.warnings).toContain('Division 293 tax applies in some years: concessional contributions are taxed at 30% instead of 15%')
+  })
+
+  it('pays the Age Pension from pension age to a modest retiree', () => {
+    const state = createState()
+    const result = runScenario({
+      ...state,
+      goal: { ...state.goal, currentAge: 60, retireAge: 63 },
+      super: { ...state.super, balance: 200000 },
+      portfolio: { ...state.portfolio, startingBalance: 0, dcaMonthly: 0 }
+    }, settings, { startDate })
+    const pensionAgeMonth = (67 - 60) * 12
+
+    expect(result.series.agePension!.slice(0, pensionAgeMonth).every(amount => amount === 0)).toBe(true)
+    expect(result.series.agePension![pensionAgeMonth + 1]).toBeGreaterThan(0)
+    expect(result.kpis.agePensionAtPensionAge).toBeGreaterThan(0)
+  })
+
+  it('sells the home to downsize and adds the downsizer contribution to super', () => {
+    const state = createState()
+    const home = createDefaultPropertyState(settings, {
+      usage: 'owner-occupied', value: 1200000, loanBalance: 0, saleAge: 70, downsizeToValue: 700000, downsizerContribution: 200000
+    })
+    const result = runScenario({ ...state, goal: { ...state.goal, currentAge: 60, retireAge: 65 }, properties: [home] }, settings, { startDate })
+    const [sale] = result.homeSales!
+    const saleMonth = (70 - 60) * 12
+
+    expect(result.homeSales).toHaveLength(1)
+    expect(sale).toMatchObject({ age: 70, loanRepaid: 0, downsizerContributions: 200000 })
+    expect(sale.cashReleased).toBeCloseTo(sale.proceeds - sale.replacementCost - 200000)
+    expect(result.series.superBalance[saleMonth + 1] - result.series.superBalance[saleMonth]).toBeGreaterThan(150000)
+  })
+
+  it('assesses a couple without partner details as single, with a warning', () => {
+    const state = createState()
+    const single = runScenario(state, settings, { startDate })
+    const couple = runScenario({ ...state, goal: { ...state.goal, maritalStatus: 'couple' } }, settings, { startDate })
+
+    expect(couple.kpis).toEqual(single.kpis)
+    expect(couple.warnings).toContain(
+      'No partner details were entered, so the household is assessed as single for the Age Pension and Medicare levy surcharge')
+  })
+})
@@ -0,0 +1,766 @@
+/**
+ * Simulation Engine - month-by-month projection
+ * Pure function: no side effects, deterministic output for a given input and start date
+ */
+
+import type {
+  AppSettings,
+  CapitalGainsYear,
+  HomeSaleEvent,
+  MemberKPIs,
+  PlannerState,
+  ScenarioKPIs,
+  ScenarioResult,
+  ScenarioSeries
+} from '../types/planner'
+import { calculateDivision293Tax, calculateNetIncome } from '../utils/taxCalculations'
+import type { Assumptions, CashModuleState, ReturnPath, SimulationContext, SimulationOptions, SuperModuleState } from './types'
+import { getFinancialYear, getFinancialYearMonth, monthsBetween } from './utils'
+import {
+  calculateSuperProgression,
+  createInitialSuperState,
+  getDownsizerContribution,
+  getNonConcessionalRequest
+} from './modules/super'
+import {
+  calculatePortfolioProgression,
+  createInitialPortfolioState,
+  getMonthlyDistribution,
+  sellPortfolioUnits
+} from './modules/portfolio'
+import { calculateDistributionTaxEffect } from './modules/distributionTax'
+import { calculateHelpProgression, createInitialHelpState } from './modules/help'
+import { calculateCoContribution, calculateLISTO, calculateSpouseContributionOffset } from './modules/superIncentives'
+import {
+  buyReplacementHome,
+  calculatePropertyProgression,
+  createInitialPropertyState,
+  sellProperty
+} from './modules/property'
+import { calculateRentalTaxEffect, getNetRentalIncome } from './modules/propertyTax'
+import { calculateLandTax } from './modules/landTax'
+import { calculateAvailableCash, calculateBufferTarget, calculateCashProgression } from './modules/cash'
+import { calculatePensionPhase, calculateRetirementDrawdown } from './modules/pension'
+import { calculateAgePension, type AgePensionAssessment } from './modules/agePension'
+import { getAgePensionParameters } from './data/agePensionRates'
+import {
+  addCapitalGain,
+  assessCapitalGains,
+  DISCOUNT_HOLDING_MONTHS,
+  emptyCapitalGainsTotals
+} from './modules/capitalGains'
+import { formatFinancialYear, getTaxParameters, type TaxParameters } from './data/taxParameters'
+import { getHouseholdMembers, getOwnershipShare, getProjectionEndAge } from './household'
+
+// Projections run to this age unless the caller asks otherwise
+export const PROJECTION_END_AGE = 100
+
+// Preset assumptions with any path-supplied rates for this year swapped in
+const assumptionsForYear = (base: Assumptions, path: ReturnPath | undefined, yearIndex: number): Assumptions => {
+  if (!path) return base
+  const pick = (rates: number[] | undefined, fallback: number) =>
+    rates && rates.length > 0 ? rates[Math.min(yearIndex, rates.length - 1)] : fallback
+
+  return {
+    ...base,
+    superReturns: pick(path.superReturns, base.superReturns),
+    etfReturns: pick(path.etfReturns, base.etfReturns),
+    propertyGrowth: pick(path.propertyGrowth, base.propertyGrowth),
+    inflation: pick(path.inflation, base.inflation)
+  }
+}
+
+// One member's totals for the financial year so far
+interface MemberYearTotals {
+  taxableIncome: number
+  employmentIncome: number
+  concessional: number
+  salarySacrifice: number
+  personalContributions: number          // own after-tax contributions
+  spouseContributions: number            // after-tax contributions made into the partner's super
+}
+
+const emptyMemberYearTotals = (): MemberYearTotals => ({
+  taxableIncome: 0,
+  employmentIncome: 0,
+  concessional: 0,
+  salarySacrifice: 0,
+  personalContributions: 0,
+  spouseContributions: 0
+})
+
+/**
+ * Division 293 on a member's financial-year totals, assessed each June
+ * A first year that starts part-way through is scaled up to a full year and only the projected
+ * months' share is charged. `fromSalarySacrifice` is the part that salary sacrifice caused.
+ */
+const assessDivision293 = (totals: MemberYearTotals, monthsProjected: number, tax: TaxParameters) => {
+  const scale = 12 / monthsProjected
+  const assess = (taxableIncome: number, concessional: number) =>
+    calculateDivision293Tax(taxableIncome * scale, concessional * scale, tax) / scale
+
+  const charged = assess(totals.taxableIncome, totals.concessional)
+  const withoutSacrifice = assess(totals.taxableIncome + totals.salarySacrifice, totals.concessional - totals.salarySacrifice)
+  return { tax: charged, fromSalarySacrifice: Math.max(0, charged - withoutSacrifice) }
+}
+
+/**
+ * Co-contribution and LISTO on a member's financial-year totals, paid into super each June
+ * Income tests use reportable super (salary sacrifice) as well as taxable income; a first year
+ * that starts part-way through is scaled up as for Division 293.
+ */
+const assessSuperIncentives = (
+  totals: MemberYearTotals,
+  monthsProjected: number,
+  age: number,
+  superBalance: number,
+  tax: TaxParameters
+) => {
+  const scale = 12 / monthsProjected
+  const income = (totals.taxableIncome + totals.salarySacrifice) * scale
+  const employmentIncome = totals.employmentIncome * scale
+
+  return {
+    coContribution: calculateCoContribution(
+      totals.personalContributions * scale, income, employmentIncome, age, superBalance, tax
+    ) / scale,
+    listo: calculateLISTO(totals.concessional * scale, income, employmentIncome, tax) / scale
+  }
+}
+
+/**
+ * Run the projection from current age through retirement to the end age (default 100)
+ * Couples are projected per person (pay, tax, super) with shared expenses, ETFs and cash;
+ * ages and retirement KPIs are on the primary member's timeline
+ * @param input - Typed planner state
+ * @param settings - App settings (assumption presets, caps, preservation age); tax rates and
+ *   thresholds come from the financial-year registry, stepping forward each 1 July
+ * @param options - Start date for the FY calendar, horizon, return path and an optional progress callback
+ */
+export const runScenario = (
+  input: PlannerState,
+  settings: AppSettings,
+  options: SimulationOptions = {}
+): ScenarioResult => {
+  const startTime = performance.now()
+
+  const { goal, incomeExpense, buffers } = input
+  if (!goal?.currentAge || !goal?.retireAge) {
+    throw new Error('Invalid input: missing required age fields')
+  }
+  if (goal.retireAge <= goal.currentAge) {
+    throw new Error('Invalid input: retirement age must be greater than current age')
+  }
+  if (input.partner && !input.partner.currentAge) {
+    throw new Error('Invalid input: missing partner age')
+  }
+
+  const assumptions = settings.assumptionPresets[goal.assumptionPreset] || settings.assumptionPresets.Base
+  const members = getHouseholdMembers(input, settings, assumptions.wageGrowth)
+  const startFyMonth = getFinancialYearMonth(options.startDate || new Date())
+  const startFinancialYear = getFinancialYear(options.startDate || new Date())
+  // Thresholds past the registry's last year are indexed at the preset's own inflation and wages
+  const taxIndexation = { inflation: assumptions.inflation, wageGrowth: assumptions.wageGrowth }
+  const taxAtStart = getTaxParameters(startFinancialYear, taxIndexation)
+  const retireMonth = members[0].retireMonth
+  const endAge = getProjectionEndAge(input, options.endAge ?? PROJECTION_END_AGE)
+  const totalMonths = (endAge - goal.currentAge) * 12
+  // Spending target in today's dollars once everyone has retired
+  const retirementSpend = goal.targetIncomeYearly || incomeExpense.expensesMonthly * 12
+  // Only properties already owned are held; 'looking-to-buy' entries are plans, not assets
+  const heldProperties = (input.properties || []).filter(p => p.intent === 'existing')
+  const hasProperty = heldProperties.length > 0
+  const agePensionParams = getAgePensionParameters(options.startDate)
+  // Couple thresholds and rates need both members modelled; 'family' can be a single parent
+  const isCouple = !!input.partner
+  // Without hospital cover, high earners pay the Medicare levy surcharge; with it, the premium is
+  // spent instead (in retirement it's part of the spending target)
+  const hasHospitalCover = !!incomeExpense.privateHealth?.hasHospitalCover
+  const privateHealthPremiumMonthly = hasHospitalCover ? incomeExpense.privateHealth!.premiumYearly / 12 : 0
+  // Months each property has been held when the projection starts; without a purchase date it's
+  // taken to be long enough for the CGT discount
+  const monthsHeldAtStart = heldProperties.map(p =>
+    p.purchaseDate ? monthsBetween(new Date(p.purchaseDate), options.startDate || new Date()) : DISCOUNT_HOLDING_MONTHS
+  )
+  const saleMonths = heldProperties.map(p =>
+    p.saleAge !== undefined ? Math.max(0, Math.round((p.saleAge - goal.currentAge) * 12)) : undefined
+  )
+
+  const warnings = new Set<string>()
+  if (!input.partner && goal.maritalStatus === 'couple') {
+    warnings.add('No partner details were entered, so the household is assessed as single for the Age Pension and Medicare levy surcharge')
+  }
+
+  // Initial module states
+  let superStates: SuperModuleState[] = members.map(m =>
+    createInitialSuperState(m.super, m.currentAge, m.preservationAge, startFinancialYear, taxAtStart)
+  )
+  // Unused cap from earlier years that the first year's contributions may use
+  const startingCarryForward = superStates.map(s =>
+    s.carryForwardEligible ? s.unusedCap.reduce((sum, entry) => sum + entry.amount, 0) : 0
+  )
+  let portfolioState = createInitialPortfolioState(input.portfolio)
+  const helpStates = members.map(m => createInitialHelpState(m.helpDebt))
+  let propertyStates = heldProperties.map(createInitialPropertyState)
+  let landTaxYearly = heldProperties.map(() => 0)
+  let cashState: CashModuleState = {
+    totalCash: heldProperties.reduce((sum, p) => sum + (p.offsetBalance || 0), 0),
+    bufferTarget: 0,
+    buffersAdequate: false
+  }
+
+  const series: ScenarioSeries = {
+    month: [],
+    age: [],
+    netWorth: [],
+    superBalance: [],
+    outsideSuperBalance: [],
+    cashBalance: [],
+    loanBalance: [],
+    lvr: [],
+    propertyValue: [],
+    dcaPaused: [],
+    retirementDrawdown: [],
+    shortfall: [],
+    agePension: []
+  }
+
+  const sumProperties = (key: 'value' | 'loanBalance' | 'equity') =>
+    propertyStates.reduce((sum, p) => sum + p[key], 0)
+  const sumSuper = () => superStates.reduce((sum, s) => sum + s.balance, 0)
+
+  // Per-member figures for the household breakdown
+  const memberSuperAtRetire: Array<number | undefined> = members.map(() => undefined)
+  const memberFirstYearConcessional = members.map(() => 0)
+  const memberFirstYearNetIncome = members.map(() => 0)
+  const memberHelpPaidOffAge: Array<number | undefined> = members.map(() => undefined)
+  const yearTotals = members.map(() => emptyMemberYearTotals())
+  let governmentContributionsTotal = 0
+  let propertyEquityAtRetire: number[] = []
+
+  // Capital gains per member for the financial year, assessed the following July
+  let capitalGainsTotals = members.map(() => emptyCapitalGainsTotals())
+  const carriedCapitalLoss = members.map(() => 0)
+  const emptySales = () => ({ assetsSold: new Set<string>(), proceeds: 0, loansRepaid: 0 })
+  let yearSales = emptySales()
+  const capitalGains: CapitalGainsYear[] = []
+  let capitalGainsTaxTotal = 0
+  const homeSales: HomeSaleEvent[] = []
+  let downsizerContributionsTotal = 0
+  let landTaxTotal = 0
+
+  // The household's means-test position from the current states; super in accumulation phase is
+  // exempt until its owner reaches pension age, and the home only while one is still owned
+  const getAgePensionAssessment = (ages: number[], extraCash: number, otherIncomeYearly: number): AgePensionAssessment => {
+    const investments = propertyStates.filter((_, i) => heldProperties[i].usage === 'investment')
+    const assessedSuper = superStates.reduce(
+      (sum, s, i) => (s.pensionPhase || ages[i] >= agePensionParams.pensionAge ? sum + s.balance : sum),
+      0
+    )
+    return {
+      isCouple,
+      isHomeowner: propertyStates.some((p, i) => heldProperties[i].usage === 'owner-occupied' && !p.sold),
+      financialAssets: assessedSuper + portfolioState.balance + Math.max(0, cashState.totalCash + extraCash),
+      otherAssets: investments.reduce((sum, p) => sum + Math.max(0, p.equity), 0),
+      // Net rent after costs and interest (principal repayments aren't deductible), plus any partner's wages
+      otherIncomeYearly: investments.reduce((sum, p) => sum + p.monthlyNetCashflow + p.monthlyPrincipalPayment, 0) * 12 +
+        otherIncomeYearly
+    }
+  }
+
+  const record = (month: number, dcaPaused: boolean, drawdown = 0, shortfall = 0, agePension = 0) => {
+    const equity = sumProperties('equity')
+    const value = sumProperties('value')
+    const loanBalance = sumProperties('loanBalance')
+    const superBalance = sumSuper()
+    series.month.push(month)
+    series.age.push(goal.currentAge + month / 12)
+    series.netWorth.push(superBalance + portfolioState.balance + cashState.totalCash + equity)
+    series.superBalance.push(superBalance)
+    series.outsideSuperBalance.push(portfolioState.balance)
+    series.cashBalance.push(cashState.totalCash)
+    series.loanBalance!.push(loanBalance)
+    series.lvr!.push(value > 0 ? loanBalance / value : 0)
+    series.propertyValue!.push(value)
+    series.dcaPaused!.push(dcaPaused)
+    series.retirementDrawdown!.push(drawdown)
+    series.shortfall!.push(shortfall)
+    series.agePension!.push(agePension)
+
+    members.forEach((m, i) => {
+      if (month === m.retireMonth) memberSuperAtRetire[i] = superStates[i].balance
+    })
+    if (month === retireMonth) propertyEquityAtRetire = propertyStates.map(p => p.equity)
+  }
+
+  record(0, false)
+
+  let totalTaxSaved = 0
+  let priceIndex = 1
+  let yearAssumptions = assumptions
+  let tax = taxAtStart
+  let previousYearTax = taxAtStart
+  let moneyRunsOutAge: number | undefined
+  let agePensionAtPensionAge: number | undefined
+
+  // Selling the home is compared against the Age Pension the household could get on the day (yearly,
+  // today's dollars), with everyone taken to be of pension age and no wages
+  const pensionAges = members.map(() => agePensionParams.pensionAge)
+  const getAgePensionToday = (extraCash: number) =>
+    calculateAgePension(getAgePensionAssessment(pensionAges, extraCash, 0), agePensionParams, priceIndex)
+      .entitlementFortnightly * 26 / priceIndex
+
+  // Monthly simulation loop
+  for (let month = 0; month < totalMonths; month++) {
+    const yearIndex = Math.floor(month / 12)
+    if (month % 12 === 0) {
+      if (month > 0) priceIndex *= 1 + yearAssumptions.inflation
+      yearAssumptions = assumptionsForYear(assumptions, options.returnPath, yearIndex)
+    }
+    const financialYear = startFinancialYear + Math.floor((startFyMonth + month) / 12)
+    if (month > 0 && (startFyMonth + month) % 12 === 0) {
+      previousYearTax = tax
+      tax = getTaxParameters(financialYear, taxIndexation)
+    }
+
+    const context: SimulationContext = {
+      month,
+      age: goal.currentAge + month / 12,
+      fyMonth: (startFyMonth + month) % 12,
+      financialYear,
+      yearIndex,
+      priceIndex,
+      settings,
+      assumptions: yearAssumptions,
+      tax,
+      taxAtStart
+    }
+
+    if (options.onProgress && month % 12 === 0) {
+      options.onProgress((month / totalMonths) * 100, month)
+    }
+
+    // The household lives on working expenses until the last member retires; expenses rise with inflation
+    const working = members.map(m => month < m.retireMonth)
+    const householdWorking = working.some(Boolean)
+    const memberAges = members.map(m => m.currentAge + month / 12)
+    const monthlyExpenses = (householdWorking ? incomeExpense.expensesMonthly + privateHealthPremiumMonthly : retirementSpend / 12) * priceIndex
+
+    // Last financial year's gains are taxed at each member's marginal rate, paid from cash in July
+    let capitalGainsTaxDue = 0
+    if (month > 0 && context.fyMonth === 0) {
+      let netCapitalGain = 0
+      members.forEach((_, i) => {
+        const assessed = assessCapitalGains(capitalGainsTotals[i], carriedCapitalLoss[i], previousYearTax)
+        carriedCapitalLoss[i] = assessed.carriedLoss
+        netCapitalGain += assessed.netCapitalGain
+        capitalGainsTaxDue += assessed.tax
+      })
+      if (yearSales.proceeds > 0) {
+        capitalGains.push({
+          financialYear: formatFinancialYear(financialYear - 1),
+          age: Math.floor(context.age),
+          assetsSold: Array.from(yearSales.assetsSold),
+          proceeds: yearSales.proceeds,
+          netCapitalGain,
+          tax: capitalGainsTaxDue,
+          netProceeds: yearSales.proceeds - yearSales.loansRepaid - capitalGainsTaxDue
+        })
+      }
+      capitalGainsTaxTotal += capitalGainsTaxDue
+      capitalGainsTotals = members.map(() => emptyCapitalGainsTotals())
+      yearSales = emptySales()
+    }
+
+    const homeSaleDue = propertyStates.some((p, j) =>
+      !p.sold && month === saleMonths[j] && heldProperties[j].usage === 'owner-occupied'
+    )
+    const agePensionBeforeSale = homeSaleDue ? getAgePensionToday(0) : 0
+    const homeSalesThisMonth: HomeSaleEvent[] = []
+
+    // Properties due for sale go at the start of the month; the loan is repaid from the proceeds
+    let saleCash = 0
+    propertyStates = propertyStates.map((previous, j) => {
+      if (previous.sold || month !== saleMonths[j]) return previous
+      const property = heldProperties[j]
+      const sale = sellProperty(property, previous)
+      const share = getOwnershipShare(property, input)
+      const discountable = monthsHeldAtStart[j] + month >= DISCOUNT_HOLDING_MONTHS
+      members.forEach((_, i) => addCapitalGain(capitalGainsTotals[i], sale.capitalGain * (i === 0 ? share : 1 - share), discountable))
+
+      yearSales.assetsSold.add(property.name)
+      yearSales.proceeds += sale.proceeds
+      yearSales.loansRepaid += sale.loanRepaid
+      if (property.usage !== 'owner-occupied') {
+        saleCash += sale.proceeds - sale.loanRepaid
+        return sale.state
+      }
+
+      // Downsizing: the next home is paid for first, then each eligible member's downsizer
+      // contribution comes out of what's left
+      const replacement = property.downsizeToValue
+        ? buyReplacementHome(property, previous, { state: property.state || goal.state, date: options.startDate })
+        : undefined
+      const replacementCost = replacement?.cost || 0
+      let released = sale.proceeds - sale.loanRepaid - replacementCost
+      const monthsOwned = property.purchaseDate ? monthsHeldAtStart[j] + month : undefined
+      let contributed = 0
+      superStates = superStates.map((s, i) => {
+        const requested = property.downsizerContribution || 0
+        const amount = Math.min(Math.max(0, released), getDownsizerContribution(requested, memberAges[i], monthsOwned, tax))
+        if (amount < requested) {
+          warnings.add(`Downsizer contributions were reduced: they're allowed from age ${tax.downsizer.minAge} on a home ` +
+            `owned ${tax.downsizer.minOwnershipYears} years or more, up to $${tax.downsizer.maxContribution.toLocaleString()} each and the sale proceeds`)
+        }
+        released -= amount
+        contributed += amount
+        return amount > 0 ? { ...s, balance: s.balance + amount } : s
+      })
+      if (released < 0) {
+        warnings.add('The next home costs more than the sale of the current one releases; the difference comes from cash')
+      }
+      downsizerContributionsTotal += contributed
+      saleCash += released
+
+      homeSalesThisMonth.push({
+        propertyName: property.name,
+        age: context.age,
+        proceeds: sale.proceeds,
+        loanRepaid: sale.loanRepaid,
+        replacementCost,
+        downsizerContributions: contributed,
+        cashReleased: released,
+        agePensionBefore: agePensionBeforeSale,
+        agePensionAfter: 0
+      })
+      return replacement ? replacement.state : sale.state
+    })
+    if (homeSalesThisMonth.length > 0) {
+      const agePensionAfterSale = getAgePensionToday(saleCash)
+      homeSalesThisMonth.forEach(sale => homeSales.push({ ...sale, agePensionAfter: agePensionAfterSale }))
+    }
+
+    // Land tax is assessed each July on the land values of the investment properties still held
+    if (month === 0 || context.fyMonth === 0) {
+      landTaxYearly = calculateLandTax(
+        propertyStates.map((p, j) => ({ ...heldProperties[j], value: p.sold ? 0 : p.value })),
+        { defaultState: goal.state, date: options.startDate, indexation: priceIndex }
+      )
+    }
+
+    // Cash sits in offset accounts in property order, up to each account's balance
+    let offsetCashRemaining = Math.max(0, cashState.totalCash)
+    propertyStates = propertyStates.map((previous, i) => {
+      const next = calculatePropertyProgression(heldProperties[i], offsetCashRemaining, context, previous, landTaxYearly[i])
+      offsetCashRemaining = Math.max(0, offsetCashRemaining - (heldProperties[i].offsetBalance || 0))
+      if (!next.sold) landTaxTotal += landTaxYearly[i] / 12
+      return next
+    })
+
+    // Each member's share of net rental income, at this month's rate
+    const netRentalIncome = heldProperties.map((p, j) => getNetRentalIncome(p, propertyStates[j]))
+    const memberRentalIncome = members.map((_, i) => netRentalIncome.reduce((sum, amount, j) => {
+      const share = getOwnershipShare(heldProperties[j], input)
+      return sum + amount * (i === 0 ? share : 1 - share)
+    }, 0))
+
+    // ETF distributions are reinvested; like the units, they're split evenly between members
+    const etfDistribution = getMonthlyDistribution(input.portfolio, portfolioState.balance, tax.franking.corporateTaxRate, settings)
+    const memberDistribution = etfDistribution.distribution * 12 / members.length
+    const memberFrankingCredits = etfDistribution.frankingCredits * 12 / members.length
+
+    // Couples and parents are tiered for the surcharge on family income
+    const medicareCover = {
+      hasPrivateCover: hasHospitalCover,
+      family: isCouple,
+      dependants: goal.dependentsCount || 0,
+      familyIncome: members.reduce((sum, m, i) =>
+        working[i] ? sum + (m.salary + m.bonus) * Math.pow(1 + m.wageGrowthPct, yearIndex) : sum, 0)
+    }
+
+    let netIncome = 0
+    let employmentIncomeYearly = 0
+    superStates = superStates.map((previous, i) => {
+      const member = members[i]
+      const isWorking = working[i]
+      const memberContext: SimulationContext = { ...context, age: memberAges[i] }
+
+      // Salary rises with wages each anniversary
+      const wageIndex = Math.pow(1 + member.wageGrowthPct, yearIndex)
+      const annualSalary = isWorking ? member.salary * wageIndex : 0
+      const annualBonus = isWorking ? member.bonus * wageIndex : 0
+
+      // A partner's spouse contributions arrive as after-tax contributions, after the member's own
+      const ownNonConcessional = getNonConcessionalRequest(member.super, memberAges[i])
+      const fromSpouse = members.length > 1 ? (members[1 - i].super.spouseContributionYearly || 0) / 12 : 0
+      const superInput = fromSpouse > 0
+        ? { ...member.super, nonConcessionalMonthly: (member.super.nonConcessionalMonthly || 0) + fromSpouse }
+        : member.super
+
+      let superState = calculateSuperProgression(superInput, annualSalary / 12, isWorking, memberContext, previous)
+      if (isWorking && superState.salarySacrificeApplied < (member.super.salarySacrificeMonthly || 0)) {
+        warnings.add('Salary sacrifice was reduced to stay within the concessional cap')
+      }
+      const spouseContributionApplied = Math.max(0, superState.nonConcessionalApplied - ownNonConcessional)
+      if (fromSpouse > 0) yearTotals[1 - i].spouseContributions += spouseContributionApplied
+      if (superState.nonConcessionalApplied < getNonConcessionalRequest(superInput, memberAges[i])) {
+        warnings.add(previous.pensionPhase
+          ? 'After-tax super contributions planned after retirement were left out; super is paying a pension by then'
+          : 'After-tax super contributions were reduced to stay within the non-concessional cap')
+      }
+
+      // Retired and past preservation age: super moves to an account-based pension
+      superState = calculatePensionPhase(!isWorking && memberAges[i] >= member.preservationAge, memberContext, superState)
+
+      // Take-home pay after salary sacrifice and income tax, assessed per person
+      const grossAnnual = annualSalary + annualBonus
+      const sacrificeAnnual = superState.salarySacrificeApplied * 12
+      const taxWithSacrifice = calculateNetIncome(grossAnnual, sacrificeAnnual, tax, undefined, medicareCover)
+      if (taxWithSacrifice.medicareLevySurcharge > 0) {
+        warnings.add('The Medicare levy surcharge applies in some years; private hospital cover may cost less')
+      }
+      // Rent itself is in the property cash flow; only the tax on it (or refund) is added here,
+      // spread monthly as with a PAYG withholding variation
+      const rentalAnnual = memberRentalIncome[i] * 12
+      const rentalTaxEffect = calculateRentalTaxEffect(rentalAnnual, grossAnnual - sacrificeAnnual, tax)
+      // Tax on distributions comes from cash, and excess franking credits are refunded into it
+      const distributionTaxEffect = calculateDistributionTaxEffect(
+        memberDistribution,
+        memberFrankingCredits,
+        grossAnnual - sacrificeAnnual + rentalAnnual,
+        tax
+      )
+
+      // HELP repayment income adds back salary sacrifice and rental losses; compulsory repayments
+      // are withheld from pay, voluntary ones come out of household cash
+      const helpOwing = helpStates[i].balance > 0
+      const repaymentIncome = grossAnnual + Math.max(0, rentalAnnual) + memberDistribution + memberFrankingCredits
+      helpStates[i] = calculateHelpProgression(member.helpDebt, repaymentIncome, memberContext, helpStates[i])
+      if (helpOwing && helpStates[i].balance <= 0) memberHelpPaidOffAge[i] = memberAges[i]
+
+      const memberNetIncome = (isWorking ? taxWithSacrifice.netIncome / 12 : 0) -
+        (rentalTaxEffect + distributionTaxEffect) / 12 - helpStates[i].compulsoryRepayment
+      netIncome += memberNetIncome
+      netIncome -= helpStates[i].voluntaryRepayment
+      // After-tax contributions come out of household cash
+      netIncome -= superState.nonConcessionalApplied
+      employmentIncomeYearly += grossAnnual
+
+      if (sacrificeAnnual > 0) {
+        const taxWithout = calculateNetIncome(grossAnnual, 0, tax, undefined, medicareCover)
+        const incomeTaxSaved = (taxWithout.totalTax - taxWithSacrifice.totalTax) / 12
+        totalTaxSaved += incomeTaxSaved - superState.salarySacrificeApplied * member.super.contributionsTaxPct
+      }
+
+      // Division 293 comes out of the member's super once the year's income is known; the
+      // co-contribution and LISTO are paid into it
+      const totals = yearTotals[i]
+      const taxableIncomeAnnual = grossAnnual - sacrificeAnnual + rentalAnnual + memberDistribution + memberFrankingCredits
+      totals.taxableIncome += taxableIncomeAnnual / 12
+      capitalGainsTotals[i].otherTaxableIncome += taxableIncomeAnnual / 12
+      capitalGainsTotals[i].months += 1
+      totals.employmentIncome += grossAnnual / 12
+      totals.concessional += superState.monthlyContributions
+      totals.salarySacrifice += superState.salarySacrificeApplied
+      totals.personalContributions += superState.nonConcessionalApplied - spouseContributionApplied
+      if (context.fyMonth === 11) {
+        const monthsProjected = Math.min(12, month + 1)
+        const division293 = assessDivision293(totals, monthsProjected, tax)
+        if (division293.tax > 0) {
+          superState = { ...superState, balance: Math.max(0, superState.balance - division293.tax) }
+          totalTaxSaved -= division293.fromSalarySacrifice
+          warnings.add('Division 293 tax applies in some years: concessional contributions are taxed at 30% instead of 15%')
+        }
+        const incentives = assessSuperIncentives(totals, monthsProjected, memberAges[i], previous.balance, tax)
+        superState = { ...superState, balance: superState.balance + incentives.coContribution + incentives.listo }
+        governmentContributionsTotal += incentives.coContribution + incentives.listo
+      }
+
+      // Cap usage is for the starting financial year, which the cap (and carry-forward) applies to
+      if (financialYear === startFinancialYear) memberFirstYearConcessional[i] += superState.monthlyContributions
+      if (month < 12) memberFirstYearNetIncome[i] += memberNetIncome
+
+      return superState
+    })
+
+    // The spouse contribution offset needs both partners' years, so it's assessed once both are
+    // done; it comes back as a lower tax bill
+    if (context.fyMonth === 11) {
+      const monthsProjected = Math.min(12, month + 1)
+      members.forEach((_, i) => {
+        if (members.length < 2 || yearTotals[i].spouseContributions <= 0) return
+        const spouse = yearTotals[1 - i]
+        const scale = 12 / monthsProjected
+        netIncome += calculateSpouseContributionOffset(
+          yearTotals[i].spouseContributions * scale,
+          (spouse.taxableIncome + spouse.salarySacrifice) * scale,
+          memberAges[1 - i],
+          superStates[1 - i].balance,
+          tax
+        ) / scale
+      })
+      members.forEach((_, i) => { yearTotals[i] = emptyMemberYearTotals() })
+    }
+
+    const propertyNetCashflow = propertyStates.reduce((sum, p) => sum + p.monthlyNetCashflow, 0)
+    const propertyOutgoings = propertyStates.reduce(
+      (sum, p) => sum + p.totalPropertyCosts + p.monthlyInterest + p.monthlyPrincipalPayment,
+      0
+    )
+    const bufferTarget = calculateBufferTarget(buffers, monthlyExpenses, propertyOutgoings)
+
+    // Age Pension for each retired member of pension age, means-tested on the household's assets and income
+    let agePensionMonthly = 0
+    const eligibleMembers = members.filter((_, i) => !working[i] && memberAges[i] >= agePensionParams.pensionAge).length
+    if (eligibleMembers > 0) {
+      const entitlement = calculateAgePension(
+        // Cash from a sale this month is assessed straight away, like the home it came from
+        getAgePensionAssessment(memberAges, saleCash, employmentIncomeYearly),
+        agePensionParams,
+        priceIndex
+      )
+      // The couple rate is split evenly, so each partner draws half of it once eligible
+      agePensionMonthly = (entitlement.entitlementFortnightly * 26 / 12) * (eligibleMembers / members.length)
+      if (agePensionAtPensionAge === undefined) {
+        agePensionAtPensionAge = (agePensionMonthly * 12) / priceIndex
+      }
+    }
+
+    const availableCash = calculateAvailableCash(
+      cashState,
+      netIncome + agePensionMonthly + saleCash - capitalGainsTaxDue,
+      monthlyExpenses,
+      propertyNetCashflow
+    )
+
+    portfolioState = calculatePortfolioProgression(
+      input.portfolio,
+      availableCash,
+      bufferTarget,
+      householdWorking,
+      context,
+      portfolioState
+    )
+
+    // Spending comes from cash on hand (including any Age Pension), then the pensions and outside-super assets.
+    // While someone still works only pension minimums are paid, into household cash.
+    const drawdown = calculateRetirementDrawdown(
+      householdWorking ? 0 : Math.max(0, -availableCash),
+      superStates,
+      portfolioState
+    )
+    const fromSuper = drawdown.fromSuper.reduce((sum, amount) => sum + amount, 0)
+    superStates = superStates.map((s, i) => ({ ...s, balance: s.balance - drawdown.fromSuper[i] }))
+    // ETFs are held jointly, so gains on units sold are split evenly
+    const etfSale = sellPortfolioUnits(portfolioState, drawdown.fromPortfolio)
+    portfolioState = etfSale.state
+    if (drawdown.fromPortfolio > 0) {
+      members.forEach((_, i) => {
+        addCapitalGain(capitalGainsTotals[i], etfSale.discountableGain / members.length, true)
+        addCapitalGain(capitalGainsTotals[i], etfSale.otherGain / members.length, false)
+      })
+      yearSales.assetsSold.add('ETFs')
+      yearSales.proceeds += drawdown.fromPortfolio
+    }
+
+    if (householdWorking) {
+      cashState = calculateCashProgression(availableCash + fromSuper, portfolioState.monthlyContribution, bufferTarget)
+      if (cashState.totalCash < 0) {
+        warnings.add('Expenses exceed income in some months - cash balance goes negative')
+      }
+      record(month + 1, portfolioState.dcaPaused, fromSuper, 0, agePensionMonthly)
+      continue
+    }
+
+    // Unfunded spending simply doesn't happen, so cash bottoms out at zero
+    cashState = calculateCashProgression(
+      availableCash + fromSuper + drawdown.fromPortfolio + drawdown.shortfall,
+      0,
+      0
+    )
+
+    if (drawdown.shortfall > 0 && moneyRunsOutAge === undefined) {
+      moneyRunsOutAge = context.age
+    }
+    record(month + 1, false, fromSuper + drawdown.fromPortfolio, drawdown.shortfall, agePensionMonthly)
+  }
+
+  options.onProgress?.(100, totalMonths)
+
+  // KPIs at the plan's retirement age, for the whole household
+  const last = retireMonth
+  const superAtRetire = series.superBalance[last]
+  // Outside super = ETF portfolio plus cash, i.e. everything accessible before preservation age
+  const outsideSuperAtRetire = series.outsideSuperBalance[last] + Math.max(0, series.cashBalance[last])
+  // Longest gap any member has between retiring and reaching their super
+  const bridgeYears = Math.max(...members.map(m => Math.max(0, m.preservationAge - Math.max(m.retireAge, m.currentAge))))
+  const buffersPausedDCA = series.dcaPaused!.some(Boolean)
+  const memberCaps = members.map((m, i) =>
+    (m.super.concessionalCapYearly || settings.concessionalCapYearly) + startingCarryForward[i]
+  )
+  const concessionalCap = memberCaps.reduce((sum, cap) => sum + cap, 0)
+  const firstYearConcessional = memberFirstYearConcessional.reduce((sum, amount) => sum + amount, 0)
+
+  if (buffersPausedDCA) {
+    warnings.add('ETF investing was paused while cash buffers were below target')
+  }
+  if (heldProperties.some(p => p.ioOrPi === 'IO' && p.loanBalance > 0)) {
+    warnings.add('Interest-only loan is not being paid down')
+  }
+
+  const memberKPIs: MemberKPIs[] | undefined = input.partner
+    ? members.map((m, i) => {
+        const equityShare = heldProperties.reduce((sum, p, j) => {
+          const share = getOwnershipShare(p, input)
+          return sum + (propertyEquityAtRetire[j] || 0) * (i === 0 ? share : 1 - share)
+        }, 0)
+        return {
+          name: m.name,
+          retireAge: m.retireAge,
+          superAtRetire: memberSuperAtRetire[i] ?? superStates[i].balance,
+          takeHomePayYearly: memberFirstYearNetIncome[i],
+          capUsagePct: memberCaps[i] > 0 ? memberFirstYearConcessional[i] / memberCaps[i] : 0,
+          propertyEquityAtRetire: hasProperty ? equityShare : undefined,
+          helpPaidOffAge: memberHelpPaidOffAge[i]
+        }
+      })
+    : undefined
+
+  const kpis: ScenarioKPIs = {
+    netWorthAtRetire: series.netWorth[last],
+    superAtRetire,
+    outsideSuperAtRetire,
+    bridgeYears,
+    bridgeYearsCovered: retirementSpend > 0 ? outsideSuperAtRetire / retirementSpend : 0,
+    propertyEquityAtRetire: hasProperty ? series.propertyValue![last] - series.loanBalance![last] : undefined,
+    lvrAtRetire: hasProperty ? series.lvr![last] : undefined,
+    capUsagePct: concessionalCap > 0 ? firstYearConcessional / concessionalCap : 0,
+    buffersPausedDCA,
+    totalTaxSaved: Math.max(0, totalTaxSaved),
+    moneyRunsOutAge,
+    agePensionAtPensionAge,
+    capitalGainsTaxTotal,
+    downsizerContributionsTotal,
+    landTaxTotal,
+    helpPaidOffAge: memberHelpPaidOffAge[0],
+    governmentContributionsTotal,
+    members: memberKPIs
+  }
+
+  if (helpStates.some(s => s.balance > 0)) {
+    warnings.add('A HECS/HELP debt is still outstanding at the end of the projection')
+  }
+
+  if (moneyRunsOutAge !== undefined) {
+    warnings.add(`Savings run out at age ${Math.floor(moneyRunsOutAge)} - retirement spending can't be fully funded after that`)
+  }
+
+  return {
+    kpis,
+    series,
+    simulationDurationMs: performance.now() - startTime,
+    warnings: Array.from(warnings),
+    capitalGains,
+    homeSales
+  }
+}
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest'
+import { DEFAULT_SENSITIVITY_DELTAS, runSensitivity } from './sensitivity'
+import { createDefaultPlannerState, type AppSettings } from '../types/planner'
+import { createDefaultSettings } from '../schemas/planner'
+
+const settings = createDefaultSettings() as AppSettings
+const state = createDefaultPlannerState(settings)
+const startDate = new Date(2026, 6, 1)
+
+describe('runSensitivity', () => {
+  const { sensitivity } = runSensitivity(state, settings, { startDate })
+
+  it('ranks every variable by how far it moves net worth at retirement', () => {
+    const swings = sensitivity!.items.map(item => item.netWorthSwing)
+
+    expect(sensitivity!.items).toHaveLength(Object.keys(DEFAULT_SENSITIVITY_DELTAS).length)
+    expect(swings).toEqual([...swings].sort((a, b) => b - a))
+    expect(sensitivity!.bridgeCoverageRanking).toHaveLength(sensitivity!.items.length)
+  })
+
+  it('moves net worth the expected way for each input', () => {
+    const item = (variable: string) => sensitivity!.items.find(i => i.variable === variable)!
+
+    expect(item('superReturns').high.netWorthAtRetire).toBeGreaterThan(sensitivity!.base.netWorthAtRetire)
+    expect(item('superReturns').low.netWorthAtRetire).toBeLessThan(sensitivity!.base.netWorthAtRetire)
+    expect(item('superFees').high.netWorthAtRetire).toBeLessThan(item('superFees').low.netWorthAtRetire)
+    expect(item('inflation').high.netWorthAtRetire).toBeLessThan(item('inflation').low.netWorthAtRetire)
+  })
+
+  it('runs only the variables asked for, with custom deltas', () => {
+    const result = runSensitivity(state, settings, { startDate, variables: ['etfFees'], deltas: { etfFees: 0.005 } })
+    expect(result.sensitivity!.items).toHaveLength(1)
+    expect(result.sensitivity!.items[0]).toMatchObject({ variable: 'etfFees', label: 'ETF fees', delta: 0.005 })
+  })
+})
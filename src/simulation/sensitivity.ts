@@ -0,0 +1,172 @@
+/**
+ * Sensitivity analysis
+ * Nudges one input at a time up and down and ranks how far each moves the retirement outcome
+ */
+
+import type {
+  AppSettings,
+  PlannerState,
+  ScenarioResult,
+  SensitivityItem,
+  SensitivityOutcome,
+  SensitivitySummary,
+  SensitivityVariable
+} from '../types/planner'
+import { PROJECTION_END_AGE, runScenario } from './runScenario'
+
+// Default change each way: rates in absolute terms, salary sacrifice in $/month
+export const DEFAULT_SENSITIVITY_DELTAS: Record<SensitivityVariable, number> = {
+  superReturns: 0.01,
+  etfReturns: 0.01,
+  propertyGrowth: 0.01,
+  inflation: 0.01,
+  wageGrowth: 0.01,
+  superFees: 0.0025,
+  etfFees: 0.0025,
+  salarySacrifice: 250
+}
+
+export const SENSITIVITY_LABELS: Record<SensitivityVariable, string> = {
+  superReturns: 'Super returns',
+  etfReturns: 'ETF returns',
+  propertyGrowth: 'Property growth',
+  inflation: 'Inflation',
+  wageGrowth: 'Wage growth',
+  superFees: 'Super fees',
+  etfFees: 'ETF fees',
+  salarySacrifice: 'Salary sacrifice'
+}
+
+export interface SensitivityOptions {
+  deltas?: Partial<Record<SensitivityVariable, number>>
+  variables?: SensitivityVariable[]      // default: all
+  startDate?: Date
+  endAge?: number
+  onProgress?: (progress: number, completedVariables: number) => void
+}
+
+/**
+ * Apply a change to one input; rates and amounts never go below zero
+ * Market assumptions change in the plan's preset; wage growth, fees and salary sacrifice in the plan
+ */
+const perturb = (
+  input: PlannerState,
+  settings: AppSettings,
+  variable: SensitivityVariable,
+  change: number
+): { input: PlannerState; settings: AppSettings } => {
+  const nudge = (value: number) => Math.max(0, value + change)
+  const preset = input.goal.assumptionPreset in settings.assumptionPresets ? input.goal.assumptionPreset : 'Base'
+
+  switch (variable) {
+    case 'superReturns':
+    case 'etfReturns':
+    case 'propertyGrowth':
+    case 'inflation': {
+      const assumptions = settings.assumptionPresets[preset]
+      return {
+        input,
+        settings: {
+          ...settings,
+          assumptionPresets: {
+            ...settings.assumptionPresets,
+            [preset]: { ...assumptions, [variable]: nudge(assumptions[variable]) }
+          }
+        }
+      }
+    }
+    case 'wageGrowth': {
+      const householdRate = input.incomeExpense.wageGrowthPct ?? settings.assumptionPresets[preset].wageGrowth
+      return {
+        input: {
+          ...input,
+          incomeExpense: { ...input.incomeExpense, wageGrowthPct: nudge(householdRate) },
+          partner: input.partner && {
+            ...input.partner,
+            wageGrowthPct: input.partner.wageGrowthPct === undefined ? undefined : nudge(input.partner.wageGrowthPct)
+          }
+        },
+        settings
+      }
+    }
+    case 'superFees':
+      return {
+        input: {
+          ...input,
+          super: { ...input.super, feePct: nudge(input.super.feePct) },
+          partner: input.partner && {
+            ...input.partner,
+            super: { ...input.partner.super, feePct: nudge(input.partner.super.feePct) }
+          }
+        },
+        settings
+      }
+    case 'etfFees':
+      return { input: { ...input, portfolio: { ...input.portfolio, feePct: nudge(input.portfolio.feePct) } }, settings }
+    case 'salarySacrifice':
+      return {
+        input: { ...input, super: { ...input.super, salarySacrificeMonthly: nudge(input.super.salarySacrificeMonthly || 0) } },
+        settings
+      }
+  }
+}
+
+/**
+ * Run the plan with each input nudged down and up by its delta
+ * @returns The plan's own projection with `sensitivity` filled in
+ */
+export const runSensitivity = (
+  input: PlannerState,
+  settings: AppSettings,
+  options: SensitivityOptions = {}
+): ScenarioResult => {
+  const startTime = performance.now()
+  const deltas = { ...DEFAULT_SENSITIVITY_DELTAS, ...options.deltas }
+  const variables = options.variables || (Object.keys(DEFAULT_SENSITIVITY_DELTAS) as SensitivityVariable[])
+  const scenarioOptions = { startDate: options.startDate, endAge: options.endAge ?? PROJECTION_END_AGE }
+  const yearsToRetire = input.goal.retireAge - input.goal.currentAge
+
+  // Net worth is compared in today's dollars so the inflation bars reflect lost purchasing power
+  const toOutcome = (planInput: PlannerState, planSettings: AppSettings, result: ScenarioResult): SensitivityOutcome => {
+    const assumptions = planSettings.assumptionPresets[planInput.goal.assumptionPreset] || planSettings.assumptionPresets.Base
+    return {
+      netWorthAtRetire: result.kpis.netWorthAtRetire / Math.pow(1 + assumptions.inflation, yearsToRetire),
+      bridgeYearsCovered: result.kpis.bridgeYearsCovered
+    }
+  }
+  const evaluate = (run: { input: PlannerState; settings: AppSettings }) =>
+    toOutcome(run.input, run.settings, runScenario(run.input, run.settings, scenarioOptions))
+
+  const base = runScenario(input, settings, scenarioOptions)
+
+  const items: SensitivityItem[] = variables.map((variable, i) => {
+    const delta = deltas[variable]
+    const low = evaluate(perturb(input, settings, variable, -delta))
+    const high = evaluate(perturb(input, settings, variable, delta))
+    options.onProgress?.(((i + 1) / variables.length) * 100, i + 1)
+
+    return {
+      variable,
+      label: SENSITIVITY_LABELS[variable],
+      delta,
+      low,
+      high,
+      netWorthSwing: Math.abs(high.netWorthAtRetire - low.netWorthAtRetire),
+      bridgeCoverageSwing: Math.abs(high.bridgeYearsCovered - low.bridgeYearsCovered)
+    }
+  })
+
+  const sensitivity: SensitivitySummary = {
+    base: toOutcome(input, settings, base),
+    items: [...items].sort((a, b) => b.netWorthSwing - a.netWorthSwing),
+    bridgeCoverageRanking: [...items]
+      .sort((a, b) => b.bridgeCoverageSwing - a.bridgeCoverageSwing)
+      .map(item => item.variable)
+  }
+
+  return {
+    ...base,
+    sensitivity,
+    simulationDurationMs: performance.now() - startTime
+  }
+}
@@ -0,0 +1,67 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest'
+import type { WorkerRequest, WorkerResponse } from './workerProtocol'
+import { createCancelledError, isCancelledError } from './workerProtocol'
+import { createDefaultPlannerState, type AppSettings } from '../types/planner'
+import { createDefaultSettings } from '../schemas/planner'
+
+const plannerState = createDefaultPlannerState(createDefaultSettings() as AppSettings)
+const messages: WorkerResponse[] = []
+let listener: (e: MessageEvent<WorkerRequest>) => void
+
+const send = (request: WorkerRequest) => listener({ data: request } as MessageEvent<WorkerRequest>)
+const responsesFor = (id: number) => messages.filter(m => 'id' in m && m.id === id)
+const settled = (id: number) => vi.waitFor(() => {
+  expect(responsesFor(id).some(m => m.type !== 'PROGRESS')).toBe(true)
+}, { timeout: 10000 })
+
+beforeAll(async () => {
+  vi.stubGlobal('self', {
+    postMessage: (message: WorkerResponse) => messages.push(message),
+    addEventListener: (_type: string, handler: typeof listener) => { listener = handler }
+  })
+  await import('./simulationWorker')
+})
+
+describe('simulation worker', () => {
+  it('announces itself and answers pings', () => {
+    expect(messages[0]).toEqual({ type: 'WORKER_READY', payload: { status: 'initialized' } })
+    send({ type: 'PING', id: 1 })
+    expect(responsesFor(1)).toEqual([{ type: 'PONG', id: 1, payload: { status: 'ready' } }])
+  })
+
+  it('streams progress and then completes a job', async () => {
+    send({ type: 'SIMULATE_SCENARIO', id: 2, payload: { plannerState } })
+    await settled(2)
+    const responses = responsesFor(2)
+    const last = responses[responses.length - 1]
+
+    expect(responses.slice(0, -1).every(m => m.type === 'PROGRESS')).toBe(true)
+    expect(responses.length).toBeGreaterThan(1)
+    expect(last).toMatchObject({ type: 'COMPLETE', job: 'SIMULATE_SCENARIO' })
+  })
+
+  it('drops a queued job when it is cancelled', async () => {
+    send({ type: 'SIMULATE_SCENARIO', id: 3, payload: { plannerState } })
+    send({ type: 'CANCEL', id: 3 })
+
+    expect(responsesFor(3)).toEqual([{ type: 'CANCELLED', id: 3 }])
+    await new Promise(resolve => setTimeout(resolve, 50))
+    expect(responsesFor(3)).toHaveLength(1)
+  })
+
+  it('reports errors for failed jobs and unknown messages', async () => {
+    send({ type: 'SIMULATE_SCENARIO', id: 5, payload: { plannerState: { ...plannerState, goal: { ...plannerState.goal, retireAge: 20 } } } })
+    await settled(5)
+    expect(responsesFor(5)).toEqual([expect.objectContaining({ type: 'ERROR' })])
+
+    send({ type: 'UNKNOWN', id: 6 } as unknown as WorkerRequest)
+    expect(responsesFor(6)).toEqual([{ type: 'ERROR', id: 6, payload: { error: 'Unknown message type: UNKNOWN' } }])
+  })
+})
+
+describe('cancelled errors', () => {
+  it('are recognised as aborts', () => {
+    expect(isCancelledError(createCancelledError())).toBe(true)
+    expect(isCancelledError(new Error('Simulation failed'))).toBe(false)
+  })
+})
@@ -0,0 +1,225 @@
+/**
+ * Web Worker for Retirement Planning Simulation
+ * Runs the projection engine in a separate thread to keep the UI responsive
+ */
+
+import { createDefaultSettings } from '../schemas/planner'
+import type { AppSettings, PlannerState, ScenarioResult } from '../types/planner'
+import { runScenario } from './runScenario'
+import { runMonteCarlo } from './monteCarlo'
+import { runBacktest } from './backtest'
+import { isGoalMet, solveGoals } from './goalSolver'
+import { runSensitivity } from './sensitivity'
+import type {
+  SimulationResults,
+  WorkerJobRequest,
+  WorkerJobs,
+  WorkerRequest,
+  WorkerResponse
+} from './workerProtocol'
+
+// The DOM lib is loaded project-wide, so type the worker scope by hand
+interface WorkerScope {
+  postMessage: (message: WorkerResponse) => void
+  addEventListener: (type: 'message', listener: (e: MessageEvent<WorkerRequest>) => void) => void
+}
+
+const ctx = self as unknown as WorkerScope
+
+// Fill anything the caller's settings don't provide (e.g. assumption presets)
+const resolveSettings = (settings?: Partial<AppSettings>): AppSettings =>
+  ({ ...createDefaultSettings(), ...settings } as AppSettings)
+
+/**
+ * Yearly view of an engine run in the format consumed by the wizard Results screen
+ */
+const toYearlyResults = (plannerState: PlannerState, settings: AppSettings, result: ScenarioResult): SimulationResults => {
+  const { goal, incomeExpense } = plannerState
+  const { series, kpis } = result
+
+  const simulation = {
+    years: [] as number[],
+    superBalance: [] as number[],
+    etfPortfolio: [] as number[],
+    propertyValue: [] as number[],
+    totalAssets: [] as number[],
+    annualIncome: [] as number[], // Withdrawals plus Age Pension
+    monthlyIncome: [] as number[], // Withdrawals plus Age Pension
+    bufferBalance: [] as number[]
+  }
+
+  // Withdrawals and Age Pension over the twelve months after each point (month m is recorded at m + 1)
+  const sumOverYear = (values: number[] | undefined, index: number) =>
+    (values || []).slice(index + 1, index + 13).reduce((sum, value) => sum + value, 0)
+  const drawdownOverYear = (index: number) =>
+    sumOverYear(series.retirementDrawdown, index) + sumOverYear(series.agePension, index)
+
+  for (let i = 0; i < series.month.length; i += 12) {
+    const annualDrawdown = drawdownOverYear(i)
+    simulation.years.push(Math.round(series.age[i]))
+    simulation.superBalance.push(series.superBalance[i])
+    simulation.etfPortfolio.push(series.outsideSuperBalance[i])
+    simulation.propertyValue.push(series.propertyValue?.[i] || 0)
+    simulation.bufferBalance.push(series.cashBalance[i])
+    simulation.totalAssets.push(series.netWorth[i])
+    simulation.annualIncome.push(annualDrawdown)
+    simulation.monthlyIncome.push(annualDrawdown / 12)
+  }
+
+  const retireIndex = (goal.retireAge - goal.currentAge) * 12
+  const finalAssets = kpis.netWorthAtRetire
+  const finalAnnualIncome = drawdownOverYear(retireIndex)
+  const currentExpenses = (incomeExpense.expensesMonthly || 5000) * 12
+  const isCapitalGoal = !goal.targetIncomeYearly && !!goal.targetCapital
+  const targetIncome = !isCapitalGoal ? (goal.targetIncomeYearly || currentExpenses) : finalAnnualIncome
+  const yearsToRetirement = goal.retireAge - goal.currentAge
+
+  return {
+    success: true,
+    simulation,
+    metrics: {
+      canRetire: isGoalMet(plannerState, settings, result),
+      finalAssets,
+      finalAnnualIncome,
+      finalMonthlyIncome: finalAnnualIncome / 12,
+      incomeReplacement: (finalAnnualIncome / currentExpenses) * 100,
+      targetIncome,
+      shortfall: Math.max(0, targetIncome - finalAnnualIncome),
+      assetBreakdown: {
+        super: kpis.superAtRetire,
+        etf: series.outsideSuperBalance[retireIndex],
+        property: series.propertyValue?.[retireIndex] || 0,
+        buffer: series.cashBalance[retireIndex]
+      },
+      totalContributions: {
+        super: plannerState.super.salarySacrificeMonthly * 12 * yearsToRetirement,
+        etf: plannerState.portfolio.dcaMonthly * 12 * yearsToRetirement,
+        property: 0,
+        buffer: 0
+      },
+      yearsToRetirement,
+      projectedRetirementAge: goal.retireAge
+    },
+    warnings: result.warnings,
+    timestamp: new Date().toISOString()
+  }
+}
+
+type ProgressReporter = (progress: number, completed: number) => void
+
+const runJob = (job: WorkerJobRequest, onProgress: ProgressReporter): WorkerJobs[typeof job.type]['result'] => {
+  switch (job.type) {
+    case 'SIMULATE_SCENARIO': {
+      const { plannerState, settings } = job.payload
+      return runScenario(plannerState, resolveSettings(settings), { onProgress })
+    }
+
+    case 'SIMULATE_RETIREMENT': {
+      const settings = resolveSettings()
+      return toYearlyResults(job.payload, settings, runScenario(job.payload, settings, { onProgress }))
+    }
+
+    case 'SIMULATE_MONTE_CARLO': {
+      const { plannerState, settings, options } = job.payload
+      return runMonteCarlo(plannerState, resolveSettings(settings), { ...options, onProgress })
+    }
+
+    case 'SIMULATE_BACKTEST': {
+      const { plannerState, settings } = job.payload
+      return runBacktest(plannerState, resolveSettings(settings), { onProgress })
+    }
+
+    case 'SOLVE_GOALS': {
+      const { plannerState, settings } = job.payload
+      return solveGoals(plannerState, resolveSettings(settings), { onProgress })
+    }
+
+    case 'SIMULATE_SENSITIVITY': {
+      const { plannerState, settings, options } = job.payload
+      return runSensitivity(plannerState, resolveSettings(settings), { ...options, onProgress })
+    }
+  }
+}
+
+/**
+ * Jobs run one at a time, and the worker yields between them so CANCEL messages that
+ * arrived meanwhile are seen before the next job starts. A job that's already running
+ * can't be interrupted; the hook stops waiting for it instead.
+ */
+const queue: WorkerJobRequest[] = []
+let draining = false
+
+const drainQueue = async () => {
+  if (draining) return
+  draining = true
+
+  while (queue.length > 0) {
+    await new Promise(resolve => setTimeout(resolve, 0))
+    const job = queue.shift()
+    if (!job) continue
+
+    try {
+      const payload = runJob(job, (progress, completed) => {
+        ctx.postMessage({ type: 'PROGRESS', id: job.id, payload: { progress, completed } })
+      })
+      ctx.postMessage({ type: 'COMPLETE', id: job.id, job: job.type, payload } as WorkerResponse)
+    } catch (error) {
+      ctx.postMessage({
+        type: 'ERROR',
+        payload: { error: error instanceof Error ? error.message : String(error) },
+        id: job.id
+      })
+    }
+  }
+
+  draining = false
+}
+
+// Web Worker message handling
+ctx.addEventListener('message', (e: MessageEvent<WorkerRequest>) => {
+  const request = e.data
+
+  switch (request.type) {
+    case 'CANCEL': {
+      const index = queue.findIndex(job => job.id === request.id)
+      if (index >= 0) {
+        queue.splice(index, 1)
+        ctx.postMessage({ type: 'CANCELLED', id: request.id })
+      }
+      break
+    }
+
+    case 'PING':
+      ctx.postMessage({
+        type: 'PONG',
+        payload: { status: 'ready' },
+        id: request.id
+      })
+      break
+
+    case 'SIMULATE_SCENARIO':
+    case 'SIMULATE_RETIREMENT':
+    case 'SIMULATE_MONTE_CARLO':
+    case 'SIMULATE_BACKTEST':
+    case 'SOLVE_GOALS':
+    case 'SIMULATE_SENSITIVITY':
+      queue.push(request)
+      drainQueue()
+      break
+
+    default: {
+      const { type, id } = request as { type: string; id: number }
+      ctx.postMessage({
+        type: 'ERROR',
+        payload: { error: `Unknown message type: ${type}` },
+        id
+      })
+    }
+  }
+})
+
+// Signal that worker is ready
+ctx.postMessage({
+  type: 'WORKER_READY',
+  payload: { status: 'initialized' }
+})
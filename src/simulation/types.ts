@@ -0,0 +1,120 @@
+/**
+ * Simulation Engine Types
+ * Internal state carried month-to-month by the calculation modules
+ */
+
+import type { AppSettings } from '../types/planner'
+import type { TaxParameters } from './data/taxParameters'
+
+// Annual assumptions resolved from the selected preset
+export type Assumptions = AppSettings['assumptionPresets']['Base']
+
+export interface SimulationContext {
+  month: number                          // 0-based month since simulation start
+  age: number                            // user age at this month
+  fyMonth: number                        // 0 = July, 11 = June
+  financialYear: number                  // calendar year the financial year starts in
+  yearIndex: number                      // whole years elapsed since start
+  priceIndex: number                     // cumulative inflation since start (1 = today)
+  settings: AppSettings
+  assumptions: Assumptions
+  tax: TaxParameters                     // financial year this month falls in
+  taxAtStart: TaxParameters              // financial year the projection starts in
+}
+
+// Annual rates by year index that replace the preset (stochastic and historical runs)
+export interface ReturnPath {
+  superReturns: number[]
+  etfReturns: number[]
+  propertyGrowth: number[]
+  inflation?: number[]
+}
+
+export interface SimulationOptions {
+  startDate?: Date                       // anchors the financial-year calendar
+  endAge?: number                        // projection horizon, default 100
+  returnPath?: ReturnPath
+  onProgress?: (progress: number, month: number) => void
+}
+
+// Concessional cap left unused in one financial year
+export interface UnusedCapEntry {
+  startYear: number
+  amount: number
+}
+
+// Non-concessional caps brought forward when a year's contributions went over the annual cap
+export interface BringForwardPeriod {
+  startYear: number                      // financial year that triggered it
+  years: number
+  cap: number                            // total for the period, fixed when triggered
+  used: number
+}
+
+// Super module state
+export interface SuperModuleState {
+  balance: number
+  monthlyContributions: number           // concessional contributions before tax
+  salarySacrificeApplied: number         // after cap enforcement
+  yearToDateContributions: number        // concessional, this FY
+  concessionalCap: number                // this FY's cap, before any carry-forward
+  unusedCap: UnusedCapEntry[]            // carried-forward amounts, oldest first
+  carryForwardEligible: boolean          // balance at the prior 30 June was under the limit
+  capUtilization: number                 // 0-1 of the available cap (including carry-forward) this FY
+  nonConcessionalApplied: number         // after-tax contributions this month, after the cap
+  nonConcessionalYearToDate: number
+  nonConcessionalYears: number           // years of cap that can be used this FY (0 = none accepted)
+  bringForward: BringForwardPeriod | null
+  preservationReached: boolean
+  pensionPhase: boolean                  // converted to an account-based pension
+  minimumDrawdownYearly: number          // set on commencement and each 1 July
+}
+
+// ETF units bought in one month, tracked until they qualify for the CGT discount
+export interface EtfParcel {
+  month: number
+  units: number
+  costBase: number
+}
+
+// ETF portfolio module state
+export interface PortfolioModuleState {
+  balance: number
+  monthlyContribution: number            // 0 when DCA is paused
+  dcaPaused: boolean
+  pauseReason: 'buffers' | 'none'
+  unitPrice: number                      // 1 at the start; units held = balance / unitPrice
+  costBase: number                       // all units held
+  recentParcels: EtfParcel[]             // bought in the last 12 months, oldest first
+}
+
+// Property module state
+export interface PropertyModuleState {
+  value: number
+  loanBalance: number
+  equity: number
+  lvr: number
+  scheduledRepayment: number             // fixed monthly P&I (or IO) repayment
+  remainingTermMonths: number
+  monthlyRent: number                    // gross, before vacancy
+  monthlyInterest: number
+  monthlyPrincipalPayment: number
+  totalPropertyCosts: number             // holding costs excluding loan repayments
+  monthlyNetCashflow: number             // rent - costs - loan repayments
+  sold: boolean
+}
+
+// Cash and buffers module state
+export interface CashModuleState {
+  totalCash: number
+  bufferTarget: number
+  buffersAdequate: boolean
+}
+
+// HECS/HELP module state
+export interface HelpModuleState {
+  balance: number
+  indexation: number                     // added this month (June only)
+  compulsoryRepayment: number            // withheld from pay this month
+  voluntaryRepayment: number
+}
@@ -0,0 +1,33 @@
+/**
+ * Simulation helpers shared by the calculation modules
+ */
+
+// Convert an annual compound rate into the equivalent monthly rate
+export const toMonthlyRate = (annualRate: number): number => {
+  return Math.pow(1 + annualRate, 1 / 12) - 1
+}
+
+// Month within the Australian financial year: 0 = July ... 11 = June
+export const getFinancialYearMonth = (date: Date): number => {
+  return (date.getMonth() + 6) % 12
+}
+
+// Standard amortising repayment for a principal-and-interest loan
+export const calculateLoanRepayment = (principal: number, annualRate: number, termMonths: number): number => {
+  if (principal <= 0 || termMonths <= 0) return 0
+
+  const monthlyRate = annualRate / 12
+  if (monthlyRate === 0) return principal / termMonths
+
+  return principal * monthlyRate / (1 - Math.pow(1 + monthlyRate, -termMonths))
+}
+
+// Calendar year the financial year containing this date starts in (2025 for 2025-26)
+export const getFinancialYear = (date: Date): number => {
+  return date.getMonth() >= 6 ? date.getFullYear() : date.getFullYear() - 1
+}
+
+// Whole calendar months from one date to another
+export const monthsBetween = (from: Date, to: Date): number => {
+  return (to.getFullYear() - from.getFullYear()) * 12 + to.getMonth() - from.getMonth()
+}
@@ -0,0 +1,125 @@
+import { describe, expect, it } from 'vitest'
+import { createWorkerPool } from './workerPool'
+import { isCancelledError, type WorkerJobRequest, type WorkerResponse } from './workerProtocol'
+import type { PlannerState, ScenarioResult } from '../types/planner'
+
+// Stands in for a simulation worker; the test decides when and how each job answers
+class FakeWorker {
+  received: WorkerJobRequest[] = []
+  terminated = false
+  onmessage: ((e: MessageEvent<WorkerResponse>) => void) | null = null
+  onerror: ((e: ErrorEvent) => void) | null = null
+
+  postMessage(request: WorkerJobRequest) {
+    this.received.push(request)
+  }
+
+  terminate() {
+    this.terminated = true
+  }
+
+  reply(message: WorkerResponse) {
+    this.onmessage?.({ data: message } as MessageEvent<WorkerResponse>)
+  }
+
+  complete(payload: unknown) {
+    const { id, type } = this.received[this.received.length - 1]
+    this.reply({ type: 'COMPLETE', id, job: type, payload } as WorkerResponse)
+  }
+}
+
+const createPool = (size: number) => {
+  const workers: FakeWorker[] = []
+  const pool = createWorkerPool({
+    size,
+    createWorker: () => {
+      const worker = new FakeWorker()
+      workers.push(worker)
+      return worker as unknown as Worker
+    }
+  })
+  return { pool, workers }
+}
+
+const request = { plannerState: {} as PlannerState }
+const result = (name: string) => ({ name }) as unknown as ScenarioResult
+
+describe('createWorkerPool', () => {
+  it('starts workers on demand up to the pool size', () => {
+    const { pool, workers } = createPool(2)
+    pool.run('SIMULATE_SCENARIO', request)
+    pool.run('SIMULATE_SCENARIO', request)
+    pool.run('SIMULATE_SCENARIO', request)
+
+    expect(workers).toHaveLength(2)
+    expect(pool.stats()).toMatchObject({ size: 2, busy: 2, queued: 1 })
+  })
+
+  it('runs higher priority jobs first, in order within a priority', async () => {
+    const { pool, workers } = createPool(1)
+    const order: string[] = []
+    const track = (name: string) => () => { order.push(name) }
+
+    const first = pool.run('SIMULATE_SCENARIO', request).then(track('first'))
+    const low = pool.run('SIMULATE_SCENARIO', request, { priority: 'low' }).then(track('low'))
+    const high = pool.run('SIMULATE_SCENARIO', request, { priority: 'high' }).then(track('high'))
+    const normal = pool.run('SIMULATE_SCENARIO', request).then(track('normal'))
+
+    for (let i = 0; i < 4; i++) workers[0].complete(result(String(i)))
+    await Promise.all([first, low, high, normal])
+    expect(order).toEqual(['first', 'high', 'normal', 'low'])
+  })
+
+  it('passes progress through and reuses cached results', async () => {
+    const { pool, workers } = createPool(1)
+    const progress: number[] = []
+    const job = pool.run('SIMULATE_SCENARIO', request, { cacheKey: 'plan', onProgress: value => progress.push(value) })
+
+    workers[0].reply({ type: 'PROGRESS', id: workers[0].received[0].id, payload: { progress: 50, completed: 6 } })
+    workers[0].complete(result('plan'))
+
+    expect(await job).toEqual(result('plan'))
+    expect(progress).toEqual([50])
+    expect(await pool.run('SIMULATE_SCENARIO', request, { cacheKey: 'plan' })).toEqual(result('plan'))
+    expect(workers[0].received).toHaveLength(1)
+  })
+
+  it('drops a queued job when its signal aborts', async () => {
+    const { pool, workers } = createPool(1)
+    const controller = new AbortController()
+    pool.run('SIMULATE_SCENARIO', request)
+    const queued = pool.run('SIMULATE_SCENARIO', request, { signal: controller.signal })
+
+    controller.abort()
+    await expect(queued).rejects.toSatisfy(isCancelledError)
+    workers[0].complete(result('first'))
+    expect(workers[0].received).toHaveLength(1)
+  })
+
+  it('rejects failed jobs and replaces a crashed worker', async () => {
+    const { pool, workers } = createPool(1)
+    const failing = pool.run('SIMULATE_SCENARIO', request)
+    workers[0].reply({ type: 'ERROR', id: workers[0].received[0].id, payload: { error: 'Invalid input' } })
+    await expect(failing).rejects.toThrow('Invalid input')
+
+    const crashing = pool.run('SIMULATE_SCENARIO', request)
+    workers[0].onerror?.({ message: 'out of memory' } as ErrorEvent)
+    await expect(crashing).rejects.toThrow('Worker error: out of memory')
+    expect(workers[0].terminated).toBe(true)
+
+    pool.run('SIMULATE_SCENARIO', request)
+    expect(workers).toHaveLength(2)
+  })
+
+  it('rejects outstanding and new jobs once terminated', async () => {
+    const { pool, workers } = createPool(1)
+    const running = pool.run('SIMULATE_SCENARIO', request)
+    const queued = pool.run('SIMULATE_SCENARIO', request)
+
+    pool.terminate()
+    await expect(running).rejects.toThrow('Worker pool terminated')
+    await expect(queued).rejects.toThrow('Worker pool terminated')
+    await expect(pool.run('SIMULATE_SCENARIO', request)).rejects.toThrow('Worker pool terminated')
+    expect(workers[0].terminated).toBe(true)
+  })
+})
@@ -0,0 +1,223 @@
+/**
+ * Simulation worker pool
+ * Spreads jobs across several simulation workers, highest priority first, and caches results
+ * so unchanged scenarios aren't simulated twice
+ */
+
+import { createCancelledError } from './workerProtocol'
+import type { WorkerJobRequest, WorkerJobs, WorkerJobType, WorkerResponse } from './workerProtocol'
+
+export type JobPriority = 'high' | 'normal' | 'low'
+
+export interface PoolJobOptions {
+  priority?: JobPriority                 // default 'normal'; equal priorities run in order
+  cacheKey?: string                      // results are reused for later jobs with the same key
+  signal?: AbortSignal
+  onProgress?: (progress: number, completed: number) => void
+}
+
+export interface WorkerPoolOptions {
+  size?: number                          // default: from navigator.hardwareConcurrency
+  cacheSize?: number                     // default 50 results
+  createWorker?: () => Worker
+}
+
+export interface WorkerPoolStats {
+  size: number
+  busy: number
+  queued: number
+  cached: number
+}
+
+interface PoolJob {
+  request: WorkerJobRequest
+  priority: number
+  cacheKey?: string
+  settled: boolean
+  resolve: (value: unknown) => void
+  reject: (error: Error) => void
+  onProgress?: PoolJobOptions['onProgress']
+  cleanup: () => void
+}
+
+interface PoolSlot {
+  worker: Worker
+  job: PoolJob | null
+}
+
+const PRIORITY_ORDER: Record<JobPriority, number> = { high: 0, normal: 1, low: 2 }
+
+const MAX_POOL_SIZE = 8
+
+/**
+ * One worker per core, keeping a core for the UI thread
+ */
+export const getDefaultPoolSize = (): number => {
+  const cores = typeof navigator !== 'undefined' && navigator.hardwareConcurrency ? navigator.hardwareConcurrency : 2
+  return Math.min(MAX_POOL_SIZE, Math.max(1, cores - 1))
+}
+
+const createSimulationWorker = () =>
+  new Worker(new URL('./simulationWorker.ts', import.meta.url), { type: 'module' })
+
+/**
+ * Create a pool of simulation workers
+ * Workers start on demand, up to the pool size, and each runs one job at a time so the pool
+ * decides what runs next. Terminate the pool when it's no longer needed.
+ */
+export const createWorkerPool = (options: WorkerPoolOptions = {}) => {
+  const size = Math.max(1, options.size ?? getDefaultPoolSize())
+  const cacheSize = options.cacheSize ?? 50
+  const createWorker = options.createWorker ?? createSimulationWorker
+
+  const slots: PoolSlot[] = []
+  const queue: PoolJob[] = []
+  const cache = new Map<string, unknown>()   // insertion order doubles as least-recently-used order
+  let nextId = 0
+  let terminated = false
+
+  const remember = (key: string, result: unknown) => {
+    cache.delete(key)
+    cache.set(key, result)
+    while (cache.size > cacheSize) {
+      cache.delete(cache.keys().next().value as string)
+    }
+  }
+
+  const finish = (job: PoolJob, outcome: { result?: unknown; error?: Error }) => {
+    if (job.settled) return
+    job.settled = true
+    job.cleanup()
+
+    if (outcome.error) {
+      job.reject(outcome.error)
+    } else {
+      if (job.cacheKey) remember(job.cacheKey, outcome.result)
+      job.resolve(outcome.result)
+    }
+  }
+
+  const removeSlot = (slot: PoolSlot) => {
+    slot.worker.terminate()
+    slots.splice(slots.indexOf(slot), 1)
+  }
+
+  const addSlot = (): PoolSlot => {
+    const slot: PoolSlot = { worker: createWorker(), job: null }
+
+    slot.worker.onmessage = (e: MessageEvent<WorkerResponse>) => {
+      const message = e.data
+      const job = slot.job
+      if (!job || !('id' in message) || message.id !== job.request.id) return
+
+      switch (message.type) {
+        case 'PROGRESS':
+          if (!job.settled) job.onProgress?.(message.payload.progress, message.payload.completed)
+          return
+        case 'COMPLETE':
+          finish(job, { result: message.payload })
+          break
+        case 'ERROR':
+          finish(job, { error: new Error(message.payload.error) })
+          break
+        case 'CANCELLED':
+          finish(job, { error: createCancelledError() })
+          break
+        default:
+          return
+      }
+
+      // A cancelled job still holds its worker until the worker reports back
+      slot.job = null
+      dispatch()
+    }
+
+    // A crashed worker is replaced on the next dispatch
+    slot.worker.onerror = (error) => {
+      if (slot.job) finish(slot.job, { error: new Error(`Worker error: ${error.message}`) })
+      removeSlot(slot)
+      dispatch()
+    }
+
+    slots.push(slot)
+    return slot
+  }
+
+  const dispatch = () => {
+    while (!terminated && queue.length > 0) {
+      const slot = slots.find(s => !s.job) || (slots.length < size ? addSlot() : undefined)
+      if (!slot) return
+
+      const job = queue.shift()!
+      slot.job = job
+      slot.worker.postMessage(job.request)
+    }
+  }
+
+  /**
+   * Queue a job; resolves with its result, straight from the cache when the key has one
+   */
+  const run = <K extends WorkerJobType>(
+    type: K,
+    payload: WorkerJobs[K]['payload'],
+    { priority = 'normal', cacheKey, signal, onProgress }: PoolJobOptions = {}
+  ): Promise<WorkerJobs[K]['result']> => {
+    if (terminated) return Promise.reject(new Error('Worker pool terminated'))
+    if (signal?.aborted) return Promise.reject(createCancelledError())
+
+    if (cacheKey && cache.has(cacheKey)) {
+      const result = cache.get(cacheKey)
+      remember(cacheKey, result)
+      return Promise.resolve(result as WorkerJobs[K]['result'])
+    }
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        const index = queue.indexOf(job)
+        if (index >= 0) queue.splice(index, 1)
+        finish(job, { error: createCancelledError() })
+      }
+
+      const job: PoolJob = {
+        request: { type, payload, id: ++nextId } as WorkerJobRequest,
+        priority: PRIORITY_ORDER[priority],
+        cacheKey,
+        settled: false,
+        resolve: value => resolve(value as WorkerJobs[K]['result']),
+        reject,
+        onProgress,
+        cleanup: () => signal?.removeEventListener('abort', onAbort)
+      }
+      signal?.addEventListener('abort', onAbort)
+
+      // Behind everything of the same or higher priority
+      const index = queue.findIndex(queued => queued.priority > job.priority)
+      queue.splice(index < 0 ? queue.length : index, 0, job)
+      dispatch()
+    })
+  }
+
+  const stats = (): WorkerPoolStats => ({
+    size,
+    busy: slots.filter(s => s.job).length,
+    queued: queue.length,
+    cached: cache.size
+  })
+
+  const clearCache = () => cache.clear()
+
+  // Reject everything outstanding and stop the workers
+  const terminate = () => {
+    terminated = true
+    queue.splice(0).forEach(job => finish(job, { error: new Error('Worker pool terminated') }))
+    slots.slice().forEach(slot => {
+      if (slot.job) finish(slot.job, { error: new Error('Worker pool terminated') })
+      removeSlot(slot)
+    })
+    cache.clear()
+  }
+
+  return { run, stats, clearCache, terminate, size }
+}
+
+export type WorkerPool = ReturnType<typeof createWorkerPool>
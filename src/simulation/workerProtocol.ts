@@ -0,0 +1,111 @@
+/**
+ * Simulation worker protocol
+ * Message types shared by simulationWorker.ts and the useSimulationWorker hook
+ *
+ * Every job request carries an id; the worker answers with any number of PROGRESS messages
+ * and then exactly one of COMPLETE, CANCELLED or ERROR for that id.
+ */
+
+import type { AppSettings, PlannerState, ScenarioResult } from '../types/planner'
+import type { MonteCarloOptions } from './monteCarlo'
+import type { SensitivityOptions } from './sensitivity'
+
+// Yearly view of a projection in the format consumed by the wizard Results screen
+export interface SimulationResults {
+  success: boolean
+  simulation?: {
+    years: number[]
+    superBalance: number[]
+    etfPortfolio: number[]
+    propertyValue: number[]
+    totalAssets: number[]
+    annualIncome: number[]
+    monthlyIncome: number[]
+    bufferBalance: number[]
+  }
+  metrics?: {
+    canRetire: boolean
+    finalAssets: number
+    finalAnnualIncome: number
+    finalMonthlyIncome: number
+    incomeReplacement: number
+    targetIncome: number
+    shortfall: number
+    assetBreakdown: {
+      super: number
+      etf: number
+      property: number
+      buffer: number
+    }
+    totalContributions: {
+      super: number
+      etf: number
+      property: number
+      buffer: number
+    }
+    yearsToRetirement: number
+    projectedRetirementAge: number
+  }
+  warnings?: string[]
+  error?: string
+  timestamp: string
+}
+
+// Settings are partial; the worker fills the rest from the schema defaults
+export interface ScenarioRequest {
+  plannerState: PlannerState
+  settings?: Partial<AppSettings>
+}
+
+export interface MonteCarloRequest extends ScenarioRequest {
+  options?: Pick<MonteCarloOptions, 'paths' | 'seed' | 'volatility' | 'correlation'>
+}
+
+export interface SensitivityRequest extends ScenarioRequest {
+  options?: Pick<SensitivityOptions, 'deltas' | 'variables'>
+}
+
+// Payload and result for each kind of job
+export interface WorkerJobs {
+  SIMULATE_SCENARIO: { payload: ScenarioRequest; result: ScenarioResult }
+  SIMULATE_RETIREMENT: { payload: PlannerState; result: SimulationResults }
+  SIMULATE_MONTE_CARLO: { payload: MonteCarloRequest; result: ScenarioResult }
+  SIMULATE_BACKTEST: { payload: ScenarioRequest; result: ScenarioResult }
+  SOLVE_GOALS: { payload: ScenarioRequest; result: ScenarioResult }
+  SIMULATE_SENSITIVITY: { payload: SensitivityRequest; result: ScenarioResult }
+}
+
+export type WorkerJobType = keyof WorkerJobs
+
+export type WorkerJobRequest = {
+  [K in WorkerJobType]: { type: K; id: number; payload: WorkerJobs[K]['payload'] }
+}[WorkerJobType]
+
+export type WorkerRequest =
+  | WorkerJobRequest
+  | { type: 'CANCEL'; id: number }       // id of the job to drop
+  | { type: 'PING'; id: number }
+
+export interface ProgressPayload {
+  progress: number                       // 0-100
+  completed: number                      // months, paths, windows or runs, depending on the job
+}
+
+export type WorkerResponse =
+  | { type: 'WORKER_READY'; payload: { status: 'initialized' } }
+  | { type: 'PROGRESS'; id: number; payload: ProgressPayload }
+  | { [K in WorkerJobType]: { type: 'COMPLETE'; id: number; job: K; payload: WorkerJobs[K]['result'] } }[WorkerJobType]
+  | { type: 'CANCELLED'; id: number }
+  | { type: 'ERROR'; id: number; payload: { error: string } }
+  | { type: 'PONG'; id: number; payload: { status: 'ready' } }
+
+// Cancelled jobs reject with an AbortError, like fetch does
+export const createCancelledError = (): Error => {
+  const error = new Error('Simulation cancelled')
+  error.name = 'AbortError'
+  return error
+}
+
+// Callers usually ignore cancellations rather than show them
+export const isCancelledError = (error: unknown): boolean =>
+  error instanceof Error && error.name === 'AbortError'
@@ -3,6 +3,8 @@
  * Beginner-friendly retirement planning with 6-approach framework
  */
 
+import { getTaxParameters } from '../simulation/data/taxParameters'
+
 // Core enums
 export type AssumptionPreset = 'Conservative' | 'Base' | 'Optimistic'
 export type RiskProfile = 'conservative' | 'balanced' | 'growth'
@@ -10,12 +12,18 @@ export type SuperOption = 'Balanced' | 'Growth' | 'HighGrowth'
 export type LoanType = 'IO' | 'PI'
 export type AllocationPreset = 'OneETF' | 'TwoETF'
 export type MaritalStatus = 'single' | 'couple' | 'family'
+export type PropertyUsage = 'owner-occupied' | 'investment'
+export type PropertyIntent = 'existing' | 'looking-to-buy'
+export type AustralianState = 'NSW' | 'VIC' | 'QLD' | 'WA' | 'SA' | 'TAS' | 'ACT' | 'NT'
+
+// Bump when PlannerState changes shape; see utils/plannerMigration.ts
+export const PLANNER_SCHEMA_VERSION = 2
 
 // Settings type (editable defaults)
 export type AppSettings = {
   // Editable in Settings UI
-  concessionalCapYearly: number              // default 27500
-  concessionalCapLabel: string               // "Concessional cap (FY 2025–26)"
+  concessionalCapYearly: number              // default: current FY cap from the tax registry
+  concessionalCapLabel: string               // "Concessional cap (FY 2025-26)"
   defaultSuperOption: SuperOption            // 'HighGrowth'
   twoETFDefaultWeights: { aus: number; global: number } // {0.4, 0.6}
   
@@ -70,16 +78,30 @@ export type GoalState = {
   targetCapital?: number
   riskProfile: RiskProfile                  // default 'balanced'
   assumptionPreset: AssumptionPreset        // default 'Base'
-  state?: string                           // AU state/territory code
+  state?: AustralianState                  // where the household lives
   maritalStatus?: MaritalStatus
   dependentsCount?: number
 }
 
+// HECS/HELP loan; indexed each 1 June and repaid through the tax system
+export type HelpDebtState = {
+  balance: number
+  voluntaryRepaymentMonthly?: number
+}
+
+// Household private health insurance; hospital cover avoids the Medicare levy surcharge
+export type PrivateHealthState = {
+  hasHospitalCover: boolean
+  premiumYearly: number                    // after any rebate; paid while working
+}
+
 export type IncomeExpenseState = {
   salary: number                           // annual gross
   bonus?: number                           // annual
   wageGrowthPct: number                    // default 0.03
   expensesMonthly: number
+  helpDebt?: HelpDebtState
+  privateHealth?: PrivateHealthState
 }
 
 export type SuperState = {
@@ -90,10 +112,29 @@ export type SuperState = {
   feePct: number                          // e.g., 0.007
   concessionalCapYearly: number           // from settings
   contributionsTaxPct: number             // 0.15 (fixed MVP)
+  concessionalHistory?: ConcessionalYear[] // past years, for carry-forward of unused cap
+  nonConcessionalMonthly?: number          // recurring after-tax contributions
+  nonConcessionalLumpSums?: NonConcessionalLumpSum[]
+  spouseContributionYearly?: number        // after-tax, into the partner's super
+}
+
+// One-off after-tax contribution, made when the member reaches `age`
+export type NonConcessionalLumpSum = {
+  age: number
+  amount: number
+}
+
+// Concessional contributions made in a past financial year
+export type ConcessionalYear = {
+  financialYear: string                    // e.g. '2023-24'
+  contributions: number
 }
 
 export type PropertyState = {
-  enabled: boolean                        // toggles visibility
+  id: string
+  name: string
+  usage: PropertyUsage
+  intent: PropertyIntent                 // 'looking-to-buy' is not simulated as held
   value: number
   loanBalance: number
   ratePct: number                        // nominal annual
@@ -107,6 +148,31 @@ export type PropertyState = {
   maintenancePctOfRent: number           // default 0.05
   vacancyPct: number                     // default 0.02
   extraRepaymentMonthly: number
+  purchasePrice?: number
+  purchaseDate?: string                  // ISO date
+  ownershipShare?: number                // 0-1 owned by the primary member; default 1 single, 0.5 couple
+  state?: AustralianState                // where it is; defaults to the household's state, then NSW
+  firstHomeBuyer?: boolean               // 'looking-to-buy' homes: first home buyer duty concessions
+  newHome?: boolean                      // 'looking-to-buy' homes: newly built, for new-home-only concessions
+  foreignPurchaser?: boolean             // 'looking-to-buy': foreign purchaser duty surcharge applies
+  landValuePct?: number                  // 0-1 share of the value that's land, for land tax; default 0.5
+  saleAge?: number                       // primary member's age when it's sold; held for life if unset
+  // Owner-occupied homes sold at saleAge
+  downsizeToValue?: number               // replacement home in today's prices; none bought if unset
+  downsizerContribution?: number         // into each eligible member's super, from the proceeds
+  fhss?: FhssPlanState                   // 'looking-to-buy' homes: saving the deposit in super
+}
+
+// First Home Super Saver contributions towards a deposit
+export type FhssPlanState = {
+  contributionYearly: number
+  contributionType: 'concessional' | 'non-concessional' // salary sacrifice, or after-tax
+}
+
+// Income side of an ETF's return; the rest of the return is capital growth
+export type EtfDistribution = {
+  yieldPct: number                       // distributions a year, as a share of the balance
+  frankingPct: number                    // share of distributions carrying franking credits
 }
 
 export type PortfolioState = {
@@ -115,6 +181,8 @@ export type PortfolioState = {
   allocationPreset: AllocationPreset      // 'OneETF' | 'TwoETF'
   weights?: { aus: number; global: number } // set when TwoETF
   feePct: number                         // e.g., 0.0015
+  costBase?: number                      // of the starting balance, for CGT; default: the balance
+  distributions?: { aus: EtfDistribution; global: EtfDistribution } // default: DEFAULT_ETF_DISTRIBUTIONS
 }
 
 export type BuffersState = {
@@ -126,15 +194,30 @@ export type PreservationState = {
   preservationAge: number                // 60 (fixed MVP)
 }
 
-// Complete planner state
+// Second member of a couple household; expenses, ETFs and cash are shared
+export type PartnerState = {
+  name?: string
+  currentAge: number
+  retireAge: number                      // at or below currentAge means already retired
+  preservationAge?: number               // defaults to settings
+  salary: number                         // annual gross
+  bonus?: number                         // annual
+  wageGrowthPct?: number                 // defaults to the household rate
+  helpDebt?: HelpDebtState
+  super: SuperState
+}
+
+// Complete planner state (canonical model)
 export type PlannerState = {
+  schemaVersion: number                  // PLANNER_SCHEMA_VERSION
   goal: GoalState
   incomeExpense: IncomeExpenseState
   super: SuperState
-  property: PropertyState
+  properties: PropertyState[]
   portfolio: PortfolioState
   buffers: BuffersState
   preservation: PreservationState
+  partner?: PartnerState                 // set for couple households
   
   // Metadata
   scenarioName?: string
@@ -145,6 +228,7 @@ export type PlannerState = {
 // Simulation outputs
 export type ScenarioKPIs = {
   netWorthAtRetire: number
+  probabilityOfSuccess?: number          // 0-1, Monte Carlo runs only
   superAtRetire: number
   outsideSuperAtRetire: number
   bridgeYears: number
@@ -152,9 +236,28 @@ export type ScenarioKPIs = {
   propertyEquityAtRetire?: number
   lvrAtRetire?: number                   // 0-1
   monthlySavingsRequired?: number        // to close gap
-  capUsagePct?: number                  // 0-1 of concessional cap
+  capUsagePct?: number                  // 0-1 of concessional cap, starting financial year
   buffersPausedDCA?: boolean
   totalTaxSaved?: number
+  moneyRunsOutAge?: number              // first age spending can't be funded; unset if it lasts
+  agePensionAtPensionAge?: number       // yearly entitlement in the first eligible year, today's dollars
+  capitalGainsTaxTotal?: number         // on all property and ETF sales over the projection
+  downsizerContributionsTotal?: number  // home sale proceeds paid into super
+  landTaxTotal?: number                 // on investment properties over the projection
+  helpPaidOffAge?: number               // primary member; unset without a debt or if it's never repaid
+  governmentContributionsTotal?: number // co-contributions and LISTO paid into super over the projection
+  members?: MemberKPIs[]                // couple households: primary first, then partner
+}
+
+// Per-person results within a household
+export type MemberKPIs = {
+  name: string
+  retireAge: number
+  superAtRetire: number                  // at this member's own retirement
+  takeHomePayYearly: number              // first year, after tax and salary sacrifice
+  capUsagePct: number                    // 0-1 of this member's concessional cap, starting financial year
+  propertyEquityAtRetire?: number        // ownership share, at the plan retirement age
+  helpPaidOffAge?: number
 }
 
 export type ScenarioSeries = {
@@ -169,6 +272,113 @@ export type ScenarioSeries = {
   lvr?: number[]
   propertyValue?: number[]
   dcaPaused?: boolean[]                 // Track when DCA is paused
+  retirementDrawdown?: number[]         // pension + outside-super withdrawals this month
+  shortfall?: number[]                  // retirement spending left unfunded this month
+  agePension?: number[]                 // Age Pension received this month
+}
+
+export type PercentileSeries = {
+  p10: number[]
+  p50: number[]
+  p90: number[]
+}
+
+// Stochastic run summary; the deterministic series stays in ScenarioResult.series
+export type MonteCarloSummary = {
+  paths: number
+  seed: number
+  month: number[]
+  age: number[]
+  netWorth: PercentileSeries
+  netWorthAtRetire: { p10: number; p50: number; p90: number }
+  probabilityOfSuccess: number          // 0-1 share of paths where money lasts to successAge
+  successAge: number
+}
+
+// One replay of the plan through a historical run of market years
+export type BacktestWindow = {
+  startYear: number                     // market year the plan's first year replays
+  retireYear: number                    // market year retirement begins in
+  wrapped: boolean                      // retirement began in data reused from the start of the set
+  netWorthAtRetire: number              // today's dollars, deflated by the window's CPI
+  liquidAtRetire: number                // super + outside super, today's dollars
+  moneyRunsOutAge?: number
+  success: boolean                      // money lasted to successAge
+}
+
+export type BacktestSummary = {
+  dataRange: { from: number; to: number }
+  windows: BacktestWindow[]
+  successRate: number                   // 0-1
+  successAge: number
+  worstWindow: BacktestWindow
+}
+
+// Goal solver output; each answer holds the rest of the plan fixed
+export type GoalSolution = {
+  goalType: 'income' | 'capital'
+  goalMet: boolean                      // with the plan as entered
+  extraMonthlyInvestment?: number       // added to ETF investing; unset if no affordable amount gets there
+  earliestRetireAge?: number            // unset if the goal isn't met by the latest age searched
+  maxSustainableSpendYearly: number     // today's dollars, lasting to the end age
+  evaluations: number                   // projections run by the solver
+}
+
+// Inputs the sensitivity runner nudges up and down
+export type SensitivityVariable =
+  | 'superReturns'
+  | 'etfReturns'
+  | 'propertyGrowth'
+  | 'inflation'
+  | 'wageGrowth'
+  | 'superFees'
+  | 'etfFees'
+  | 'salarySacrifice'
+
+export type SensitivityOutcome = {
+  netWorthAtRetire: number              // today's dollars
+  bridgeYearsCovered: number
+}
+
+export type SensitivityItem = {
+  variable: SensitivityVariable
+  label: string
+  delta: number                         // absolute change each way (rate, or $/month for salary sacrifice)
+  low: SensitivityOutcome               // input reduced by delta
+  high: SensitivityOutcome              // input increased by delta
+  netWorthSwing: number                 // |high - low|
+  bridgeCoverageSwing: number
+}
+
+export type SensitivitySummary = {
+  base: SensitivityOutcome
+  items: SensitivityItem[]              // largest net worth swing first
+  bridgeCoverageRanking: SensitivityVariable[] // largest bridge coverage swing first
+}
+
+// Sales in one financial year and the capital gains tax assessed on them
+export type CapitalGainsYear = {
+  financialYear: string
+  age: number                            // primary member's age at 30 June
+  assetsSold: string[]                   // property names, and 'ETFs' when units were sold
+  proceeds: number                       // sale prices less selling costs
+  netCapitalGain: number                 // after losses and the 50% discount
+  tax: number
+  netProceeds: number                    // after loans repaid and tax
+}
+
+// Sale of a home the household lives in, and what it does to the Age Pension
+export type HomeSaleEvent = {
+  propertyName: string
+  age: number                            // primary member's age at the sale
+  proceeds: number                       // sale price less selling costs
+  loanRepaid: number
+  replacementCost: number                // the next home and its stamp duty; 0 when none is bought
+  downsizerContributions: number         // household total
+  cashReleased: number                   // what's left for spending and investing
+  // Yearly, today's dollars, as if everyone were of pension age on the day of the sale
+  agePensionBefore: number
+  agePensionAfter: number
 }
 
 export type ScenarioResult = {
@@ -176,6 +386,12 @@ export type ScenarioResult = {
   series: ScenarioSeries
   simulationDurationMs: number
   warnings?: string[]
+  capitalGains?: CapitalGainsYear[]
+  homeSales?: HomeSaleEvent[]
+  monteCarlo?: MonteCarloSummary
+  backtest?: BacktestSummary
+  goalSolution?: GoalSolution
+  sensitivity?: SensitivitySummary
 }
 
 // Component prop types
@@ -261,6 +477,7 @@ export type BufferBannerProps = {
 
 // Default values for creating new planner state
 export const createDefaultPlannerState = (settings: AppSettings): PlannerState => ({
+  schemaVersion: PLANNER_SCHEMA_VERSION,
   goal: {
     currentAge: 30,
     retireAge: 65,
@@ -277,28 +494,14 @@ export const createDefaultPlannerState = (settings: AppSettings): PlannerState =
   },
   super: {
     balance: 150000,
-    SGRate: 0.12,
+    SGRate: getTaxParameters().superannuation.guaranteeRate,
     salarySacrificeMonthly: 0,
     option: settings.defaultSuperOption,
     feePct: 0.007,
     concessionalCapYearly: settings.concessionalCapYearly,
     contributionsTaxPct: 0.15
   },
-  property: {
-    enabled: false,
-    value: 0,
-    loanBalance: 0,
-    ratePct: 0.065,
-    ioOrPi: 'PI',
-    termMonths: 300,
-    offsetBalance: 0,
-    mgmtFeePct: settings.defaultPropertyCosts.mgmtFeePct,
-    insuranceYearly: settings.defaultPropertyCosts.insuranceYearly,
-    councilRatesYearly: settings.defaultPropertyCosts.councilRatesYearly,
-    maintenancePctOfRent: settings.defaultPropertyCosts.maintenancePctOfRent,
-    vacancyPct: settings.defaultPropertyCosts.vacancyPct,
-    extraRepaymentMonthly: 0
-  },
+  properties: [],
   portfolio: {
     startingBalance: 10000,
     dcaMonthly: 1000,
@@ -314,4 +517,28 @@ export const createDefaultPlannerState = (settings: AppSettings): PlannerState =
     preservationAge: settings.preservationAge
   },
   scenarioName: 'My Retirement Plan'
+})
+
+// Defaults for a property added to the canonical model
+export const createDefaultPropertyState = (
+  settings: AppSettings,
+  overrides: Partial<PropertyState> = {}
+): PropertyState => ({
+  id: 'property_1',
+  name: 'Property 1',
+  usage: 'investment',
+  intent: 'existing',
+  value: 0,
+  loanBalance: 0,
+  ratePct: 0.065,
+  ioOrPi: 'PI',
+  termMonths: 300,
+  offsetBalance: 0,
+  mgmtFeePct: settings.defaultPropertyCosts.mgmtFeePct,
+  insuranceYearly: settings.defaultPropertyCosts.insuranceYearly,
+  councilRatesYearly: settings.defaultPropertyCosts.councilRatesYearly,
+  maintenancePctOfRent: settings.defaultPropertyCosts.maintenancePctOfRent,
+  vacancyPct: settings.defaultPropertyCosts.vacancyPct,
+  extraRepaymentMonthly: 0,
+  ...overrides
 })
\ No newline at end of file
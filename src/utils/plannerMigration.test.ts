@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest'
+import { detectPlannerShape, migratePlannerState } from './plannerMigration'
+import { PLANNER_SCHEMA_VERSION } from '../types/planner'
+
+const simpleState = {
+  goal: { currentAge: 35, retirementAge: 60, targetIncome: 70000, marketOutlook: 1 },
+  incomeExpense: { salary: 120000, monthlyExpenses: 5000, helpDebt: 25000 },
+  super: { currentBalance: 90000, salaryPackaging: 300 },
+  portfolio: { currentBalance: 40000, monthlyInvestment: 1000 },
+  property: {
+    properties: [{
+      propertyType: 'investment',
+      currentValue: 700000,
+      outstandingMortgage: 500000,
+      interestRate: 6,
+      weeklyRent: 600,
+      maintenance: 3120,
+      vacancy: 2,
+      landValuePercent: 40
+    }]
+  },
+  buffers: { emergencyFund: 30000 }
+}
+
+describe('detectPlannerShape', () => {
+  it('recognises each legacy shape', () => {
+    expect(detectPlannerShape(simpleState)).toBe('simple')
+    expect(detectPlannerShape({ goalSetter: {}, income: {} })).toBe('worker')
+    expect(detectPlannerShape({ goal: { retireAge: 60 }, property: { enabled: false } })).toBe('typed-v1')
+    expect(detectPlannerShape({ schemaVersion: 1, properties: [] })).toBe('canonical')
+    expect(detectPlannerShape('planner')).toBe('unknown')
+  })
+})
+
+describe('migratePlannerState', () => {
+  it('converts the wizard shape with its units', () => {
+    const state = migratePlannerState(simpleState)
+    const [property] = state.properties
+
+    expect(state.schemaVersion).toBe(PLANNER_SCHEMA_VERSION)
+    expect(state.goal).toMatchObject({ currentAge: 35, retireAge: 60, targetIncomeYearly: 70000, assumptionPreset: 'Optimistic' })
+    expect(state.incomeExpense).toMatchObject({ salary: 120000, expensesMonthly: 5000, helpDebt: { balance: 25000 } })
+    expect(state.super).toMatchObject({ balance: 90000, salarySacrificeMonthly: 300 })
+    expect(state.portfolio).toMatchObject({ startingBalance: 40000, dcaMonthly: 1000 })
+    expect(state.buffers.emergencyMonths).toBe(6)
+    expect(property).toMatchObject({ usage: 'investment', value: 700000, loanBalance: 500000, ratePct: 0.06, rentPerWeek: 600, landValuePct: 0.4 })
+    expect(property.maintenancePctOfRent).toBeCloseTo(0.1)
+    expect(property.vacancyPct).toBeCloseTo(2 / 52)
+  })
+
+  it('carries after-tax super contributions through from the wizard', () => {
+    const lumpSums = [{ age: 50, amount: 100000 }]
+    const state = migratePlannerState({ ...simpleState, super: { ...simpleState.super, nonConcessionalMonthly: 500, nonConcessionalLumpSums: lumpSums } })
+    expect(state.super).toMatchObject({ nonConcessionalMonthly: 500, nonConcessionalLumpSums: lumpSums })
+  })
+
+  it('keeps a goal of capital rather than income', () => {
+    const state = migratePlannerState({ goal: { goalType: 'capital', targetIncome: 1500000 } })
+    expect(state.goal.targetCapital).toBe(1500000)
+    expect(state.goal.targetIncomeYearly).toBeUndefined()
+  })
+
+  it('falls back to the default state when the goal names an unknown one', () => {
+    const goal = simpleState.goal
+    expect(migratePlannerState({ ...simpleState, goal: { ...goal, state: 'VIC' } }).goal.state).toBe('VIC')
+    expect(migratePlannerState({ ...simpleState, goal: { ...goal, state: 'Tasmania' } }).goal.state).toBe(migratePlannerState(simpleState).goal.state)
+  })
+
+  it('carries contributions to a partner\'s super through from the wizard', () => {
+    const state = migratePlannerState({ ...simpleState, super: { ...simpleState.super, spouseContributionYearly: 3000 } })
+    expect(state.super.spouseContributionYearly).toBe(3000)
+  })
+
+  it('makes the household a couple when a partner is given', () => {
+    const state = migratePlannerState({ ...simpleState, partner: { currentAge: 33, salary: 80000, super: { currentBalance: 60000 } } })
+    expect(state.goal.maritalStatus).toBe('couple')
+    expect(state.partner).toMatchObject({ currentAge: 33, salary: 80000, super: { balance: 60000 } })
+  })
+
+  it('converts the old worker shape', () => {
+    const state = migratePlannerState({
+      goalSetter: { currentAge: 40, retirementAge: 65 },
+      income: { salary: 100000, monthlyExpenses: 4000 },
+      property: { currentValue: 0 }
+    })
+    expect(state.goal).toMatchObject({ currentAge: 40, retireAge: 65 })
+    expect(state.incomeExpense.salary).toBe(100000)
+    expect(state.properties).toEqual([])
+  })
+
+  it('turns the single typed-v1 property into a list', () => {
+    const state = migratePlannerState({ goal: { retireAge: 62 }, property: { enabled: true, value: 600000, rentPerWeek: 550 } })
+    expect(state.goal.retireAge).toBe(62)
+    expect(state.properties).toHaveLength(1)
+    expect(state.properties[0]).toMatchObject({ usage: 'investment', value: 600000 })
+  })
+
+  it('leaves a canonical state unchanged when migrated again', () => {
+    const state = migratePlannerState(simpleState)
+    expect(migratePlannerState(JSON.parse(JSON.stringify(state)))).toEqual(state)
+  })
+
+  it('rejects anything that is not a planner state', () => {
+    expect(() => migratePlannerState({ foo: 1 })).toThrow('Unrecognised planner state format')
+  })
+})
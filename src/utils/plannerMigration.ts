@@ -0,0 +1,364 @@
+/**
+ * Planner State Migration
+ * Converts every legacy planner shape into the canonical, versioned PlannerState
+ *
+ * Known shapes:
+ * - canonical: PlannerState with schemaVersion (types/planner.ts)
+ * - typed-v1: PlannerState before versioning, single `property` object with `enabled`
+ * - worker: `goalSetter` / `income` / `currentValue` shape read by the old simulation worker
+ * - simple: `goal.retirementAge` / `super.currentBalance` / `property.properties[]` shape
+ *   written by the wizard steps (GoalSetterSimple, CurrentFinancialsSimple, PropertyStep)
+ */
+
+import {
+  PLANNER_SCHEMA_VERSION,
+  createDefaultPlannerState,
+  createDefaultPropertyState
+} from '../types/planner'
+import type {
+  AppSettings,
+  AssumptionPreset,
+  GoalState,
+  HelpDebtState,
+  PartnerState,
+  PlannerState,
+  PropertyState
+} from '../types/planner'
+import { AustralianStateEnum, createDefaultSettings } from '../schemas/planner'
+
+export type PlannerShape = 'canonical' | 'typed-v1' | 'worker' | 'simple' | 'unknown'
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  value !== null && typeof value === 'object' && !Array.isArray(value)
+
+// Use the first finite number, so a legitimate 0 is kept and NaN/strings are skipped
+const pickNumber = (...values: unknown[]): number | undefined => {
+  for (const value of values) {
+    if (typeof value === 'number' && Number.isFinite(value)) return value
+  }
+  return undefined
+}
+
+/**
+ * Work out which planner shape a raw object is in
+ */
+export const detectPlannerShape = (raw: unknown): PlannerShape => {
+  if (!isObject(raw)) return 'unknown'
+
+  if (typeof raw.schemaVersion === 'number' && Array.isArray(raw.properties)) return 'canonical'
+  if (isObject(raw.goalSetter) || isObject(raw.income)) return 'worker'
+  if (
+    isObject(raw.goal) &&
+    ('retirementAge' in raw.goal || 'targetIncome' in raw.goal || 'goalType' in raw.goal)
+  ) return 'simple'
+  if (isObject(raw.super) && ('currentBalance' in raw.super || 'salaryPackaging' in raw.super)) return 'simple'
+  if (isObject(raw.property) && ('properties' in raw.property || 'hasProperty' in raw.property)) return 'simple'
+  if (isObject(raw.goal) && 'retireAge' in raw.goal) return 'typed-v1'
+
+  return 'unknown'
+}
+
+// Market outlook slider (percentage points) maps onto the assumption presets
+const presetFromMarketOutlook = (marketOutlook: unknown): AssumptionPreset => {
+  const outlook = pickNumber(marketOutlook) ?? 0
+  if (outlook <= -1) return 'Conservative'
+  if (outlook >= 1) return 'Optimistic'
+  return 'Base'
+}
+
+/**
+ * Convert a PropertyStep property (percent units, vacancy in weeks, costs in $/yr)
+ * into a canonical PropertyState
+ */
+export const convertLegacyProperty = (
+  raw: Record<string, any>,
+  settings: AppSettings,
+  index = 0
+): PropertyState => {
+  const usage = raw.propertyType === 'owner-occupied' ? 'owner-occupied' : 'investment'
+  const weeklyRent = usage === 'investment' ? pickNumber(raw.weeklyRent, raw.rentPerWeek) : undefined
+  const annualRent = (weeklyRent || 0) * 52
+  const maintenanceYearly = pickNumber(raw.maintenance)
+  const vacancyWeeks = pickNumber(raw.vacancy)
+  const ratePercent = pickNumber(raw.interestRate)
+  const termYears = pickNumber(raw.remainingLoanTermYears)
+
+  return createDefaultPropertyState(settings, {
+    id: String(raw.id || `property_${index + 1}`),
+    name: raw.name || (usage === 'owner-occupied' ? 'Primary Home' : `Investment Property ${index + 1}`),
+    usage,
+    intent: raw.propertyIntent === 'looking-to-buy' ? 'looking-to-buy' : 'existing',
+    value: pickNumber(raw.value, raw.currentValue) ?? 0,
+    loanBalance: pickNumber(raw.loanBalance, raw.outstandingMortgage) ?? 0,
+    ...(ratePercent !== undefined && { ratePct: ratePercent / 100 }),
+    ioOrPi: raw.loanType === 'IO' ? 'IO' : 'PI',
+    ...(termYears !== undefined && { termMonths: Math.round(termYears * 12) }),
+    rentPerWeek: weeklyRent,
+    ...(pickNumber(raw.managementFee) !== undefined && { mgmtFeePct: raw.managementFee / 100 }),
+    ...(pickNumber(raw.insurance) !== undefined && { insuranceYearly: raw.insurance }),
+    ...(pickNumber(raw.councilRates) !== undefined && { councilRatesYearly: raw.councilRates }),
+    ...(maintenanceYearly !== undefined && annualRent > 0 && { maintenancePctOfRent: maintenanceYearly / annualRent }),
+    ...(vacancyWeeks !== undefined && { vacancyPct: vacancyWeeks / 52 }),
+    purchasePrice: pickNumber(raw.purchasePrice),
+    purchaseDate: typeof raw.purchaseDate === 'string' ? raw.purchaseDate : undefined,
+    saleAge: pickNumber(raw.saleAge),
+    ...(AustralianStateEnum.safeParse(raw.state).success && { state: raw.state }),
+    ...(raw.propertyIntent === 'looking-to-buy' && usage === 'owner-occupied' && {
+      firstHomeBuyer: !!raw.firstHomeBuyer,
+      newHome: !!raw.newHome
+    }),
+    ...(raw.propertyIntent === 'looking-to-buy' && { foreignPurchaser: !!raw.foreignPurchaser }),
+    ...(usage === 'investment' && pickNumber(raw.landValuePercent) !== undefined && { landValuePct: raw.landValuePercent / 100 }),
+    ...(usage === 'owner-occupied' && {
+      downsizeToValue: pickNumber(raw.downsizeToValue),
+      downsizerContribution: pickNumber(raw.downsizerContribution)
+    }),
+    ...(usage === 'owner-occupied' && pickNumber(raw.fhssContributionYearly) && {
+      fhss: {
+        contributionYearly: raw.fhssContributionYearly,
+        contributionType: raw.fhssContributionType === 'non-concessional' ? 'non-concessional' : 'concessional'
+      }
+    })
+  })
+}
+
+// Goal type 'capital' stores the nest-egg amount in targetIncome
+const convertLegacyGoal = (raw: Record<string, any>, defaults: GoalState): GoalState => {
+  const isCapitalGoal = raw.goalType === 'capital'
+  const target = pickNumber(raw.targetIncome, raw.targetIncomeYearly)
+  const targetCapital = pickNumber(raw.targetAmount, raw.targetCapital, isCapitalGoal ? target : undefined)
+
+  return {
+    ...defaults,
+    currentAge: pickNumber(raw.currentAge) ?? defaults.currentAge,
+    retireAge: pickNumber(raw.retirementAge, raw.retireAge) ?? defaults.retireAge,
+    targetIncomeYearly: isCapitalGoal ? undefined : target ?? defaults.targetIncomeYearly,
+    targetCapital: isCapitalGoal ? targetCapital : undefined,
+    riskProfile: raw.riskProfile || defaults.riskProfile,
+    assumptionPreset: raw.assumptionPreset || presetFromMarketOutlook(raw.marketOutlook),
+    state: AustralianStateEnum.safeParse(raw.state).success ? raw.state : defaults.state,
+    maritalStatus: raw.maritalStatus ?? defaults.maritalStatus,
+    dependentsCount: pickNumber(raw.dependentsCount) ?? defaults.dependentsCount
+  }
+}
+
+// The wizard keeps the HELP balance and any voluntary repayments as plain numbers
+const convertLegacyHelpDebt = (raw: Record<string, any>): HelpDebtState | undefined => {
+  if (isObject(raw.helpDebt)) return raw.helpDebt as HelpDebtState
+  const balance = pickNumber(raw.helpDebt, raw.hecsDebt)
+  if (!balance) return undefined
+  return { balance, voluntaryRepaymentMonthly: pickNumber(raw.helpVoluntaryMonthly) }
+}
+
+/**
+ * Convert a partner entry (simple `retirementAge` / `currentBalance` names or canonical ones)
+ * into a PartnerState; super settings not given follow the primary member's
+ */
+export const convertLegacyPartner = (raw: Record<string, any>, base: PlannerState): PartnerState => {
+  const superRaw = isObject(raw.super) ? raw.super : {}
+  const currentAge = pickNumber(raw.currentAge) ?? base.goal.currentAge
+
+  return {
+    name: typeof raw.name === 'string' && raw.name ? raw.name : undefined,
+    currentAge,
+    retireAge: pickNumber(raw.retirementAge, raw.retireAge) ?? base.goal.retireAge,
+    preservationAge: pickNumber(raw.preservationAge),
+    salary: pickNumber(raw.salary) ?? 0,
+    bonus: pickNumber(raw.bonus),
+    wageGrowthPct: pickNumber(raw.wageGrowthPct),
+    helpDebt: convertLegacyHelpDebt(raw),
+    super: {
+      ...base.super,
+      ...superRaw,
+      balance: pickNumber(superRaw.balance, superRaw.currentBalance, raw.superBalance) ?? 0,
+      salarySacrificeMonthly: pickNumber(
+        superRaw.salarySacrificeMonthly, superRaw.salaryPackaging, raw.salaryPackaging
+      ) ?? 0
+    }
+  }
+}
+
+const migrateFromSimple = (raw: Record<string, any>, base: PlannerState, settings: AppSettings): PlannerState => {
+  const goal = raw.goal || {}
+  const income = raw.incomeExpense || {}
+  const superRaw = raw.super || {}
+  const portfolio = raw.portfolio || {}
+  const property = raw.property || {}
+  const buffers = raw.buffers || {}
+
+  const expensesMonthly = pickNumber(income.monthlyExpenses, income.expensesMonthly) ?? base.incomeExpense.expensesMonthly
+
+  // PropertyStep writes properties[]; older saves have a single flattened property
+  const legacyProperties: Record<string, any>[] = Array.isArray(property.properties)
+    ? property.properties
+    : property.hasProperty ? [property] : []
+
+  const emergencyFund = pickNumber(buffers.emergencyFund)
+
+  const goalState = convertLegacyGoal(goal, base.goal)
+
+  return {
+    ...base,
+    // A partner makes the household a couple even if the goal step said otherwise
+    goal: isObject(raw.partner) && goalState.maritalStatus === 'single'
+      ? { ...goalState, maritalStatus: 'couple' }
+      : goalState,
+    incomeExpense: {
+      ...base.incomeExpense,
+      salary: pickNumber(income.salary) ?? base.incomeExpense.salary,
+      bonus: pickNumber(income.bonus),
+      wageGrowthPct: pickNumber(income.wageGrowthPct) ?? base.incomeExpense.wageGrowthPct,
+      expensesMonthly,
+      helpDebt: convertLegacyHelpDebt(income),
+      ...(typeof income.privateHospitalCover === 'boolean' && {
+        privateHealth: {
+          hasHospitalCover: income.privateHospitalCover,
+          premiumYearly: income.privateHospitalCover ? pickNumber(income.privateHealthPremiumYearly) ?? 0 : 0
+        }
+      })
+    },
+    super: {
+      ...base.super,
+      balance: pickNumber(superRaw.currentBalance, superRaw.balance) ?? base.super.balance,
+      salarySacrificeMonthly: pickNumber(superRaw.salaryPackaging, superRaw.salarySacrificeMonthly) ?? 0,
+      option: superRaw.option || base.super.option,
+      SGRate: pickNumber(superRaw.SGRate) ?? base.super.SGRate,
+      ...(Array.isArray(superRaw.concessionalHistory) && { concessionalHistory: superRaw.concessionalHistory }),
+      ...(pickNumber(superRaw.nonConcessionalMonthly) !== undefined && { nonConcessionalMonthly: superRaw.nonConcessionalMonthly }),
+      ...(Array.isArray(superRaw.nonConcessionalLumpSums) && { nonConcessionalLumpSums: superRaw.nonConcessionalLumpSums }),
+      ...(pickNumber(superRaw.spouseContributionYearly) !== undefined && { spouseContributionYearly: superRaw.spouseContributionYearly })
+    },
+    properties: legacyProperties.map((p, i) => convertLegacyProperty(p, settings, i)),
+    portfolio: {
+      ...base.portfolio,
+      startingBalance: pickNumber(portfolio.currentBalance, portfolio.currentValue, portfolio.startingBalance) ?? 0,
+      dcaMonthly: pickNumber(portfolio.monthlyInvestment, portfolio.dcaMonthly) ?? 0,
+      allocationPreset: portfolio.allocationPreset || base.portfolio.allocationPreset,
+      costBase: pickNumber(portfolio.costBase),
+      ...(isObject(portfolio.distributions) && { distributions: portfolio.distributions })
+    },
+    buffers: {
+      ...base.buffers,
+      emergencyMonths: pickNumber(buffers.emergencyMonths) ??
+        (emergencyFund !== undefined && expensesMonthly > 0
+          ? Math.max(1, Math.round(emergencyFund / expensesMonthly))
+          : base.buffers.emergencyMonths)
+    },
+    ...(isObject(raw.partner) && { partner: convertLegacyPartner(raw.partner, base) }),
+    scenarioName: raw.scenarioName || base.scenarioName
+  }
+}
+
+const migrateFromWorker = (raw: Record<string, any>, base: PlannerState, settings: AppSettings): PlannerState => {
+  const goalSetter = raw.goalSetter || {}
+  const income = raw.income || {}
+  const superRaw = raw.super || {}
+  const portfolio = raw.portfolio || {}
+  const property = raw.property || {}
+  const buffers = raw.buffers || {}
+
+  const propertyValue = pickNumber(property.currentValue) ?? 0
+
+  return {
+    ...base,
+    goal: convertLegacyGoal(goalSetter, base.goal),
+    incomeExpense: {
+      ...base.incomeExpense,
+      salary: pickNumber(income.salary) ?? base.incomeExpense.salary,
+      wageGrowthPct: pickNumber(income.salaryGrowthRate) ?? base.incomeExpense.wageGrowthPct,
+      expensesMonthly: pickNumber(income.monthlyExpenses) ?? base.incomeExpense.expensesMonthly
+    },
+    super: {
+      ...base.super,
+      balance: pickNumber(superRaw.currentBalance) ?? base.super.balance,
+      salarySacrificeMonthly: pickNumber(superRaw.salaryPackaging) ?? 0,
+      option: superRaw.investmentOption || base.super.option,
+      feePct: pickNumber(superRaw.investmentFees) ?? base.super.feePct
+    },
+    properties: propertyValue > 0 ? [convertLegacyProperty(property, settings)] : [],
+    portfolio: {
+      ...base.portfolio,
+      startingBalance: pickNumber(portfolio.currentValue) ?? 0,
+      dcaMonthly: pickNumber(portfolio.monthlyInvestment) ?? 0,
+      allocationPreset: portfolio.etfStrategy === 'OneETF' ? 'OneETF' : base.portfolio.allocationPreset,
+      feePct: pickNumber(portfolio.annualFees) ?? base.portfolio.feePct
+    },
+    buffers: {
+      ...base.buffers,
+      emergencyMonths: pickNumber(buffers.triggerLevel) ?? base.buffers.emergencyMonths
+    },
+    scenarioName: raw.scenarioName || base.scenarioName
+  }
+}
+
+const migrateFromTypedV1 = (raw: Record<string, any>, base: PlannerState, settings: AppSettings): PlannerState => {
+  const { property, ...rest } = raw
+  const hasProperty = isObject(property) && property.enabled
+
+  return {
+    ...base,
+    ...rest,
+    goal: { ...base.goal, ...raw.goal },
+    incomeExpense: { ...base.incomeExpense, ...raw.incomeExpense },
+    super: { ...base.super, ...raw.super },
+    portfolio: { ...base.portfolio, ...raw.portfolio },
+    buffers: { ...base.buffers, ...raw.buffers },
+    preservation: { ...base.preservation, ...raw.preservation },
+    properties: hasProperty
+      ? [createDefaultPropertyState(settings, {
+          ...property,
+          usage: property.rentPerWeek ? 'investment' : 'owner-occupied'
+        })]
+      : [],
+    schemaVersion: PLANNER_SCHEMA_VERSION
+  }
+}
+
+// Fill any sections missing from an already-canonical state
+const normaliseCanonical = (raw: Record<string, any>, base: PlannerState, settings: AppSettings): PlannerState => ({
+  ...base,
+  ...raw,
+  goal: { ...base.goal, ...raw.goal },
+  incomeExpense: { ...base.incomeExpense, ...raw.incomeExpense },
+  super: { ...base.super, ...raw.super },
+  portfolio: { ...base.portfolio, ...raw.portfolio },
+  buffers: { ...base.buffers, ...raw.buffers },
+  preservation: { ...base.preservation, ...raw.preservation },
+  properties: raw.properties.map((p: Record<string, any>, i: number) =>
+    createDefaultPropertyState(settings, { id: `property_${i + 1}`, ...p })
+  ),
+  partner: isObject(raw.partner) ? convertLegacyPartner(raw.partner, base) : undefined,
+  schemaVersion: PLANNER_SCHEMA_VERSION
+})
+
+/**
+ * Convert any known planner shape into the canonical PlannerState
+ * @param raw - Planner state in any supported shape (including saved scenario blobs)
+ * @param settings - Settings used for defaults; falls back to the schema defaults
+ * @throws Error when the input is not a recognisable planner state
+ */
+export const migratePlannerState = (raw: unknown, settings?: Partial<AppSettings>): PlannerState => {
+  const appSettings = { ...createDefaultSettings(), ...settings } as AppSettings
+  const base = createDefaultPlannerState(appSettings)
+  const shape = detectPlannerShape(raw)
+
+  if (!isObject(raw) || shape === 'unknown') {
+    throw new Error('Unrecognised planner state format')
+  }
+
+  const meta = {
+    createdAt: raw.createdAt ?? base.createdAt,
+    updatedAt: raw.updatedAt ?? base.updatedAt
+  }
+
+  switch (shape) {
+    case 'canonical':
+      return normaliseCanonical(raw, base, appSettings)
+    case 'typed-v1':
+      return { ...migrateFromTypedV1(raw, base, appSettings), ...meta }
+    case 'worker':
+      return { ...migrateFromWorker(raw, base, appSettings), ...meta }
+    case 'simple':
+      return { ...migrateFromSimple(raw, base, appSettings), ...meta }
+  }
+}
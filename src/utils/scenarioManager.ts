@@ -3,6 +3,9 @@
  * Handles save/load/export/import of property planning scenarios
  */
 
+import type { PlannerState } from '../types/planner'
+import { migratePlannerState } from './plannerMigration'
+
 const SCENARIO_STORAGE_KEY = 'optimise_property_scenarios'
 
 // Sanitize data for JSON serialization by removing circular references and non-serializable objects
@@ -245,6 +248,11 @@ export const importScenarios = (jsonData: string, overwriteExisting = false): {
   }
 }
 
+// Canonical planner state for a saved scenario, whatever shape it was saved in
+export const getScenarioPlannerState = (scenario: PropertyScenario): PlannerState => {
+  return migratePlannerState(scenario.plannerState)
+}
+
 // Get scenario summary for display
 export const getScenarioSummary = (scenario: PropertyScenario): {
   propertyCount: number
@@ -253,17 +261,17 @@ export const getScenarioSummary = (scenario: PropertyScenario): {
   monthlyRentalIncome: number
 } => {
   try {
-    const properties = scenario.plannerState?.property?.properties || []
+    const { properties } = getScenarioPlannerState(scenario)
     
     let totalEquity = 0
     let totalLoanBalance = 0
     let monthlyRentalIncome = 0
     
-    properties.forEach((prop: any) => {
-      totalEquity += (prop.value || 0) - (prop.loanBalance || 0)
-      totalLoanBalance += prop.loanBalance || 0
-      if (prop.propertyType === 'investment' && prop.weeklyRent) {
-        monthlyRentalIncome += (prop.weeklyRent * 52) / 12
+    properties.forEach(prop => {
+      totalEquity += prop.value - prop.loanBalance
+      totalLoanBalance += prop.loanBalance
+      if (prop.usage === 'investment' && prop.rentPerWeek) {
+        monthlyRentalIncome += (prop.rentPerWeek * 52) / 12
       }
     })
     
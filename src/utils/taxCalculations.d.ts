@@ -2,27 +2,57 @@
  * TypeScript declarations for Australian Tax Calculations
  */
 
+import type { TaxParameters } from '../simulation/data/taxParameters'
+
 export interface TaxBreakdown {
   grossIncome: number
   taxableIncome: number
   incomeTax: number
   medicareLevy: number
+  medicareLevySurcharge: number          // nil unless cover details are given
   lito: number
+  division293Tax: number                 // assessed separately; not part of totalTax
   totalTax: number
   netIncome: number
   monthlyNet: number
   effectiveTaxRate: number
 }
 
+export interface MedicareCover {
+  hasPrivateCover?: boolean
+  family?: boolean
+  dependants?: number
+  mlsIncome?: number
+  familyIncome?: number
+}
+
 export interface TaxBracket {
   range: string
   marginalRate: string
   effectiveRate: string
 }
 
-export function calculateIncomeTax(annualIncome: number): number
-export function calculateMedicareLevy(annualIncome: number): number
-export function calculateLITO(annualIncome: number): number
-export function calculateNetIncome(annualIncome: number, superContributions?: number): TaxBreakdown
-export function getTaxBracket(annualIncome: number): TaxBracket | null
+export function calculateIncomeTax(annualIncome: number, params?: TaxParameters): number
+export function calculateMedicareLevy(annualIncome: number, params?: TaxParameters): number
+export function calculateMedicareLevySurcharge(
+  annualIncome: number,
+  cover?: MedicareCover,
+  params?: TaxParameters
+): number
+export function calculateLITO(annualIncome: number, params?: TaxParameters): number
+export function calculateHelpRepayment(repaymentIncome: number, params?: TaxParameters): number
+export function calculateDivision293Tax(taxableIncome: number, concessionalContributions: number, params?: TaxParameters): number
+export function calculateNetIncome(
+  annualIncome: number,
+  superContributions?: number,
+  params?: TaxParameters,
+  concessionalContributions?: number,
+  cover?: MedicareCover
+): TaxBreakdown
+export function calculateTaxOnAdditionalIncome(
+  additionalIncome: number,
+  otherTaxableIncome: number,
+  params?: TaxParameters
+): number
+export function getTaxBracket(annualIncome: number, params?: TaxParameters): TaxBracket | null
 export function calculateSuperGuarantee(annualIncome: number, sgRate?: number): number
\ No newline at end of file
@@ -1,99 +1,155 @@
 /**
- * Australian Tax Calculations - 2024-25 Tax Year
- * Based on ATO official tax brackets and Medicare levy
+ * Australian Tax Calculations
+ * Rates and thresholds come from the financial-year registry in simulation/data/taxParameters.ts;
+ * every function takes an optional parameter set and defaults to the current financial year
  * @fileoverview TypeScript declarations for tax calculation functions
  */
 
-// 2024-25 Tax Brackets for Australian Residents
-const TAX_BRACKETS_2024_25 = [
-  { min: 0, max: 18200, rate: 0, baseAmount: 0 },
-  { min: 18201, max: 45000, rate: 0.16, baseAmount: 0 },
-  { min: 45001, max: 135000, rate: 0.30, baseAmount: 4288 },
-  { min: 135001, max: 190000, rate: 0.37, baseAmount: 31288 },
-  { min: 190001, max: Infinity, rate: 0.45, baseAmount: 51638 }
-]
-
-// Medicare Levy
-const MEDICARE_LEVY_RATE = 0.02 // 2%
-const MEDICARE_LEVY_THRESHOLD = 29207 // 2024-25 threshold for singles
-const MEDICARE_LEVY_SHADE_OUT_THRESHOLD = 36457 // Shade-out threshold
-
-// Low Income Tax Offset (LITO) - 2024-25
-const LITO_MAX = 700
-const LITO_THRESHOLD = 37500
-const LITO_PHASE_OUT_RATE = 0.05
+import { getTaxParameters } from '../simulation/data/taxParameters'
+
+/**
+ * Sum of rate x income in each band, for brackets given as marginal rates above a threshold
+ * @param {number} income - Amount being banded
+ * @param {Array<{from: number, rate: number}>} brackets - Sorted by threshold
+ * @returns {number}
+ */
+function sumMarginal(income, brackets) {
+  return brackets.reduce((total, bracket, i) => {
+    const next = brackets[i + 1]
+    const top = next ? Math.min(income, next.from) : income
+    return total + Math.max(0, top - bracket.from) * bracket.rate
+  }, 0)
+}
 
 /**
  * Calculate income tax for a given annual salary
  * @param {number} annualIncome - Annual gross income
+ * @param {object} [params] - Tax parameters for the year; defaults to the current financial year
  * @returns {number} Annual income tax amount
  */
-export function calculateIncomeTax(annualIncome) {
+export function calculateIncomeTax(annualIncome, params = getTaxParameters()) {
   if (annualIncome <= 0) return 0
-
-  // Find the appropriate tax bracket
-  const bracket = TAX_BRACKETS_2024_25.find(
-    b => annualIncome >= b.min && annualIncome <= b.max
-  )
-
-  if (!bracket) return 0
-
-  // Calculate tax
-  const taxableAmount = annualIncome - bracket.min
-  const tax = bracket.baseAmount + (taxableAmount * bracket.rate)
-  
-  return Math.max(0, tax)
+  return Math.max(0, sumMarginal(annualIncome, params.incomeTax.brackets))
 }
 
 /**
  * Calculate Medicare levy
  * @param {number} annualIncome - Annual gross income
+ * @param {object} [params] - Tax parameters for the year; defaults to the current financial year
  * @returns {number} Annual Medicare levy amount
  */
-export function calculateMedicareLevy(annualIncome) {
-  if (annualIncome <= MEDICARE_LEVY_THRESHOLD) {
+export function calculateMedicareLevy(annualIncome, params = getTaxParameters()) {
+  const { rate, lowIncomeThreshold, shadeInRate } = params.medicareLevy
+  if (annualIncome <= lowIncomeThreshold) {
     return 0
   }
-  
-  if (annualIncome <= MEDICARE_LEVY_SHADE_OUT_THRESHOLD) {
-    // Shade-in rate: 10c for each $1 over threshold
-    const shadeInAmount = (annualIncome - MEDICARE_LEVY_THRESHOLD) * 0.10
-    const fullLevy = annualIncome * MEDICARE_LEVY_RATE
-    return Math.min(shadeInAmount, fullLevy)
-  }
-  
-  return annualIncome * MEDICARE_LEVY_RATE
+
+  // Shades in at 10c for each $1 over the threshold until it reaches the full levy
+  const shadeInAmount = (annualIncome - lowIncomeThreshold) * shadeInRate
+  return Math.min(shadeInAmount, annualIncome * rate)
+}
+
+/**
+ * Calculate the Medicare levy surcharge for someone without private hospital cover
+ * The tier is set by income for MLS purposes (which adds back reportable super contributions);
+ * couples and parents are tiered on family income against the family thresholds. The tier's
+ * rate then applies to the whole of the person's taxable income.
+ * @param {number} annualIncome - Taxable income the surcharge is charged on
+ * @param {object} [cover] - Hospital cover and household
+ * @param {boolean} [cover.hasPrivateCover] - No surcharge is payable with hospital cover
+ * @param {boolean} [cover.family] - Part of a couple
+ * @param {number} [cover.dependants] - Dependent children; any makes the household a family
+ * @param {number} [cover.mlsIncome] - Own income for MLS purposes; defaults to annualIncome
+ * @param {number} [cover.familyIncome] - Combined income for MLS purposes; defaults to mlsIncome
+ * @param {object} [params] - Tax parameters for the year; defaults to the current financial year
+ * @returns {number} Annual surcharge
+ */
+export function calculateMedicareLevySurcharge(annualIncome, cover = {}, params = getTaxParameters()) {
+  if (cover.hasPrivateCover || annualIncome <= 0) return 0
+
+  const { tiers, familyMultiplier, dependantIncrement } = params.medicareLevySurcharge
+  const dependants = cover.dependants || 0
+  const family = cover.family || dependants > 0
+  const ownIncome = cover.mlsIncome ?? annualIncome
+  const income = family ? cover.familyIncome ?? ownIncome : ownIncome
+  const threshold = (from) => family ? from * familyMultiplier + Math.max(0, dependants - 1) * dependantIncrement : from
+
+  const tier = [...tiers].reverse().find(t => income > threshold(t.from))
+  return tier ? annualIncome * tier.rate : 0
 }
 
 /**
  * Calculate Low Income Tax Offset (LITO)
  * @param {number} annualIncome - Annual gross income
+ * @param {object} [params] - Tax parameters for the year; defaults to the current financial year
  * @returns {number} Annual LITO offset amount
  */
-export function calculateLITO(annualIncome) {
-  if (annualIncome <= LITO_THRESHOLD) {
-    return LITO_MAX
+export function calculateLITO(annualIncome, params = getTaxParameters()) {
+  const { max, phaseOut } = params.lito
+  return Math.max(0, max - sumMarginal(Math.max(0, annualIncome), phaseOut))
+}
+
+/**
+ * Calculate the compulsory HECS/HELP repayment
+ * @param {number} repaymentIncome - Annual repayment income
+ * @param {object} [params] - Tax parameters for the year; defaults to the current financial year
+ * @returns {number} Annual repayment
+ */
+export function calculateHelpRepayment(repaymentIncome, params = getTaxParameters()) {
+  const { method, bands } = params.help
+  if (method === 'marginal') {
+    return sumMarginal(Math.max(0, repaymentIncome), bands)
   }
-  
-  // Phase out at 5c per dollar over $37,500
-  const phaseOut = (annualIncome - LITO_THRESHOLD) * LITO_PHASE_OUT_RATE
-  return Math.max(0, LITO_MAX - phaseOut)
+
+  // Older years: one rate, set by the band the income falls in, applies to the whole income
+  const band = [...bands].reverse().find(b => repaymentIncome >= b.from)
+  return band ? repaymentIncome * band.rate : 0
+}
+
+/**
+ * Calculate Division 293 tax: an extra tax on concessional contributions for high earners
+ * Applies to the lesser of the contributions and the amount by which income plus contributions
+ * exceeds the threshold
+ * @param {number} taxableIncome - Annual taxable income (after salary sacrifice)
+ * @param {number} concessionalContributions - Annual SG, salary sacrifice and other concessional contributions
+ * @param {object} [params] - Tax parameters for the year; defaults to the current financial year
+ * @returns {number} Annual Division 293 tax
+ */
+export function calculateDivision293Tax(taxableIncome, concessionalContributions, params = getTaxParameters()) {
+  const { division293Threshold, division293Rate } = params.superannuation
+  const contributions = Math.max(0, concessionalContributions)
+  const excess = Math.max(0, taxableIncome) + contributions - division293Threshold
+
+  return excess > 0 ? Math.min(contributions, excess) * division293Rate : 0
 }
 
 /**
  * Calculate net (take-home) income after all taxes and offsets
  * @param {number} annualIncome - Annual gross income
  * @param {number} superContributions - Annual super contributions (pre-tax)
+ * @param {object} [params] - Tax parameters for the year; defaults to the current financial year
+ * @param {number} [concessionalContributions] - All concessional contributions, for Division 293;
+ *   defaults to SG on the income plus `superContributions`
+ * @param {object} [cover] - Hospital cover and household for the Medicare levy surcharge (see
+ *   calculateMedicareLevySurcharge); the surcharge is only assessed when given
  * @returns {object} Breakdown of tax calculations
  */
-export function calculateNetIncome(annualIncome, superContributions = 0) {
+export function calculateNetIncome(
+  annualIncome,
+  superContributions = 0,
+  params = getTaxParameters(),
+  concessionalContributions = annualIncome * params.superannuation.guaranteeRate + superContributions,
+  cover
+) {
   if (annualIncome <= 0) {
     return {
       grossIncome: 0,
       taxableIncome: 0,
       incomeTax: 0,
       medicareLevy: 0,
+      medicareLevySurcharge: 0,
       lito: 0,
+      division293Tax: 0,
       totalTax: 0,
       netIncome: 0,
       monthlyNet: 0,
@@ -105,12 +161,19 @@ export function calculateNetIncome(annualIncome, superContributions = 0) {
   const taxableIncome = Math.max(0, annualIncome - superContributions)
   
   // Calculate components
-  const incomeTax = calculateIncomeTax(taxableIncome)
-  const medicareLevy = calculateMedicareLevy(taxableIncome)
-  const lito = calculateLITO(taxableIncome)
+  const incomeTax = calculateIncomeTax(taxableIncome, params)
+  const medicareLevy = calculateMedicareLevy(taxableIncome, params)
+  // Salary sacrificed to super still counts towards the surcharge tier
+  const medicareLevySurcharge = cover
+    ? calculateMedicareLevySurcharge(taxableIncome, { mlsIncome: annualIncome, ...cover }, params)
+    : 0
+  const lito = calculateLITO(taxableIncome, params)
   
-  // Total tax (income tax + Medicare levy - offsets)
-  const totalTax = Math.max(0, incomeTax + medicareLevy - lito)
+  // Total tax (income tax + Medicare levy and surcharge - offsets)
+  const totalTax = Math.max(0, incomeTax + medicareLevy - lito) + medicareLevySurcharge
+
+  // Division 293 is assessed separately and usually paid from super, so it doesn't reduce take-home pay
+  const division293Tax = calculateDivision293Tax(taxableIncome, concessionalContributions, params)
   
   // Net income
   const netIncome = taxableIncome - totalTax
@@ -124,7 +187,9 @@ export function calculateNetIncome(annualIncome, superContributions = 0) {
     taxableIncome,
     incomeTax,
     medicareLevy,
+    medicareLevySurcharge,
     lito,
+    division293Tax,
     totalTax,
     netIncome,
     monthlyNet: Math.round(monthlyNet),
@@ -132,25 +197,43 @@ export function calculateNetIncome(annualIncome, superContributions = 0) {
   }
 }
 
+/**
+ * Extra tax from income on top of someone's other taxable income, at their marginal rates
+ * @param {number} additionalIncome - Yearly; negative for a loss that reduces the other income
+ * @param {number} otherTaxableIncome - Yearly taxable income before the addition
+ * @param {object} [params] - Tax parameters for the year; defaults to the current financial year
+ * @returns {number} Extra tax payable; negative when the addition lowers tax
+ */
+export function calculateTaxOnAdditionalIncome(additionalIncome, otherTaxableIncome, params = getTaxParameters()) {
+  if (additionalIncome === 0) return 0
+  const withAddition = calculateNetIncome(otherTaxableIncome + additionalIncome, 0, params).totalTax
+  const without = calculateNetIncome(otherTaxableIncome, 0, params).totalTax
+  return withAddition - without
+}
+
 /**
  * Get tax bracket information for a given income
  * @param {number} annualIncome - Annual gross income
+ * @param {object} [params] - Tax parameters for the year; defaults to the current financial year
  * @returns {object} Tax bracket information
  */
-export function getTaxBracket(annualIncome) {
-  const bracket = TAX_BRACKETS_2024_25.find(
-    b => annualIncome >= b.min && annualIncome <= b.max
-  )
-  
-  if (!bracket) return null
-  
+export function getTaxBracket(annualIncome, params = getTaxParameters()) {
+  const { brackets } = params.incomeTax
+  const index = brackets.findIndex((b, i) => annualIncome >= b.from && (!brackets[i + 1] || annualIncome < brackets[i + 1].from))
+
+  if (index < 0) return null
+
+  const bracket = brackets[index]
+  const next = brackets[index + 1]
+  const min = bracket.from === 0 ? 0 : bracket.from + 1
+
   return {
-    range: bracket.max === Infinity 
-      ? `$${bracket.min.toLocaleString()}+`
-      : `$${bracket.min.toLocaleString()} - $${bracket.max.toLocaleString()}`,
+    range: !next
+      ? `$${min.toLocaleString()}+`
+      : `$${min.toLocaleString()} - $${next.from.toLocaleString()}`,
     marginalRate: (bracket.rate * 100).toFixed(0) + '%',
     effectiveRate: annualIncome > 0 
-      ? (((calculateIncomeTax(annualIncome) + calculateMedicareLevy(annualIncome) - calculateLITO(annualIncome)) / annualIncome) * 100).toFixed(1) + '%'
+      ? (((calculateIncomeTax(annualIncome, params) + calculateMedicareLevy(annualIncome, params) - calculateLITO(annualIncome, params)) / annualIncome) * 100).toFixed(1) + '%'
       : '0%'
   }
 }
@@ -158,9 +241,9 @@ export function getTaxBracket(annualIncome) {
 /**
  * Calculate super guarantee contributions
  * @param {number} annualIncome - Annual gross income
- * @param {number} sgRate - Super guarantee rate (default 12% for 2025-26)
+ * @param {number} [sgRate] - Super guarantee rate (defaults to the current financial year's rate)
  * @returns {number} Annual SG contributions
  */
-export function calculateSuperGuarantee(annualIncome, sgRate = 0.12) {
+export function calculateSuperGuarantee(annualIncome, sgRate = getTaxParameters().superannuation.guaranteeRate) {
   return annualIncome * sgRate
-}
\ No newline at end of file
+}
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest'
+import { calculateDivision293Tax, calculateMedicareLevySurcharge, calculateNetIncome } from './taxCalculations'
+import { getTaxParameters } from '../simulation/data/taxParameters'
+
+const tax = getTaxParameters(2025)
+
+describe('calculateDivision293Tax', () => {
+  it('charges nothing while income plus contributions stay under the threshold', () => {
+    expect(calculateDivision293Tax(220000, 30000, tax)).toBe(0)
+  })
+
+  it('taxes only the contributions above the threshold', () => {
+    expect(calculateDivision293Tax(230000, 30000, tax)).toBeCloseTo(10000 * 0.15)
+  })
+
+  it('taxes all contributions once income alone is over the threshold', () => {
+    expect(calculateDivision293Tax(300000, 30000, tax)).toBeCloseTo(30000 * 0.15)
+  })
+
+  it('is reported alongside, not in, take-home tax', () => {
+    const breakdown = calculateNetIncome(300000, 0, tax)
+    expect(breakdown.division293Tax).toBeCloseTo(300000 * tax.superannuation.guaranteeRate * 0.15)
+    expect(breakdown.netIncome).toBeCloseTo(breakdown.grossIncome - breakdown.totalTax)
+  })
+})
+
+describe('calculateMedicareLevySurcharge', () => {
+  it('applies the tier\'s rate to all income without hospital cover', () => {
+    expect(calculateMedicareLevySurcharge(100000, {}, tax)).toBe(0)
+    expect(calculateMedicareLevySurcharge(110000, {}, tax)).toBeCloseTo(1100)
+    expect(calculateMedicareLevySurcharge(160000, {}, tax)).toBeCloseTo(2400)
+    expect(calculateMedicareLevySurcharge(160000, { hasPrivateCover: true }, tax)).toBe(0)
+  })
+
+  it('tests families on combined income against higher thresholds', () => {
+    expect(calculateMedicareLevySurcharge(110000, { family: true, familyIncome: 200000 }, tax)).toBe(0)
+    expect(calculateMedicareLevySurcharge(110000, { family: true, familyIncome: 204000 }, tax)).toBeCloseTo(1100)
+    expect(calculateMedicareLevySurcharge(110000, { dependants: 3, familyIncome: 204000 }, tax)).toBe(0)
+  })
+
+  it('counts salary sacrifice towards the threshold when assessed with take-home pay', () => {
+    const breakdown = calculateNetIncome(105000, 10000, tax, undefined, { hasPrivateCover: false })
+    expect(breakdown.medicareLevySurcharge).toBeCloseTo(95000 * 0.01)
+    expect(calculateNetIncome(105000, 10000, tax).medicareLevySurcharge).toBe(0)
+  })
+})